@@ -1,5 +1,5 @@
 
-import React, { Component, useState, useEffect, useCallback, ReactNode, ErrorInfo, useMemo } from 'react';
+import React, { Component, useState, useEffect, useCallback, ReactNode, ErrorInfo, useMemo, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { Onboarding } from './components/Onboarding';
 import { Login } from './components/Login';
@@ -12,10 +12,28 @@ import { Promoter } from './components/Promoter';
 import { Support } from './components/Support';
 import { Settings } from './components/Settings';
 import { IntroVideo } from './components/IntroVideo';
-import { ViewState, UserRole, OnboardingState, Product, Transaction, Supplier, IntegrationConfig, SyncLog, SystemUser, PlanType, Business, Referral } from './types';
+import { LocalDataRecovery } from './components/LocalDataRecovery';
+import { ViewState, UserRole, OnboardingState, Product, Order, OrderStatus, Shift, HeldOrder, OpenBasket, PaymentMethod, Supplier, IntegrationConfig, SyncLog, SystemUser, PlanType, AppNotice, Business, Referral, StockMovement, StockMovementType, StockLot, PurchaseOrder, StockCount, StockTransfer, Category } from './types';
 import { RefreshCw, ShieldX, Zap, AlertTriangle, ShieldCheck } from 'lucide-react';
 import { dataService } from './services/dataService';
+import { dbService } from './services/dbService';
+import { orderService } from './services/orderService';
+import { shiftService, findOpenShift } from './services/shiftService';
+import { receiptService } from './services/receiptService';
+import { heldOrderService } from './services/heldOrderService';
+import { receiptBusinessFrom } from './services/printService';
+import { advanceCostBook, costOrderLines, CostBook } from './services/costingService';
+import { lowStockAlerts, draftReorders } from './services/reorderService';
+import { lotBalances, allocateLots, returnToLots, writeOffLot } from './services/lotService';
+import { purchaseOrderService, receiveGoods, ReceiveEntry } from './services/purchaseOrderService';
+import { stockCountService, approveCount } from './services/stockCountService';
+import { transferService, dispatchTransfer, receiveTransfer } from './services/transferService';
+import { categoryService, categoryNames, CategoryChange } from './services/categoryService';
+import { withBundleStock } from './services/bundleService';
+import { stockService, withLedgerStock, movementsForOrder, movementsForEdit, newMovement, signedQuantity } from './services/stockService';
 import { supabase } from './services/supabaseClient';
+import { TableChange, tabService } from './services/tabService';
+import { DEFAULT_CATEGORIES } from './constants';
 
 interface ErrorBoundaryProps { children?: ReactNode; }
 interface ErrorBoundaryState { hasError: boolean; error: Error | null; errorInfo: ErrorInfo | null; showDetails: boolean; }
@@ -109,7 +127,7 @@ const App: React.FC = () => {
     CATS: `${STORAGE_PREFIX}cats`, 
     PRODUCTS: `${STORAGE_PREFIX}products`, 
     SUPPLIERS: `${STORAGE_PREFIX}suppliers`, 
-    TRANSACTIONS: `${STORAGE_PREFIX}transactions`, 
+    ORDERS: `${STORAGE_PREFIX}orders`, 
     USERS: `${STORAGE_PREFIX}users`, 
     SESSION_USER: `${STORAGE_PREFIX}session_user_id`, 
     PLAN: `${STORAGE_PREFIX}plan`, 
@@ -129,12 +147,18 @@ const App: React.FC = () => {
   const [businesses, setBusinesses] = useState<Business[]>(() => safeJsonParse<Business[]>(KEYS.BUSINESSES, []));
   const [activeBusinessId, setActiveBusinessId] = useState<string>('');
   const [subscriptionPlan, setSubscriptionPlan] = useState<PlanType>(() => (localStorage.getItem(KEYS.PLAN) as PlanType) || 'STARTER');
-  const [categories, setCategories] = useState<string[]>(() => safeJsonParse<string[]>(KEYS.CATS, ['Food', 'Drinks', 'Retail']));
+  const [categoryList, setCategoryList] = useState<Category[]>([]);
   const [users, setUsers] = useState<SystemUser[]>(() => safeJsonParse<SystemUser[]>(KEYS.USERS, []));
   const [products, setProducts] = useState<Product[]>(() => safeJsonParse<Product[]>(KEYS.PRODUCTS, []));
   const [suppliers, setSuppliers] = useState<Supplier[]>(() => safeJsonParse<Supplier[]>(KEYS.SUPPLIERS, []));
-  const [transactions, setTransactions] = useState<Transaction[]>(() => safeJsonParse<Transaction[]>(KEYS.TRANSACTIONS, []));
+  const [orders, setOrders] = useState<Order[]>(() => safeJsonParse<Order[]>(KEYS.ORDERS, []));
   const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [heldOrders, setHeldOrders] = useState<HeldOrder[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
   const [integrations, setIntegrations] = useState<IntegrationConfig[]>(() => 
     safeJsonParse<IntegrationConfig[]>(KEYS.INTEGRATIONS, [
       { id: '1', provider: 'QUICKBOOKS', name: 'QuickBooks', status: 'DISCONNECTED', autoSync: false },
@@ -142,6 +166,28 @@ const App: React.FC = () => {
     ])
   );
   const [syncLogs, setSyncLogs] = useState<SyncLog[]>([]);
+  const [notice, setNotice] = useState<AppNotice | null>(null);
+  const [isLeader, setIsLeader] = useState<boolean>(() => tabService.isLeader());
+
+  // Local data must be on the current layout before anything loads from it
+  const [dbReady, setDbReady] = useState(false);
+  const [dbError, setDbError] = useState<Error | null>(null);
+  useEffect(() => {
+    dbService.ready().then(() => setDbReady(true)).catch(e => {
+      console.error('[App] Local database upgrade failed.', e);
+      setDbError(e instanceof Error ? e : new Error(String(e)));
+    });
+  }, []);
+
+  // 0. Take part in choosing the tab that syncs; a new leader drains the queue
+  useEffect(() => {
+    const stop = tabService.onLeaderChange(lead => {
+      setIsLeader(lead);
+      if (lead) dataService.syncPending().catch(e => console.warn('[App] Syncing as the new leader tab failed.', e));
+    });
+    tabService.start();
+    return stop;
+  }, []);
 
   // 1. Resolve Active Business ID
   useEffect(() => {
@@ -153,26 +199,53 @@ const App: React.FC = () => {
 
   // 2. Load Data & Synchronize with Supabase Realtime
   useEffect(() => {
-    if (isSetupComplete && activeBusinessId) {
+    if (dbReady && isSetupComplete && activeBusinessId) {
       const loadInitialData = async () => {
         try {
           // Process any locally queued actions before fetching
           await dataService.syncPending();
           
-          const [fProd, fTrans, fSupp, fUsers, fRefs, fBiz] = await Promise.all([
+          const [fProd, fOrders, fShifts, fHeld, fSupp, fUsers, fRefs, fBiz, fMoves, fPOs, fCounts, fTransfers, fCats] = await Promise.all([
             dataService.fetch<Product>('products', 'products', activeBusinessId),
-            dataService.fetch<Transaction>('transactions', 'transactions', activeBusinessId),
+            orderService.fetch(activeBusinessId),
+            shiftService.fetch(activeBusinessId),
+            heldOrderService.fetch(activeBusinessId),
             dataService.fetch<Supplier>('suppliers', 'suppliers', activeBusinessId),
             dataService.fetch<SystemUser>('users', 'users', activeBusinessId),
             dataService.fetch<Referral>('referrals', 'referrals', activeBusinessId),
-            dataService.fetch<Business>('businesses', 'businesses', activeBusinessId)
+            dataService.fetch<Business>('businesses', 'businesses', activeBusinessId),
+            stockService.fetch(activeBusinessId),
+            purchaseOrderService.fetch(activeBusinessId),
+            stockCountService.fetch(activeBusinessId),
+            transferService.fetch(activeBusinessId),
+            categoryService.fetch(activeBusinessId)
           ]);
           
           setProducts(fProd); 
-          setTransactions(fTrans); 
+          setOrders(fOrders); 
+          setShifts(fShifts); 
+          setHeldOrders(fHeld); 
           setSuppliers(fSupp); 
           setUsers(fUsers); 
           setReferrals(fRefs);
+          setMovements(fMoves);
+          setPurchaseOrders(fPOs);
+          setStockCounts(fCounts);
+          setTransfers(fTransfers);
+
+          // Categories used to live only on this device; carry them over once
+          const seeded = await categoryService.seedMissing(activeBusinessId, fCats, fProd, safeJsonParse<string[]>(KEYS.CATS, DEFAULT_CATEGORIES));
+          setCategoryList([...fCats, ...seeded]);
+          if (fCats.length + seeded.length > 0) localStorage.removeItem(KEYS.CATS);
+
+          // Items stocked before the ledger existed start from their stored count
+          const opened = await stockService.openMissingBalances(activeBusinessId, fProd, fMoves);
+          if (opened.length > 0) setMovements(prev => [...prev, ...opened]);
+
+          // Carry over sales recorded before the order model existed
+          const migrated = await orderService.migrateLegacyTransactions(activeBusinessId, fOrders);
+          if (migrated.length > 0) setOrders(prev => [...prev, ...migrated]);
+          await receiptService.restore(activeBusinessId);
           
           if (fBiz.length > 0) {
             const current = fBiz.find(b => b.id === activeBusinessId);
@@ -187,58 +260,112 @@ const App: React.FC = () => {
       };
       
       loadInitialData();
+    }
+  }, [dbReady, isSetupComplete, activeBusinessId]);
 
-      // ESTABLISH REAL-TIME SUBSCRIPTIONS
-      // This makes the app "Live" - changes in DB automatically apply here
-      const channels = dataService.subscribeToChanges(
-        ['products', 'transactions', 'users', 'suppliers', 'referrals', 'businesses'],
-        activeBusinessId,
-        (change) => {
-          const { table, event, data } = change;
-          
-          if (table === 'products') {
-            setProducts(prev => {
-              if (event === 'DELETE') return prev.filter(p => p.id !== data.id);
-              const exists = prev.some(p => p.id === data.id);
-              if (exists) return prev.map(p => p.id === data.id ? data : p);
-              return [data, ...prev];
-            });
-          } else if (table === 'transactions') {
-            setTransactions(prev => {
-              if (event === 'DELETE') return prev.filter(t => t.id !== data.id);
-              const exists = prev.some(t => t.id === data.id);
-              if (exists) return prev.map(t => t.id === data.id ? data : t);
-              return [data, ...prev];
-            });
-          } else if (table === 'users') {
-            setUsers(prev => {
-              if (event === 'DELETE') return prev.filter(u => u.id !== data.id);
-              return [data, ...prev.filter(u => u.id !== data.id)];
-            });
-          } else if (table === 'suppliers') {
-            setSuppliers(prev => {
-                if (event === 'DELETE') return prev.filter(s => s.id !== data.id);
-                return [data, ...prev.filter(s => s.id !== data.id)];
-            });
-          } else if (table === 'referrals') {
-            setReferrals(prev => {
-                if (event === 'DELETE') return prev.filter(r => r.id !== data.id);
-                return [data, ...prev.filter(r => r.id !== data.id)];
-            });
-          } else if (table === 'businesses') {
-            setBusinesses(prev => prev.map(b => b.id === data.id ? data : b));
-            if (data.id === activeBusinessId) setBusinessName(data.name);
-          }
-        }
-      );
+  // Applies a change heard from the cloud or passed on by another open tab
+  const applyChange = useCallback((change: TableChange) => {
+    const { table, event, data } = change;
+    // Another tab may be working in a different business
+    if (data?.businessId && data.businessId !== activeBusinessId && data.toBusinessId !== activeBusinessId) return;
 
-      return () => {
-        channels.forEach(c => {
-            if (c) supabase.removeChannel(c);
-        });
-      };
+    if (table === 'products') {
+      setProducts(prev => {
+        if (event === 'DELETE') return prev.filter(p => p.id !== data.id);
+        const exists = prev.some(p => p.id === data.id);
+        if (exists) return prev.map(p => p.id === data.id ? data : p);
+        return [data, ...prev];
+      });
+    } else if (table === 'orders') {
+      setOrders(prev => {
+        if (event === 'DELETE') return prev.filter(o => o.id !== data.id);
+        const existing = prev.find(o => o.id === data.id);
+        if (existing) return prev.map(o => o.id === data.id ? { ...data, lines: existing.lines } : o);
+        return [{ ...data, payments: data.payments || [], lines: [] }, ...prev];
+      });
+    } else if (table === 'order_lines') {
+      setOrders(prev => prev.map(o => {
+        if (o.id !== data.orderId) return o;
+        const others = o.lines.filter(l => l.id !== data.id);
+        return { ...o, lines: event === 'DELETE' ? others : [...others, data] };
+      }));
+    } else if (table === 'shifts') {
+      setShifts(prev => {
+          if (event === 'DELETE') return prev.filter(s => s.id !== data.id);
+          return [{ ...data, movements: data.movements || [] }, ...prev.filter(s => s.id !== data.id)];
+      });
+    } else if (table === 'users') {
+      setUsers(prev => {
+        if (event === 'DELETE') return prev.filter(u => u.id !== data.id);
+        return [data, ...prev.filter(u => u.id !== data.id)];
+      });
+    } else if (table === 'suppliers') {
+      setSuppliers(prev => {
+          if (event === 'DELETE') return prev.filter(s => s.id !== data.id);
+          return [data, ...prev.filter(s => s.id !== data.id)];
+      });
+    } else if (table === 'referrals') {
+      setReferrals(prev => {
+          if (event === 'DELETE') return prev.filter(r => r.id !== data.id);
+          return [data, ...prev.filter(r => r.id !== data.id)];
+      });
+    } else if (table === 'businesses') {
+      setBusinesses(prev => prev.map(b => b.id === data.id ? data : b));
+      if (data.id === activeBusinessId) setBusinessName(data.name);
+    } else if (table === 'stock_movements' && event !== 'DELETE') {
+      // The ledger is append-only; a movement is only ever added once
+      setMovements(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data]);
+    } else if (table === 'purchase_orders') {
+      setPurchaseOrders(prev => {
+          if (event === 'DELETE') return prev.filter(p => p.id !== data.id);
+          return [{ ...data, lines: data.lines || [], receipts: data.receipts || [] }, ...prev.filter(p => p.id !== data.id)];
+      });
+    } else if (table === 'stock_counts') {
+      setStockCounts(prev => {
+          if (event === 'DELETE') return prev.filter(c => c.id !== data.id);
+          return [{ ...data, lines: data.lines || [], history: data.history || [] }, ...prev.filter(c => c.id !== data.id)];
+      });
+    } else if (table === 'stock_transfers') {
+      setTransfers(prev => {
+          if (event === 'DELETE') return prev.filter(t => t.id !== data.id);
+          return [{ ...data, lines: data.lines || [] }, ...prev.filter(t => t.id !== data.id)];
+      });
+    } else if (table === 'categories') {
+      setCategoryList(prev => {
+          if (event === 'DELETE') return prev.filter(c => c.id !== data.id);
+          return [...prev.filter(c => c.id !== data.id), data];
+      });
+    } else if (table === 'held_orders') {
+      setHeldOrders(prev => {
+          if (event === 'DELETE') return prev.filter(h => h.id !== data.id);
+          return [data, ...prev.filter(h => h.id !== data.id)];
+      });
     }
-  }, [isSetupComplete, activeBusinessId]);
+  }, [activeBusinessId]);
+
+  // ESTABLISH REAL-TIME SUBSCRIPTIONS
+  // This makes the app "Live" - changes in DB automatically apply here. Only
+  // the leader tab subscribes; the others hear about changes from it.
+  useEffect(() => {
+    if (!isSetupComplete || !activeBusinessId) return;
+    const stopListening = tabService.onChange(applyChange);
+    if (!isLeader) return stopListening;
+
+    const channels = dataService.subscribeToChanges(
+      ['products', 'orders', 'order_lines', 'shifts', 'users', 'suppliers', 'referrals', 'businesses', 'stock_movements', 'purchase_orders', 'stock_counts', 'stock_transfers', 'categories'],
+      activeBusinessId,
+      applyChange
+    );
+    // Transfers coming in are stored under the sending business
+    channels.push(...dataService.subscribeToChanges(['stock_transfers'], activeBusinessId, applyChange, 'to_business_id'));
+
+    return () => {
+      stopListening();
+      channels.forEach(c => {
+          if (c) supabase.removeChannel(c);
+      });
+    };
+  }, [isSetupComplete, activeBusinessId, isLeader, applyChange]);
 
   // 3. User Session Management
   useEffect(() => {
@@ -329,8 +456,33 @@ const App: React.FC = () => {
     return { success: false, error: "Account access limited." };
   }, [users]);
 
+  // On-hand figures come from the movement ledger rather than the stored stock field;
+  // bundles show how many their components can make
+  const stockedProducts = useMemo(() => withBundleStock(withLedgerStock(products, movements)), [products, movements]);
+  const lots = useMemo(() => lotBalances(movements), [movements]);
+  const categories = useMemo(() => categoryNames(categoryList), [categoryList]);
+
+  const recordMovements = useCallback(async (entries: StockMovement[]) => {
+    if (entries.length === 0) return;
+    const tagged = entries.map(m => ({ ...m, businessId: activeBusinessId }));
+    setMovements(prev => {
+      const known = new Set(prev.map(m => m.id));
+      const added = tagged.filter(m => !known.has(m.id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+    await stockService.record(tagged, activeBusinessId);
+  }, [activeBusinessId]);
+
+  const handleStockMovement = async (productId: string, type: StockMovementType, quantity: number, reason: string, variantId?: string, extra: Partial<StockMovement> = {}) => {
+    await recordMovements([newMovement(productId, type, signedQuantity(type, quantity), reason, currentUser, { ...extra, variantId })]);
+  };
+
+  // What the ledger holds for an item; undefined until it has an opening balance
+  const ledgerProduct = (id: string) => movements.some(m => m.productId === id) ? stockedProducts.find(x => x.id === id) : undefined;
+
   const handleSaveProduct = async (p: Product) => { 
     const s = { ...p, businessId: activeBusinessId }; 
+    await recordMovements(movementsForEdit(ledgerProduct(s.id), s, currentUser));
     // State is updated automatically by subscription, but we update locally for snappiness
     setProducts(prev => {
         const exists = prev.some(x => x.id === s.id);
@@ -340,28 +492,213 @@ const App: React.FC = () => {
     await dataService.upsert('products', 'products', s, activeBusinessId); 
   };
   
+  const handleImportProducts = async (items: Product[]) => {
+    const tagged = items.map(p => ({ ...p, businessId: activeBusinessId }));
+    const byId = new Map(tagged.map(p => [p.id, p]));
+    setProducts(prev => [...tagged.filter(p => !prev.some(x => x.id === p.id)), ...prev.map(x => byId.get(x.id) || x)]);
+    await dataService.upsertMany('products', 'products', tagged);
+    await recordMovements(tagged.flatMap(p => movementsForEdit(ledgerProduct(p.id), p, currentUser)));
+  };
+
+  // Renames and merges carry the new category name onto the affected items
+  const handleCategoryChange = async (change: CategoryChange) => {
+    const removed = new Set(change.remove.map(c => c.id));
+    setCategoryList(prev => [...prev.filter(c => !removed.has(c.id) && !change.save.some(s => s.id === c.id)), ...change.save]);
+    if (change.products.length > 0) {
+      const byId = new Map(change.products.map(p => [p.id, p]));
+      setProducts(prev => prev.map(p => byId.get(p.id) || p));
+    }
+    await categoryService.apply(change, activeBusinessId);
+  };
+
   const handleDeleteProduct = async (p: Product) => { 
     setProducts(prev => prev.filter(item => item.id !== p.id)); 
     await dataService.delete('products', 'products', p.id); 
   };
 
-  const handleTransactionComplete = useCallback(async (txs: Transaction[]) => { 
-    const tagged = txs.map(t => ({ ...t, businessId: activeBusinessId })); 
-    setTransactions(prev => [...tagged, ...prev]); 
-    await dataService.upsertMany('transactions', 'transactions', tagged); 
-    
-    // Deduct stock
-    for (const tx of tagged) {
-        if (tx.productId) {
-            const p = products.find(prod => prod.id === tx.productId);
-            if (p) {
-                const newStock = Math.max(0, p.stock - (tx.quantity || 1));
-                await dataService.upsert('products', 'products', { ...p, stock: newStock }, activeBusinessId);
-            }
-        }
+  const handleSaveSupplier = async (s: Supplier) => {
+    setSuppliers(prev => prev.some(x => x.id === s.id) ? prev.map(x => x.id === s.id ? s : x) : [...prev, s]);
+    await dataService.upsert('suppliers', 'suppliers', s, activeBusinessId);
+  };
+
+  const handleSavePurchaseOrder = async (po: PurchaseOrder) => {
+    const saved = await purchaseOrderService.save(po, activeBusinessId);
+    setPurchaseOrders(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+  };
+
+  const handleSaveStockCount = async (count: StockCount) => {
+    const saved = await stockCountService.save(count, activeBusinessId);
+    setStockCounts(prev => [saved, ...prev.filter(c => c.id !== saved.id)]);
+  };
+
+  // Posts the variances, then closes the count so it can't be approved twice
+  const handleApproveStockCount = async (count: StockCount) => {
+    const result = approveCount(count, currentUser);
+    await recordMovements(result.movements);
+    await handleSaveStockCount(result.count);
+  };
+
+  const handleSaveTransfer = async (t: StockTransfer) => {
+    const saved = await transferService.save(t);
+    setTransfers(prev => [saved, ...prev.filter(x => x.id !== saved.id)]);
+  };
+
+  // Each side posts to its own ledger: the sender on dispatch, the receiver on arrival
+  const handleDispatchTransfer = async (t: StockTransfer) => {
+    if (t.fromBusinessId !== activeBusinessId) throw new Error('Switch to the sending business to dispatch this transfer.');
+    const result = dispatchTransfer(t, stockedProducts, lots, currentUser);
+    await recordMovements(result.movements);
+    await handleSaveTransfer(result.transfer);
+  };
+
+  const handleReceiveTransfer = async (t: StockTransfer, received: Record<string, number>) => {
+    if (t.toBusinessId !== activeBusinessId) throw new Error('Switch to the receiving business to book this transfer in.');
+    const result = receiveTransfer(t, received, stockedProducts, currentUser);
+    if (result.created.length > 0) await handleImportProducts(result.created);
+    await recordMovements(result.movements);
+    await handleSaveTransfer(result.transfer);
+  };
+
+  // Throws with a friendly message when the delivery doesn't fit the order
+  const handleReceivePurchaseOrder = async (po: PurchaseOrder, entries: Record<string, ReceiveEntry>) => {
+    const result = receiveGoods(po, entries, currentUser, products);
+    await handleSavePurchaseOrder(result.po);
+    await recordMovements(result.movements);
+  };
+
+  const stockAlerts = useMemo(() => lowStockAlerts(stockedProducts, purchaseOrders), [stockedProducts, purchaseOrders]);
+
+  const handleWriteOffLots = async (expired: StockLot[]) => {
+    await recordMovements(expired.map(l => writeOffLot(l, currentUser)));
+  };
+
+  // Shows a notice above the current screen for a few seconds
+  const noticeTimer = useRef<ReturnType<typeof setTimeout>>();
+  const notify = (message: string, type: AppNotice['type'] = 'success') => {
+    clearTimeout(noticeTimer.current);
+    setNotice({ message, type });
+    noticeTimer.current = setTimeout(() => setNotice(null), 5000);
+  };
+
+  const handleDraftReorders = async () => {
+    const { drafts, unassigned } = draftReorders(stockAlerts, purchaseOrders);
+    try {
+      for (const po of drafts) await handleSavePurchaseOrder(po);
+    } catch (e: any) {
+      notify(e?.message || "The draft purchase orders couldn't be saved. Please try again.", 'error');
+      return;
+    }
+    const skipped = unassigned.length > 0 ? ` ${unassigned.length} item(s) have no preferred supplier and were left out.` : '';
+    notify(drafts.length > 0 ? `${drafts.length} draft purchase order(s) are ready in My Suppliers.${skipped}` : `Everything low is already on order.${skipped}`, drafts.length > 0 ? 'success' : 'info');
+  };
+
+  // A conflict settled in Settings replaces (or removes) the row on screen
+  const handleConflictResolved = (table: string, id: string, kept: any | null) => {
+    const setters: Record<string, React.Dispatch<React.SetStateAction<any[]>>> = {
+      products: setProducts, categories: setCategoryList, suppliers: setSuppliers, users: setUsers, businesses: setBusinesses,
+      purchase_orders: setPurchaseOrders, stock_counts: setStockCounts, stock_transfers: setTransfers
+    };
+    setters[table]?.(prev => kept ? [...prev.filter(x => x.id !== id), kept] : prev.filter(x => x.id !== id));
+  };
+
+  const handleSaveBusiness = async (biz: Business) => {
+    setBusinesses(prev => prev.some(b => b.id === biz.id) ? prev.map(b => b.id === biz.id ? biz : b) : [...prev, biz]);
+    if (biz.id === activeBusinessId) setBusinessName(biz.name);
+    await dataService.upsert('businesses', 'businesses', biz);
+  };
+
+  const activeBusiness = businesses.find(b => b.id === activeBusinessId);
+  const receiptBusiness = receiptBusinessFrom(activeBusiness, businessName, currentUser?.email);
+
+  // Running cost positions, moved forward whenever stock moves
+  const costBook = useRef<CostBook | null>(null);
+  useEffect(() => {
+    costBook.current = advanceCostBook(costBook.current, products, movements, activeBusiness?.valuationMethod);
+  }, [movements, activeBusiness?.valuationMethod]);
+
+  // Orders that were given a receipt number but didn't finish saving, by id,
+  // so a retry reuses the number instead of taking another
+  const issuedOrders = useRef(new Map<string, Order>());
+
+  const handleOrderComplete = useCallback(async (order: Order) => { 
+    let tagged = issuedOrders.current.get(order.id);
+    if (!tagged) {
+      // Cost of goods is fixed per line at the moment of sale
+      costBook.current = advanceCostBook(costBook.current, products, movements, activeBusiness?.valuationMethod);
+      const costed = costOrderLines(order, products, costBook.current);
+      tagged = receiptService.issue({ 
+        ...costed, 
+        businessId: activeBusinessId, 
+        lines: costed.lines.map(l => ({ ...l, businessId: activeBusinessId })) 
+      }, activeBusinessId); 
+      issuedOrders.current.set(order.id, tagged);
     }
-  }, [activeBusinessId, products]);
+    await orderService.save(tagged, activeBusinessId); 
+    const saved = tagged;
+    setOrders(prev => [saved, ...prev.filter(o => o.id !== saved.id)]); 
+    // Stock moves through the ledger; only the per-line deltas are synced. Sales
+    // draw first-expiring lots first and returns go back to the lots they left.
+    // Entry ids come from the order id, so a retry rewrites the same entries.
+    const entries = movementsForOrder(tagged, currentUser);
+    await recordMovements(tagged.refundOf ? returnToLots(entries, tagged, orders, movements) : allocateLots(entries, lots));
+    issuedOrders.current.delete(order.id);
+    return tagged;
+  }, [activeBusinessId, activeBusiness, currentUser, products, movements, lots, orders, recordMovements]);
+
+  // Refunds go through the same path as sales so their negative quantities put stock back
+  const handleRefundComplete = useCallback(async (refund: Order, original: Order, originalStatus: OrderStatus) => {
+    await handleOrderComplete(refund);
+    const updated = await orderService.updateStatus(original, originalStatus);
+    setOrders(prev => prev.map(o => o.id === updated.id ? updated : o));
+  }, [handleOrderComplete]);
+
+  const activeShift = useMemo(() => findOpenShift(shifts, currentUser?.id), [shifts, currentUser]);
+
+  const replaceShift = (s: Shift) => setShifts(prev => [s, ...prev.filter(x => x.id !== s.id)]);
+
+  const handleOpenShift = async (openingFloat: number) => {
+    if (!currentUser || activeShift) return;
+    replaceShift(await shiftService.open(currentUser, openingFloat, activeBusinessId));
+  };
+
+  const handleCashMovement = async (type: 'IN' | 'OUT', amount: number, reason: string) => {
+    if (!activeShift) return;
+    replaceShift(await shiftService.recordMovement(activeShift, { type, amount, reason, userId: currentUser?.id }));
+  };
+
+  const handleCloseShift = async (counted: Partial<Record<PaymentMethod, number>>) => {
+    if (!activeShift) return;
+    replaceShift(await shiftService.close(activeShift, orders, counted));
+  };
+
+  const handleHoldOrder = async (held: HeldOrder) => {
+    const tagged: HeldOrder = { ...held, businessId: activeBusinessId };
+    setHeldOrders(prev => [tagged, ...prev.filter(h => h.id !== tagged.id)]);
+    await heldOrderService.save(tagged);
+  };
+
+  // Leaving the register with an unpaid basket asks whether to park it, unless
+  // the business parks baskets on its own (the POS does that as it unmounts).
+  const openBasket = useRef<OpenBasket | null>(null);
+  const handleBasketChange = useCallback((open: OpenBasket | null) => { openBasket.current = open; }, []);
+  const handleNavigate = (view: ViewState) => {
+    const open = openBasket.current;
+    if (currentView === ViewState.POS && view !== ViewState.POS && open && !activeBusiness?.autoParkBaskets) {
+      if (window.confirm(`Park the open basket (${open.items.length} item${open.items.length === 1 ? '' : 's'}) so you can finish it later?`)) {
+        handleHoldOrder({ ...open, id: `HOLD-${Date.now()}`, timestamp: new Date(), customerName: 'Unsaved basket' })
+          .catch(e => console.error('[POS] Parking the open basket failed', e));
+      }
+    }
+    if (view !== ViewState.POS) openBasket.current = null;
+    setCurrentView(view);
+  };
+
+  const handleReleaseHeld = async (id: string) => {
+    setHeldOrders(prev => prev.filter(h => h.id !== id));
+    await heldOrderService.remove(id);
+  };
 
+  if (dbError) return <LocalDataRecovery error={dbError} />;
   if (showIntro) return <ErrorBoundary><IntroVideo onComplete={() => { sessionStorage.setItem(KEYS.INTRO_SEEN, 'true'); setShowIntro(false); }} /></ErrorBoundary>;
   if (!isSetupComplete) return <Onboarding onComplete={handleOnboardingComplete} onSwitchToLogin={() => setIsSetupComplete(true)} />;
   if (!currentUser) return <Login onLoginSuccess={handleLogin} onBack={() => setIsSetupComplete(false)} businessName={businessName} />;
@@ -371,24 +708,27 @@ const App: React.FC = () => {
       <RoleShell role={currentUser.role}>
         <Layout 
           currentView={currentView} 
-          setView={setCurrentView} 
+          setView={handleNavigate} 
           role={currentUser.role} 
           businessName={businessName} 
           onLogout={() => { setCurrentUser(null); localStorage.removeItem(KEYS.SESSION_USER); }} 
-          products={products} 
-          transactions={transactions} 
+          products={stockedProducts} 
+          orders={orders} 
           currentUser={currentUser} 
           subscriptionPlan={subscriptionPlan}
+          stockAlerts={stockAlerts}
+          onDraftReorders={currentUser.role === UserRole.EMPLOYEE ? undefined : handleDraftReorders}
+          notice={notice}
         >
           {(() => {
             switch (currentView) {
-              case ViewState.DASHBOARD: return <Dashboard transactions={transactions} products={products} businessName={businessName} role={currentUser.role} />;
-              case ViewState.INVENTORY: return <Inventory products={products} setProducts={setProducts} onSaveProduct={handleSaveProduct} onDeleteProduct={handleDeleteProduct} categories={categories} suppliers={suppliers} role={currentUser.role} />;
-              case ViewState.POS: return <POS products={products} operatorName={currentUser.name} onTransactionComplete={handleTransactionComplete} businessDetails={{ name: businessName, address: 'Main Hub', contact: currentUser.email, footerMessage: "Thank you for shopping!" }} />;
-              case ViewState.REPORTING: return <Reporting transactions={transactions} products={products} />;
+              case ViewState.DASHBOARD: return <Dashboard orders={orders} products={stockedProducts} businessName={businessName} role={currentUser.role} />;
+              case ViewState.INVENTORY: return <Inventory products={stockedProducts} setProducts={setProducts} movements={movements} lots={lots} onWriteOffLots={handleWriteOffLots} onStockMovement={handleStockMovement} onSaveProduct={handleSaveProduct} onImportProducts={handleImportProducts} onDeleteProduct={handleDeleteProduct} categories={categories} categoryList={categoryList} onCategoryChange={handleCategoryChange} suppliers={suppliers} role={currentUser.role} onSaveSupplier={handleSaveSupplier} purchaseOrders={purchaseOrders} onSavePurchaseOrder={handleSavePurchaseOrder} onReceivePurchaseOrder={handleReceivePurchaseOrder} transfers={transfers} businesses={businesses} activeBusinessId={activeBusinessId} onSaveTransfer={handleSaveTransfer} onDispatchTransfer={handleDispatchTransfer} onReceiveTransfer={handleReceiveTransfer} stockCounts={stockCounts} onSaveStockCount={handleSaveStockCount} onApproveStockCount={handleApproveStockCount} currentUser={currentUser} businessDetails={receiptBusiness} />;
+              case ViewState.POS: return <POS products={stockedProducts} categories={categoryList} operator={currentUser} onOrderComplete={handleOrderComplete} orders={orders} users={users} onRefundComplete={handleRefundComplete} shift={activeShift} onOpenShift={handleOpenShift} onCashMovement={handleCashMovement} onCloseShift={handleCloseShift} heldOrders={heldOrders} onHoldOrder={handleHoldOrder} onReleaseHeld={handleReleaseHeld} autoPark={activeBusiness?.autoParkBaskets === true} onBasketChange={handleBasketChange} businessDetails={receiptBusiness} />;
+              case ViewState.REPORTING: return <Reporting orders={orders} products={stockedProducts} movements={movements} stockCounts={stockCounts} business={activeBusiness} receiptBusiness={receiptBusiness} />;
               case ViewState.PROMOTER: return <Promoter referrals={referrals} />;
-              case ViewState.SUPPORT: return <Support products={products} transactions={transactions} />;
-              case ViewState.SETTINGS: return <Settings integrations={integrations} setIntegrations={setIntegrations} syncLogs={syncLogs} setSyncLogs={setSyncLogs} users={users} setUsers={setUsers} subscriptionPlan={subscriptionPlan} businesses={businesses} activeBusinessId={activeBusinessId} onSwitchBusiness={setActiveBusinessId} setProducts={setProducts} setTransactions={setTransactions} />;
+              case ViewState.SUPPORT: return <Support products={stockedProducts} orders={orders} />;
+              case ViewState.SETTINGS: return <Settings integrations={integrations} setIntegrations={setIntegrations} syncLogs={syncLogs} setSyncLogs={setSyncLogs} users={users} setUsers={setUsers} subscriptionPlan={subscriptionPlan} businesses={businesses} activeBusinessId={activeBusinessId} onSwitchBusiness={setActiveBusinessId} onSaveBusiness={handleSaveBusiness} setProducts={setProducts} setOrders={setOrders} onConflictResolved={handleConflictResolved} />;
               default: return null;
             }
           })()}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Boxes } from 'lucide-react';
+import { BundleComponent, Product } from '../types';
+import { formatCurrency } from '../constants';
+import { componentsValue, isBundle } from '../services/bundleService';
+
+interface BundleEditorProps {
+  item: Partial<Product>;
+  products: Product[];
+  onChange: (patch: Partial<Product>) => void;
+}
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const BundleEditor: React.FC<BundleEditorProps> = ({ item, products, onChange }) => {
+  const [pickProduct, setPickProduct] = useState('');
+  const [pickVariant, setPickVariant] = useState('');
+  const components = item.components || [];
+  const choices = products.filter(p => p.id !== item.id && !isBundle(p));
+  const picked = choices.find(p => p.id === pickProduct);
+
+  const setComponent = (idx: number, patch: Partial<BundleComponent>) =>
+    onChange({ components: components.map((c, i) => i === idx ? { ...c, ...patch } : c) });
+
+  const addComponent = () => {
+    if (!picked || (picked.variants?.length && !pickVariant)) return;
+    onChange({ components: [...components, { productId: picked.id, variantId: pickVariant || undefined, quantity: 1 }] });
+    setPickProduct('');
+    setPickVariant('');
+  };
+
+  const nameOf = (c: BundleComponent) => {
+    const p = products.find(x => x.id === c.productId);
+    const v = p?.variants?.find(x => x.id === c.variantId);
+    return v ? `${p!.name} (${v.name})` : p?.name || 'Removed item';
+  };
+
+  const value = componentsValue(components, products);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black text-slate-400 uppercase ml-1 flex items-center gap-2"><Boxes size={14}/> Bundle / Kit contents</label>
+        {components.length > 0 && <span className="text-[10px] font-bold text-slate-400">Worth {formatCurrency(value)} sold separately</span>}
+      </div>
+      {components.map((c, idx) => (
+        <div key={`${c.productId}:${c.variantId || ''}`} className="flex gap-2 items-center">
+          <span className="flex-1 text-xs font-bold text-slate-700">{nameOf(c)}</span>
+          <span className="text-[9px] font-black text-slate-400 uppercase">Qty</span>
+          <input type="number" min={1} value={c.quantity} onChange={e => setComponent(idx, { quantity: Math.max(1, parseInt(e.target.value) || 1) })} className={`${inputCls} w-16`} />
+          <button onClick={() => onChange({ components: components.filter((_, i) => i !== idx) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <select value={pickProduct} onChange={e => { setPickProduct(e.target.value); setPickVariant(''); }} className={inputCls}>
+          <option value="">Add an item to the bundle…</option>
+          {choices.map(p => <option key={p.id} value={p.id}>{p.name} · {p.sku}</option>)}
+        </select>
+        {picked?.variants?.length ? (
+          <select value={pickVariant} onChange={e => setPickVariant(e.target.value)} className={`${inputCls} max-w-[10rem]`}>
+            <option value="">Variant</option>
+            {picked.variants.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+          </select>
+        ) : null}
+        <button onClick={addComponent} disabled={!picked} className="px-3 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl disabled:opacity-30"><Plus size={14}/></button>
+      </div>
+      {components.length > 0 && <p className="text-[10px] text-slate-400 ml-1">Sells as one item at its own price. Stock comes out of these items and availability follows whichever runs out first.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+
+import React from 'react';
+import { Tag, Utensils, Coffee, ShoppingBag, Pill, Sandwich, Cookie, Beer, Shirt, Wrench, Sparkles, Baby, Apple, IceCream } from 'lucide-react';
+
+// Icons a category can use on its POS chip, keyed by the name stored on Category.icon
+export const CATEGORY_ICONS: Record<string, React.FC<{ size?: number; className?: string }>> = {
+  tag: Tag,
+  meal: Utensils,
+  coffee: Coffee,
+  bag: ShoppingBag,
+  medicine: Pill,
+  snack: Sandwich,
+  sweets: Cookie,
+  drinks: Beer,
+  produce: Apple,
+  frozen: IceCream,
+  apparel: Shirt,
+  hardware: Wrench,
+  beauty: Sparkles,
+  baby: Baby
+};
+
+export const CategoryIcon: React.FC<{ icon?: string; size?: number; className?: string }> = ({ icon, size = 12, className }) => {
+  const Icon = icon ? CATEGORY_ICONS[icon] : undefined;
+  return Icon ? <Icon size={size} className={className} /> : null;
+};
@@ -0,0 +1,158 @@
+
+import React, { useState, useMemo } from 'react';
+import { FolderTree, Plus, ChevronUp, ChevronDown, Edit3, Merge, Trash2, Check } from 'lucide-react';
+import { Category, Product } from '../types';
+import { CATEGORY_COLORS } from '../constants';
+import {
+  CategoryChange, categoryTree, deleteCategory, mergeCategory, moveCategory, newCategory, subtreeIds, updateCategory
+} from '../services/categoryService';
+import { CATEGORY_ICONS, CategoryIcon } from './CategoryIcon';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  products: Product[];
+  onChange: (change: CategoryChange) => Promise<void>;
+}
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, products, onChange }) => {
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const tree = useMemo(() => categoryTree(categories), [categories]);
+  const itemCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    products.forEach(p => { counts[p.category] = (counts[p.category] || 0) + 1; });
+    return counts;
+  }, [products]);
+
+  const run = async (build: () => CategoryChange, then?: () => void) => {
+    setBusy(true);
+    try {
+      await onChange(build());
+      then?.();
+    } catch (e: any) {
+      alert(e.message || 'That change could not be saved. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const before = categories.find(c => c.id === editing.id);
+    const renamed = before && before.name !== editing.name.trim() ? itemCounts[before.name] || 0 : 0;
+    if (renamed > 0 && !window.confirm(`Rename ${before!.name} to ${editing.name.trim()}? ${renamed} item(s) will move with it.`)) return;
+    run(() => updateCategory(before, editing, categories, products), () => setEditing(null));
+  };
+
+  const handleMerge = () => {
+    const target = categories.find(c => c.id === mergeInto);
+    if (!merging || !target) return alert('Choose the category to merge into.');
+    if (!window.confirm(`Merge ${merging.name} into ${target.name}? ${itemCounts[merging.name] || 0} item(s) will move and ${merging.name} will be removed.`)) return;
+    run(() => mergeCategory(merging, target, categories, products), () => { setMerging(null); setMergeInto(''); });
+  };
+
+  const handleDelete = (c: Category) => {
+    if (!window.confirm(`Delete ${c.name}?`)) return;
+    run(() => deleteCategory(c, categories, products));
+  };
+
+  // A category can't move under itself or anything beneath it
+  const parentOptions = editing ? tree.filter(n => !subtreeIds(categories, editing.id).has(n.category.id)) : [];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+      <div className="p-8 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2"><FolderTree size={20}/> Categories</h3>
+          <p className="text-[10px] font-black uppercase text-slate-400">Order, nesting and colors here are what the POS shows</p>
+        </div>
+        <button onClick={() => setEditing(newCategory('', categories))} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-1 shadow-lg shadow-indigo-100"><Plus size={12}/> Add Category</button>
+      </div>
+      <div className="divide-y divide-slate-50">
+        {tree.map(({ category: c, depth }) => {
+          const palette = CATEGORY_COLORS[c.color || 'indigo'] || CATEGORY_COLORS.indigo;
+          return (
+            <div key={c.id} className="px-8 py-4 flex items-center gap-4 hover:bg-slate-50/50">
+              <div style={{ paddingLeft: depth * 28 }} className="flex-1 flex items-center gap-3">
+                <span className={`px-4 py-1.5 rounded-full border text-[10px] font-black uppercase flex items-center gap-1 ${palette.chip}`}>
+                  <CategoryIcon icon={c.icon} /> {c.name}
+                </span>
+                <span className="text-[10px] font-bold text-slate-400">{itemCounts[c.name] || 0} items</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => run(() => moveCategory(c, -1, categories))} disabled={busy} title="Move up" className="p-2 text-slate-300 hover:text-indigo-600"><ChevronUp size={16}/></button>
+                <button onClick={() => run(() => moveCategory(c, 1, categories))} disabled={busy} title="Move down" className="p-2 text-slate-300 hover:text-indigo-600"><ChevronDown size={16}/></button>
+                <button onClick={() => setEditing({ ...c })} title="Edit" className="p-2 text-slate-300 hover:text-indigo-600"><Edit3 size={16}/></button>
+                <button onClick={() => { setMerging(c); setMergeInto(''); }} title="Merge into another" className="p-2 text-slate-300 hover:text-amber-600"><Merge size={16}/></button>
+                <button onClick={() => handleDelete(c)} disabled={busy} title="Delete" className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={16}/></button>
+              </div>
+            </div>
+          );
+        })}
+        {tree.length === 0 && <p className="p-16 text-center text-slate-300 italic">No categories yet.</p>}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setEditing(null)} />
+          <div className="relative bg-white rounded-[2.5rem] p-10 max-w-md w-full space-y-4 shadow-3xl animate-in zoom-in-95">
+            <h3 className="text-xl font-black text-slate-900">{categories.some(c => c.id === editing.id) ? 'Edit Category' : 'New Category'}</h3>
+            <input value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={inputCls} placeholder="Category name" />
+            <select value={editing.parentId || ''} onChange={e => setEditing({ ...editing, parentId: e.target.value || undefined })} className={`${inputCls} cursor-pointer`}>
+              <option value="">Top level</option>
+              {parentOptions.map(n => <option key={n.category.id} value={n.category.id}>{'— '.repeat(n.depth)}{n.category.name}</option>)}
+            </select>
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase ml-1">Color</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(CATEGORY_COLORS).map(([key, palette]) => (
+                  <button key={key} onClick={() => setEditing({ ...editing, color: key })} className={`w-9 h-9 rounded-xl border flex items-center justify-center ${palette.active}`}>
+                    {(editing.color || 'indigo') === key && <Check size={14}/>}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase ml-1">Icon</p>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => setEditing({ ...editing, icon: undefined })} className={`px-3 h-9 rounded-xl border text-[10px] font-black uppercase ${!editing.icon ? 'border-indigo-400 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400'}`}>None</button>
+                {Object.keys(CATEGORY_ICONS).map(key => (
+                  <button key={key} onClick={() => setEditing({ ...editing, icon: key })} title={key} className={`w-9 h-9 rounded-xl border flex items-center justify-center ${editing.icon === key ? 'border-indigo-400 text-indigo-600 bg-indigo-50' : 'border-slate-200 text-slate-400'}`}>
+                    <CategoryIcon icon={key} size={16} />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <button onClick={() => setEditing(null)} className="flex-1 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase">Cancel</button>
+              <button onClick={handleSave} disabled={busy} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase shadow-xl shadow-indigo-100 disabled:opacity-30">Save Category</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {merging && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setMerging(null)} />
+          <div className="relative bg-white rounded-[2.5rem] p-10 max-w-md w-full space-y-4 shadow-3xl animate-in zoom-in-95">
+            <h3 className="text-xl font-black text-slate-900">Merge {merging.name}</h3>
+            <p className="text-sm text-slate-500">Its items and subcategories move to the category you pick, then {merging.name} is removed.</p>
+            <select value={mergeInto} onChange={e => setMergeInto(e.target.value)} className={`${inputCls} cursor-pointer`}>
+              <option value="">Merge into…</option>
+              {tree.filter(n => !subtreeIds(categories, merging.id).has(n.category.id)).map(n => <option key={n.category.id} value={n.category.id}>{'— '.repeat(n.depth)}{n.category.name}</option>)}
+            </select>
+            <div className="flex gap-2 pt-2">
+              <button onClick={() => setMerging(null)} className="flex-1 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase">Cancel</button>
+              <button onClick={handleMerge} disabled={busy} className="flex-[2] py-4 bg-amber-500 text-white rounded-2xl font-black text-[10px] uppercase shadow-xl shadow-amber-100 disabled:opacity-30">Merge</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,22 +2,24 @@
 import React, { useMemo, useState } from 'react';
 import { DollarSign, Activity, Target, ShieldAlert, Sparkles, Loader2, BrainCircuit, X, Receipt, FileText, Search } from 'lucide-react';
 import { formatCurrency } from '../constants';
-import { Transaction, Product, UserRole } from '../types';
+import { Order, Product, UserRole } from '../types';
 import { performDeepAnalysis } from '../services/geminiService';
+import { countsTowardSales, isSale } from '../services/orderService';
+import { isLowStock } from '../services/reorderService';
 import { StatCard } from './StatCard';
 
 const aistudio = (window as any).aistudio;
 
-export const Dashboard: React.FC<{ transactions: Transaction[], products: Product[], businessName: string, role: UserRole }> = ({ transactions, products, businessName, role }) => {
+export const Dashboard: React.FC<{ orders: Order[], products: Product[], businessName: string, role: UserRole }> = ({ orders, products, businessName, role }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
   const [showModal, setShowModal] = useState(false);
 
   const todaySales = useMemo(() => {
     const today = new Date().toDateString();
-    return transactions.reduce((acc, curr) => 
-      curr.status !== 'Refunded' && new Date(curr.date).toDateString() === today ? acc + curr.amount : acc, 0);
-  }, [transactions]);
+    return orders.reduce((acc, curr) => 
+      countsTowardSales(curr) && new Date(curr.date).toDateString() === today ? acc + curr.total : acc, 0);
+  }, [orders]);
 
   const handleHealthCheck = async () => {
     setIsAnalyzing(true);
@@ -26,7 +28,7 @@ export const Dashboard: React.FC<{ transactions: Transaction[], products: Produc
         const hasKey = await aistudio.hasSelectedApiKey();
         if (!hasKey) await aistudio.openSelectKey();
       }
-      const result = await performDeepAnalysis(products, transactions, businessName);
+      const result = await performDeepAnalysis(products, orders, businessName);
       setAnalysisResult(result);
       setShowModal(true);
     } catch (err) {
@@ -53,9 +55,9 @@ export const Dashboard: React.FC<{ transactions: Transaction[], products: Produc
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard title="Today's Earnings" value={formatCurrency(todaySales)} icon={<DollarSign size={20}/>} trend="up" trendValue="12%" colorTheme="indigo" />
-        <StatCard title="All Orders" value={transactions.length.toString()} icon={<Activity size={20}/>} colorTheme="blue" />
+        <StatCard title="All Orders" value={orders.filter(isSale).length.toString()} icon={<Activity size={20}/>} colorTheme="blue" />
         <StatCard title="Efficiency Score" value="98.2%" icon={<Target size={20}/>} trend="up" trendValue="2%" colorTheme="emerald" />
-        <StatCard title="Restock Alerts" value={products.filter(p => p.stock < 10).length.toString()} icon={<ShieldAlert size={20}/>} trend="down" trendValue="4" colorTheme="rose" />
+        <StatCard title="Restock Alerts" value={products.filter(isLowStock).length.toString()} icon={<ShieldAlert size={20}/>} trend="down" trendValue="4" colorTheme="rose" />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -63,10 +65,10 @@ export const Dashboard: React.FC<{ transactions: Transaction[], products: Produc
            <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50"><h3 className="text-lg font-bold text-slate-900">Recent Sales</h3></div>
            <div className="overflow-x-auto">
               <table className="w-full text-left">
-                  <thead className="text-[10px] font-black text-slate-400 uppercase border-b border-slate-100"><tr><th className="p-4 pl-6">Order No.</th><th className="p-4">Time</th><th className="p-4">Item</th><th className="p-4 text-right pr-6">Price</th></tr></thead>
+                  <thead className="text-[10px] font-black text-slate-400 uppercase border-b border-slate-100"><tr><th className="p-4 pl-6">Order No.</th><th className="p-4">Time</th><th className="p-4">Items</th><th className="p-4 text-right pr-6">Total</th></tr></thead>
                   <tbody className="text-sm divide-y divide-slate-50">
-                      {transactions.slice(0, 8).map(item => (
-                         <tr key={item.id} className="hover:bg-slate-50/50"><td className="p-4 pl-6 font-mono text-xs font-bold text-slate-500">{item.id.slice(0, 8)}</td><td className="p-4 text-slate-600">{new Date(item.date).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}</td><td className="p-4 text-slate-900 font-medium">{item.product}</td><td className="p-4 text-right pr-6 font-bold text-slate-900">{formatCurrency(item.amount)}</td></tr>
+                      {orders.slice(0, 8).map(order => (
+                         <tr key={order.id} className="hover:bg-slate-50/50"><td className="p-4 pl-6 font-mono text-xs font-bold text-slate-500">{order.id.slice(-8)}</td><td className="p-4 text-slate-600">{new Date(order.date).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}</td><td className="p-4 text-slate-900 font-medium">{order.lines.map(l => `${l.quantity}× ${l.productName}`).join(', ')}</td><td className="p-4 text-right pr-6 font-bold text-slate-900">{formatCurrency(order.total)}</td></tr>
                       ))}
                   </tbody>
               </table>
@@ -76,12 +78,12 @@ export const Dashboard: React.FC<{ transactions: Transaction[], products: Produc
         <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm flex flex-col">
            <h3 className="text-lg font-bold text-slate-900 mb-6 flex items-center gap-2"><div className="w-1.5 h-6 bg-indigo-500 rounded-full"></div>Live Activity</h3>
            <div className="space-y-6 flex-1 overflow-y-auto no-scrollbar">
-             {transactions.slice(0, 8).map((item, idx) => (
+             {orders.slice(0, 8).map((item, idx) => (
                <div key={idx} className="flex gap-4 group">
                    <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center shrink-0"><Receipt size={14} className="text-slate-400" /></div>
                    <div className="flex-1 min-w-0 border-b border-slate-50 pb-4 last:border-0">
-                      <div className="flex justify-between items-start mb-0.5"><h4 className="text-slate-900 text-xs font-bold truncate">Item Sold</h4><span className="text-[10px] text-slate-400 font-bold">{new Date(item.date).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}</span></div>
-                      <p className="text-slate-500 text-[10px] truncate italic">"{item.product}"</p>
+                      <div className="flex justify-between items-start mb-0.5"><h4 className="text-slate-900 text-xs font-bold truncate">{isSale(item) ? 'Order Completed' : `${item.kind} Issued`} · {formatCurrency(item.total)}</h4><span className="text-[10px] text-slate-400 font-bold">{new Date(item.date).toLocaleTimeString([], { hour: '2-digit', minute:'2-digit' })}</span></div>
+                      <p className="text-slate-500 text-[10px] truncate italic">"{item.lines.map(l => l.productName).join(', ')}"</p>
                    </div>
                </div>
              ))}
@@ -0,0 +1,118 @@
+
+import React, { useState, useMemo } from 'react';
+import { CalendarClock, Trash2, Loader2 } from 'lucide-react';
+import { Product, StockLot } from '../types';
+import { formatCurrency, EXPIRY_WARNING_DAYS } from '../constants';
+import { expiringLots } from '../services/lotService';
+
+interface ExpiryWatchProps {
+  lots: StockLot[];
+  products: Product[];
+  canWriteOff: boolean;
+  onWriteOff: (lots: StockLot[]) => Promise<void>;
+}
+
+const WINDOWS = [7, EXPIRY_WARNING_DAYS, 60, 90].filter((d, i, all) => all.indexOf(d) === i).sort((a, b) => a - b);
+
+const expiryBadge = (daysLeft: number) => {
+  if (daysLeft < 0) return { label: `Expired ${-daysLeft}d ago`, cls: 'bg-rose-50 text-rose-600 border-rose-100' };
+  if (daysLeft === 0) return { label: 'Expires today', cls: 'bg-rose-50 text-rose-600 border-rose-100' };
+  if (daysLeft <= 7) return { label: `${daysLeft}d left`, cls: 'bg-amber-50 text-amber-600 border-amber-100' };
+  return { label: `${daysLeft}d left`, cls: 'bg-slate-50 text-slate-500 border-slate-100' };
+};
+
+export const ExpiryWatch: React.FC<ExpiryWatchProps> = ({ lots, products, canWriteOff, onWriteOff }) => {
+  const [withinDays, setWithinDays] = useState(EXPIRY_WARNING_DAYS);
+  const [busy, setBusy] = useState(false);
+
+  const rows = useMemo(() => expiringLots(lots, products, withinDays), [lots, products, withinDays]);
+  const expired = rows.filter(r => r.daysLeft < 0);
+  const atRisk = rows.reduce((s, r) => s + r.value, 0);
+
+  const variantName = (r: typeof rows[number]) => r.product.variants?.find(v => v.id === r.variantId)?.name;
+
+  const writeOff = async (selected: StockLot[], prompt: string) => {
+    if (selected.length === 0 || !window.confirm(prompt)) return;
+    setBusy(true);
+    try {
+      await onWriteOff(selected);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+      <div className="p-8 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2"><CalendarClock size={20}/> Expiring Soon</h3>
+          <p className="text-[10px] font-black uppercase text-slate-400">{rows.length} lot(s) · {formatCurrency(atRisk)} at cost</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-50 border border-slate-200 p-1 rounded-xl">
+            {WINDOWS.map(d => (
+              <button key={d} onClick={() => setWithinDays(d)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase transition-all ${withinDays === d ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{d} days</button>
+            ))}
+          </div>
+          {canWriteOff && expired.length > 0 && (
+            <button
+              onClick={() => writeOff(expired, `Write off ${expired.length} expired lot(s) worth ${formatCurrency(expired.reduce((s, r) => s + r.value, 0))}? This removes them from stock.`)}
+              disabled={busy}
+              className="px-4 py-2 bg-rose-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-1 shadow-lg shadow-rose-100 disabled:opacity-30"
+            >
+              {busy ? <Loader2 size={12} className="animate-spin"/> : <Trash2 size={12}/>} Write Off All Expired
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+            <tr>
+              <th className="px-8 py-4">Item</th>
+              <th className="px-8 py-4">Lot</th>
+              <th className="px-8 py-4">Expires</th>
+              <th className="px-8 py-4 text-right">On Hand</th>
+              <th className="px-8 py-4 text-right">Cost Value</th>
+              {canWriteOff && <th className="px-8 py-4 text-right"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(r => {
+              const badge = expiryBadge(r.daysLeft);
+              return (
+                <tr key={r.key}>
+                  <td className="px-8 py-4">
+                    <p className="font-bold text-slate-900">{r.product.name}{variantName(r) && <span className="text-indigo-400"> · {variantName(r)}</span>}</p>
+                    <p className="font-mono text-[10px] text-slate-400">{r.product.sku}</p>
+                  </td>
+                  <td className="px-8 py-4 font-mono text-xs text-slate-600">{r.lotNumber}</td>
+                  <td className="px-8 py-4">
+                    <p className="text-sm font-bold text-slate-700">{r.expiresAt}</p>
+                    <span className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase border ${badge.cls}`}>{badge.label}</span>
+                  </td>
+                  <td className="px-8 py-4 text-right font-black text-slate-900">{r.quantity}</td>
+                  <td className="px-8 py-4 text-right font-bold text-slate-600">{formatCurrency(r.value)}</td>
+                  {canWriteOff && (
+                    <td className="px-8 py-4 text-right">
+                      <button
+                        onClick={() => writeOff([r], `Write off ${r.quantity} unit(s) of ${r.product.name} from lot ${r.lotNumber}?`)}
+                        disabled={busy}
+                        className="px-3 py-2 text-[10px] font-black uppercase text-rose-600 hover:bg-rose-50 rounded-xl transition-all disabled:opacity-30"
+                      >
+                        Write Off
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="p-16 text-center text-slate-300 italic">Nothing expires within {withinDays} days.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,26 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Package, Search, Plus, Sparkles, X, Loader2, Edit3, Trash2, Box, ImageIcon, Zap, BrainCircuit, AlertCircle } from 'lucide-react';
-import { Product, Supplier, UserRole } from '../types';
-import { formatCurrency } from '../constants';
+import { Package, Search, Plus, Sparkles, X, Loader2, Edit3, Trash2, Box, ImageIcon, Zap, BrainCircuit, AlertCircle, History, Upload, Download, Boxes } from 'lucide-react';
+import { Business, Category, Product, PurchaseOrder, StockCount, StockLot, StockMovement, StockMovementType, StockTransfer, Supplier, SystemUser, TaxType, UserRole } from '../types';
+import { formatCurrency, DEFAULT_REORDER_POINT } from '../constants';
 import { enhanceProductDetails, generateProductImage, searchProductImage } from '../services/geminiService';
+import { attachWedgeScanner, detectSymbology, findByCode } from '../services/barcodeService';
+import { hasVariants, validateProductOptions, variantStockTotal } from '../services/variantService';
+import { ReceiptBusiness } from '../services/printService';
+import { ReceiveEntry } from '../services/purchaseOrderService';
+import { isLowStock } from '../services/reorderService';
+import { exportProducts } from '../services/importService';
+import { CategoryChange, categoryTree } from '../services/categoryService';
+import { isBundle, validateBundle } from '../services/bundleService';
+import { VariantEditor } from './VariantEditor';
+import { BundleEditor } from './BundleEditor';
+import { StockHistory } from './StockHistory';
+import { Purchasing } from './Purchasing';
+import { ProductImport } from './ProductImport';
+import { ExpiryWatch } from './ExpiryWatch';
+import { StockCounts } from './StockCounts';
+import { Transfers } from './Transfers';
+import { CategoryManager } from './CategoryManager';
 
 const aistudio = (window as any).aistudio;
 
@@ -11,22 +28,49 @@ interface InventoryProps {
   products: Product[];
   setProducts: React.Dispatch<React.SetStateAction<Product[]>>;
   categories: string[];
+  categoryList?: Category[];
+  onCategoryChange?: (change: CategoryChange) => Promise<void>;
   suppliers: Supplier[];
   role?: UserRole;
   onSaveProduct?: (p: Product) => Promise<void>;
+  onImportProducts?: (items: Product[]) => Promise<void>;
   onDeleteProduct?: (p: Product) => Promise<void>;
+  movements?: StockMovement[];
+  lots?: StockLot[];
+  onWriteOffLots?: (lots: StockLot[]) => Promise<void>;
+  onStockMovement?: (productId: string, type: StockMovementType, quantity: number, reason: string, variantId?: string, extra?: Partial<StockMovement>) => Promise<void>;
+  purchaseOrders?: PurchaseOrder[];
+  onSaveSupplier?: (s: Supplier) => Promise<void>;
+  onSavePurchaseOrder?: (po: PurchaseOrder) => Promise<void>;
+  onReceivePurchaseOrder?: (po: PurchaseOrder, entries: Record<string, ReceiveEntry>) => Promise<void>;
+  transfers?: StockTransfer[];
+  businesses?: Business[];
+  activeBusinessId?: string;
+  onSaveTransfer?: (t: StockTransfer) => Promise<void>;
+  onDispatchTransfer?: (t: StockTransfer) => Promise<void>;
+  onReceiveTransfer?: (t: StockTransfer, received: Record<string, number>) => Promise<void>;
+  stockCounts?: StockCount[];
+  onSaveStockCount?: (count: StockCount) => Promise<void>;
+  onApproveStockCount?: (count: StockCount) => Promise<void>;
+  currentUser?: SystemUser | null;
+  businessDetails?: ReceiptBusiness;
 }
 
 export const Inventory: React.FC<InventoryProps> = ({ 
-  products, setProducts, categories, suppliers, role, onSaveProduct, onDeleteProduct 
+  products, setProducts, categories, categoryList = [], onCategoryChange, suppliers, role, onSaveProduct, onImportProducts, onDeleteProduct, movements = [], lots = [], onWriteOffLots, onStockMovement,
+  purchaseOrders = [], onSaveSupplier, onSavePurchaseOrder, onReceivePurchaseOrder,
+  transfers = [], businesses = [], activeBusinessId = '', onSaveTransfer, onDispatchTransfer, onReceiveTransfer,
+  stockCounts = [], onSaveStockCount, onApproveStockCount, currentUser = null, businessDetails
 }) => {
-  const [activeTab, setActiveTab] = useState<'items' | 'suppliers'>('items');
+  const [activeTab, setActiveTab] = useState<'items' | 'expiry' | 'counts' | 'transfers' | 'categories' | 'suppliers'>('items');
   const [search, setSearch] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [modalOpen, setModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<Partial<Product> | null>(null);
   const [isBusy, setIsBusy] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<Product | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Debounce logic: Delay updating the actual filter term
   useEffect(() => {
@@ -44,22 +88,25 @@ export const Inventory: React.FC<InventoryProps> = ({
 
     return products.filter(p => 
       p.name.toLowerCase().includes(term) || 
-      p.sku.toLowerCase().includes(term)
+      p.sku.toLowerCase().includes(term) ||
+      !!p.barcode?.includes(term)
     );
   }, [debouncedSearch, products]);
   
   const isEmployee = role === UserRole.EMPLOYEE;
 
-  const handleOpenModal = (item?: Product) => {
+  const handleOpenModal = (item?: Product, barcode?: string) => {
     if (item) {
       setEditingItem({ ...item });
     } else {
       setEditingItem({
         name: '',
         sku: `ITEM-${Math.floor(1000 + Math.random() * 9000)}`,
+        barcode: barcode || '',
         category: categories[0] || 'General',
         price: 0,
         stock: 0,
+        taxType: 'VAT',
         description: '',
         imageUrl: ''
       });
@@ -67,6 +114,20 @@ export const Inventory: React.FC<InventoryProps> = ({
     setModalOpen(true);
   };
 
+  // A scan finds the item; a code we don't know yet starts a new item with it
+  useEffect(() => {
+    if (modalOpen || activeTab !== 'items') return;
+    return attachWedgeScanner(code => {
+      const match = findByCode(products, code);
+      if (match) {
+        setSearch(match.product.sku);
+        if (!isEmployee) handleOpenModal(match.product);
+      } else if (!isEmployee) {
+        handleOpenModal(undefined, code);
+      }
+    });
+  }, [modalOpen, activeTab, products, isEmployee]);
+
   const handleAutoFill = async () => {
     if (!editingItem?.name) {
       alert("Please enter a name for the item first.");
@@ -116,10 +177,38 @@ export const Inventory: React.FC<InventoryProps> = ({
       alert("Please make sure the item has a name and a category group.");
       return;
     }
+    const barcode = editingItem.barcode?.trim();
+    if (barcode) {
+      if (!detectSymbology(barcode)) {
+        alert("That barcode doesn't look right. Please check the digits printed on the pack.");
+        return;
+      }
+      const owner = findByCode(products.filter(p => p.id !== editingItem.id), barcode);
+      if (owner && (owner.variant?.barcode || owner.product.barcode) === barcode) {
+        alert(`This barcode is already used by ${owner.product.name}.`);
+        return;
+      }
+    }
+    const optionError = validateProductOptions(editingItem) || validateBundle(editingItem, products);
+    if (optionError) {
+      alert(optionError);
+      return;
+    }
+    const variants = editingItem.variants?.length ? editingItem.variants : undefined;
+    const bundle = isBundle(editingItem);
     
     if (onSaveProduct) {
       const finalItem = {
         ...editingItem,
+        barcode: barcode || undefined,
+        variants,
+        optionGroups: variants ? editingItem.optionGroups : undefined,
+        // Variant items sell "from" their cheapest option and stock is the sum of all options
+        price: variants ? Math.min(...variants.map(v => v.price)) : editingItem.price,
+        // Bundles hold no stock of their own; it comes from their components
+        stock: bundle ? 0 : variants ? variantStockTotal(variants) : editingItem.stock,
+        components: bundle ? editingItem.components : undefined,
+        tracksExpiry: bundle ? undefined : editingItem.tracksExpiry,
         id: editingItem.id || `ID-${Date.now()}`
       } as Product;
       await onSaveProduct(finalItem);
@@ -141,11 +230,15 @@ export const Inventory: React.FC<InventoryProps> = ({
         <div>
            <div className="flex bg-white border border-slate-200 p-1 rounded-2xl shadow-sm w-fit mb-4">
               <button onClick={() => setActiveTab('items')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'items' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>Items & Stock</button>
+              <button onClick={() => setActiveTab('expiry')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'expiry' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>Expiring Soon</button>
+              <button onClick={() => setActiveTab('counts')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'counts' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>Stock Counts</button>
+              {businesses.length > 1 && <button onClick={() => setActiveTab('transfers')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'transfers' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>Transfers</button>}
+              {!isEmployee && <button onClick={() => setActiveTab('categories')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'categories' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>Categories</button>}
               {!isEmployee && <button onClick={() => setActiveTab('suppliers')} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${activeTab === 'suppliers' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>My Suppliers</button>}
            </div>
-           <h2 className="text-4xl font-black text-slate-900 tracking-tight">Shop Items</h2>
+           <h2 className="text-4xl font-black text-slate-900 tracking-tight">{activeTab === 'suppliers' ? 'Suppliers & Purchasing' : activeTab === 'expiry' ? 'Lots & Expiry' : activeTab === 'counts' ? 'Stock Counts' : activeTab === 'transfers' ? 'Branch Transfers' : activeTab === 'categories' ? 'Categories' : 'Shop Items'}</h2>
         </div>
-        <div className="flex items-center gap-3 w-full lg:w-auto">
+        <div className={`flex items-center gap-3 w-full lg:w-auto ${activeTab !== 'items' ? 'hidden' : ''}`}>
           <div className="relative flex-1 lg:w-80 group">
             <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-600 transition-colors" size={20} />
             <input 
@@ -155,6 +248,15 @@ export const Inventory: React.FC<InventoryProps> = ({
               className="w-full bg-white border border-slate-200 rounded-[1.5rem] pl-14 pr-5 py-4 text-sm font-semibold outline-none focus:ring-4 focus:ring-indigo-50 transition-all shadow-sm" 
             />
           </div>
+          {!isEmployee && (
+            <div className="flex bg-white border border-slate-200 rounded-[1.5rem] shadow-sm overflow-hidden">
+              {onImportProducts && (
+                <button onClick={() => setImportOpen(true)} title="Import from CSV or Excel" className="px-4 py-4 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 flex items-center gap-1 font-black uppercase text-[10px] transition-all"><Upload size={16}/> Import</button>
+              )}
+              <button onClick={() => exportProducts(products, 'csv')} title="Export as CSV" className="px-4 py-4 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 border-l border-slate-100 flex items-center gap-1 font-black uppercase text-[10px] transition-all"><Download size={16}/> CSV</button>
+              <button onClick={() => exportProducts(products, 'xlsx')} title="Export as Excel" className="px-4 py-4 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 border-l border-slate-100 flex items-center gap-1 font-black uppercase text-[10px] transition-all"><Download size={16}/> XLSX</button>
+            </div>
+          )}
           {!isEmployee && (
             <button onClick={() => handleOpenModal()} className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-4 rounded-[1.5rem] font-black shadow-xl flex items-center gap-2 uppercase tracking-widest text-[10px] transition-all active:scale-95">
               <Plus size={18} /> New Item
@@ -163,60 +265,113 @@ export const Inventory: React.FC<InventoryProps> = ({
         </div>
       </div>
 
-      <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left">
-            <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
-              <tr>
-                <th className="p-8">Item Details</th>
-                <th className="p-8">Group</th>
-                <th className="p-8 text-right">Price</th>
-                <th className="p-8 text-center">Stock</th>
-                {!isEmployee && <th className="p-8 text-right pr-12">Action</th>}
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-50">
-              {filtered.map(p => (
-                <tr key={p.id} className="hover:bg-indigo-50/40 group transition-all">
-                  <td className="p-8">
-                    <div className="flex items-center gap-5 min-w-[240px]">
-                      <div className="w-16 h-16 rounded-xl bg-slate-100 border border-slate-200 flex items-center justify-center overflow-hidden shrink-0 shadow-inner">
-                        {p.imageUrl ? <img src={p.imageUrl} className="w-full h-full object-cover" alt={p.name} /> : <Package size={24} className="text-slate-300" />}
-                      </div>
-                      <div>
-                        <h4 className="font-black text-slate-900 text-base">{p.name}</h4>
-                        <p className="text-[11px] font-mono text-slate-400 mt-1">{p.sku}</p>
+      {activeTab === 'suppliers' ? (
+        <Purchasing
+          suppliers={suppliers}
+          products={products}
+          purchaseOrders={purchaseOrders}
+          business={businessDetails || { name: 'My Shop', address: '', footerMessage: '' }}
+          onSaveSupplier={onSaveSupplier!}
+          onSavePurchaseOrder={onSavePurchaseOrder!}
+          onReceivePurchaseOrder={onReceivePurchaseOrder!}
+        />
+      ) : activeTab === 'categories' ? (
+        <CategoryManager
+          categories={categoryList}
+          products={products}
+          onChange={onCategoryChange!}
+        />
+      ) : activeTab === 'transfers' ? (
+        <Transfers
+          transfers={transfers}
+          products={products}
+          businesses={businesses}
+          activeBusinessId={activeBusinessId}
+          canManage={!isEmployee}
+          onSave={onSaveTransfer!}
+          onDispatch={onDispatchTransfer!}
+          onReceive={onReceiveTransfer!}
+        />
+      ) : activeTab === 'counts' ? (
+        <StockCounts
+          counts={stockCounts}
+          products={products}
+          categories={categories}
+          currentUser={currentUser}
+          isAdmin={!isEmployee}
+          onSave={onSaveStockCount!}
+          onApprove={onApproveStockCount!}
+        />
+      ) : activeTab === 'expiry' ? (
+        <ExpiryWatch
+          lots={lots}
+          products={products}
+          canWriteOff={!isEmployee && !!onWriteOffLots}
+          onWriteOff={onWriteOffLots!}
+        />
+      ) : (
+        <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <tr>
+                  <th className="p-8">Item Details</th>
+                  <th className="p-8">Group</th>
+                  <th className="p-8 text-right">Price</th>
+                  <th className="p-8 text-center">Stock</th>
+                  <th className="p-8 text-right pr-12">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {filtered.map(p => (
+                  <tr key={p.id} className="hover:bg-indigo-50/40 group transition-all">
+                    <td className="p-8">
+                      <div className="flex items-center gap-5 min-w-[240px]">
+                        <div className="w-16 h-16 rounded-xl bg-slate-100 border border-slate-200 flex items-center justify-center overflow-hidden shrink-0 shadow-inner">
+                          {p.imageUrl ? <img src={p.imageUrl} className="w-full h-full object-cover" alt={p.name} /> : <Package size={24} className="text-slate-300" />}
+                        </div>
+                        <div>
+                          <h4 className="font-black text-slate-900 text-base">{p.name}</h4>
+                          <p className="text-[11px] font-mono text-slate-400 mt-1">{p.sku}{p.barcode && <span className="ml-2 text-slate-300">· {p.barcode}</span>}{hasVariants(p) && <span className="ml-2 text-indigo-400">· {p.variants!.length} variants</span>}{isBundle(p) && <span className="ml-2 text-amber-500 inline-flex items-center gap-1">· <Boxes size={11}/> bundle of {p.components!.length}</span>}</p>
+                        </div>
                       </div>
-                    </div>
-                  </td>
-                  <td className="p-8">
-                    <span className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-[10px] font-black uppercase border border-slate-200">
-                      {p.category}
-                    </span>
-                  </td>
-                  <td className="p-8 text-right font-black text-slate-900">{formatCurrency(p.price)}</td>
-                  <td className="p-8 text-center">
-                    <span className={`text-lg font-black ${p.stock < 10 ? 'text-rose-600' : 'text-slate-900'}`}>{p.stock}</span>
+                    </td>
+                    <td className="p-8">
+                      <span className="bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-[10px] font-black uppercase border border-slate-200">
+                        {p.category}
+                      </span>
+                    </td>
+                    <td className="p-8 text-right font-black text-slate-900">
+                    {formatCurrency(p.price)}
+                    {!!p.costPrice && <p className="text-[10px] font-bold text-slate-400 mt-1">Cost {formatCurrency(p.costPrice)}</p>}
                   </td>
-                  {!isEmployee && (
+                    <td className="p-8 text-center">
+                      <span className={`text-lg font-black ${isLowStock(p) ? 'text-rose-600' : 'text-slate-900'}`}>{p.stock}</span>
+                      {isBundle(p) && <p className="text-[9px] font-black uppercase text-slate-400 mt-1">can be made</p>}
+                    </td>
                     <td className="p-8 text-right pr-12">
                       <div className="flex justify-end gap-3 opacity-0 group-hover:opacity-100 transition-all">
-                        <button onClick={() => handleOpenModal(p)} className="p-3 bg-white border border-slate-100 rounded-2xl text-slate-400 hover:text-indigo-600 shadow-sm transition-all"><Edit3 size={20}/></button>
-                        <button onClick={() => setShowDeleteConfirm(p)} className="p-3 bg-white border border-slate-100 rounded-2xl text-slate-400 hover:text-rose-600 shadow-sm transition-all"><Trash2 size={20}/></button>
+                        {!isBundle(p) && <button onClick={() => setHistoryFor(p.id)} title="Stock history" className="p-3 bg-white border border-slate-100 rounded-2xl text-slate-400 hover:text-indigo-600 shadow-sm transition-all"><History size={20}/></button>}
+                        {!isEmployee && (
+                          <>
+                            <button onClick={() => handleOpenModal(p)} className="p-3 bg-white border border-slate-100 rounded-2xl text-slate-400 hover:text-indigo-600 shadow-sm transition-all"><Edit3 size={20}/></button>
+                            <button onClick={() => setShowDeleteConfirm(p)} className="p-3 bg-white border border-slate-100 rounded-2xl text-slate-400 hover:text-rose-600 shadow-sm transition-all"><Trash2 size={20}/></button>
+                          </>
+                        )}
                       </div>
                     </td>
-                  )}
-                </tr>
-              ))}
-              {filtered.length === 0 && (
-                <tr>
-                  <td colSpan={5} className="p-20 text-center text-slate-300 italic">No items found matching your search criteria.</td>
-                </tr>
-              )}
-            </tbody>
-          </table>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-20 text-center text-slate-300 italic">No items found matching your search criteria.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Add/Edit Modal */}
       {modalOpen && (
@@ -250,26 +405,75 @@ export const Inventory: React.FC<InventoryProps> = ({
                        </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">SKU</label>
+                          <input value={editingItem?.sku || ''} onChange={e => setEditingItem({...editingItem, sku: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-mono font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+                       </div>
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Barcode {editingItem?.barcode && detectSymbology(editingItem.barcode) && <span className="text-emerald-500">· {detectSymbology(editingItem.barcode)}</span>}</label>
+                          <input value={editingItem?.barcode || ''} onChange={e => setEditingItem({...editingItem, barcode: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-mono font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder="Scan or type" />
+                       </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
                        <div className="space-y-2">
                           <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Sell Price (₱)</label>
                           <input type="number" value={editingItem?.price || ''} onChange={e => setEditingItem({...editingItem, price: parseFloat(e.target.value) || 0})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder="0.00" />
                        </div>
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Cost Price (₱) {!!editingItem?.costPrice && !!editingItem?.price && <span className="text-emerald-500">· {Math.round((1 - editingItem.costPrice / editingItem.price) * 100)}% margin</span>}</label>
+                          <input type="number" value={editingItem?.costPrice || ''} onChange={e => setEditingItem({...editingItem, costPrice: parseFloat(e.target.value) || 0})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder="0.00" />
+                       </div>
                        <div className="space-y-2">
                           <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Current Stock</label>
-                          <input type="number" value={editingItem?.stock || ''} onChange={e => setEditingItem({...editingItem, stock: parseInt(e.target.value) || 0})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder="0" />
+                          <input type="number" disabled={!!editingItem?.variants?.length || isBundle(editingItem || {})} value={isBundle(editingItem || {}) ? '' : editingItem?.variants?.length ? variantStockTotal(editingItem.variants) : editingItem?.stock || ''} onChange={e => setEditingItem({...editingItem, stock: parseInt(e.target.value) || 0})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder={isBundle(editingItem || {}) ? 'From items' : '0'} />
                        </div>
                     </div>
-                    <div className="space-y-2">
-                       <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Group / Category</label>
-                       <select value={editingItem?.category || ''} onChange={e => setEditingItem({...editingItem, category: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none cursor-pointer">
-                          <option value="">Choose a group...</option>
-                          {categories.map(c => <option key={c} value={c}>{c}</option>)}
-                       </select>
+                    <div className="grid grid-cols-2 gap-4">
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Group / Category</label>
+                          <select value={editingItem?.category || ''} onChange={e => setEditingItem({...editingItem, category: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none cursor-pointer">
+                             <option value="">Choose a group...</option>
+                             {categoryList.length > 0
+                               ? categoryTree(categoryList).map(({ category: c, depth }) => <option key={c.id} value={c.name}>{'— '.repeat(depth)}{c.name}</option>)
+                               : categories.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                       </div>
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Tax Treatment</label>
+                          <select value={editingItem?.taxType || 'VAT'} onChange={e => setEditingItem({...editingItem, taxType: e.target.value as TaxType})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none cursor-pointer">
+                             <option value="VAT">VATable (12%)</option>
+                             <option value="VAT_EXEMPT">VAT-Exempt</option>
+                             <option value="ZERO_RATED">Zero-Rated</option>
+                          </select>
+                       </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Reorder At</label>
+                          <input type="number" min={0} value={editingItem?.reorderPoint ?? ''} onChange={e => setEditingItem({...editingItem, reorderPoint: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder={String(DEFAULT_REORDER_POINT)} />
+                       </div>
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Reorder Qty</label>
+                          <input type="number" min={0} value={editingItem?.reorderQuantity ?? ''} onChange={e => setEditingItem({...editingItem, reorderQuantity: parseInt(e.target.value) || undefined})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" placeholder="Auto" />
+                       </div>
+                       <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Supplier</label>
+                          <select value={editingItem?.preferredSupplierId || ''} onChange={e => setEditingItem({...editingItem, preferredSupplierId: e.target.value || undefined})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none cursor-pointer">
+                             <option value="">None</option>
+                             {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                          </select>
+                       </div>
                     </div>
+                    <label className="flex items-center gap-3 bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 cursor-pointer">
+                       <input type="checkbox" checked={!!editingItem?.tracksExpiry} onChange={e => setEditingItem({...editingItem, tracksExpiry: e.target.checked || undefined})} className="w-4 h-4 accent-indigo-600" />
+                       <span className="text-xs font-bold text-slate-700">Track lots & expiry dates <span className="text-slate-400 font-medium">· deliveries need an expiry date, sales use the first-expiring lot</span></span>
+                    </label>
                     <div className="space-y-2">
                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Description</label>
                        <textarea value={editingItem?.description || ''} onChange={e => setEditingItem({...editingItem, description: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-medium h-32 outline-none focus:ring-4 focus:ring-indigo-50" placeholder="Write a bit about this item..." />
                     </div>
+                    <VariantEditor item={editingItem || {}} onChange={patch => setEditingItem(prev => ({ ...prev, ...patch }))} />
+                    <BundleEditor item={editingItem || {}} products={products} onChange={patch => setEditingItem(prev => ({ ...prev, ...patch }))} />
                  </div>
                  <div className="space-y-6">
                     <div className="space-y-2">
@@ -303,6 +507,28 @@ export const Inventory: React.FC<InventoryProps> = ({
         </div>
       )}
 
+      {/* Stock Movement History */}
+      {historyFor && products.find(p => p.id === historyFor) && (
+        <StockHistory
+          product={products.find(p => p.id === historyFor)!}
+          movements={movements}
+          lots={lots}
+          canAdjust={!isEmployee && !!onStockMovement}
+          onRecord={(type, qty, reason, variantId, extra) => onStockMovement!(historyFor, type, qty, reason, variantId, extra)}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {/* Bulk Import */}
+      {importOpen && onImportProducts && (
+        <ProductImport
+          products={products}
+          categories={categories}
+          onCommit={onImportProducts}
+          onClose={() => setImportOpen(false)}
+        />
+      )}
+
       {/* Delete Confirmation */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
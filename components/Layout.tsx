@@ -1,10 +1,11 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Sidebar } from './Sidebar';
-import { ViewState, UserRole, Product, Transaction, SystemUser, PlanType } from '../types';
-import { Menu, Bell, UserCircle, Search, LogOut, ChevronDown, Cloud, CloudOff, Database, Receipt } from 'lucide-react';
+import { ViewState, UserRole, Product, Order, SystemUser, PlanType, AppNotice } from '../types';
+import { Menu, Bell, UserCircle, Search, LogOut, ChevronDown, Cloud, CloudOff, Database, Receipt, PackagePlus } from 'lucide-react';
 import { formatCurrency } from '../constants';
 import { dataService } from '../services/dataService';
+import { StockAlert } from '../services/reorderService';
 
 interface LayoutProps {
   currentView: ViewState;
@@ -14,18 +15,22 @@ interface LayoutProps {
   businessName?: string;
   onLogout: () => void;
   products: Product[];
-  transactions: Transaction[];
+  orders: Order[];
   currentUser: SystemUser;
   subscriptionPlan: PlanType;
+  stockAlerts?: StockAlert[];
+  onDraftReorders?: () => Promise<void>;
+  notice?: AppNotice | null;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ 
-  currentView, setView, children, role, businessName, onLogout, products, transactions, currentUser, subscriptionPlan
+  currentView, setView, children, role, businessName, onLogout, products, orders, currentUser, subscriptionPlan, stockAlerts = [], onDraftReorders, notice
 }) => {
   const [isMobileOpen, setIsMobileOpen] = useState(false);
   const [isOnline, setIsOnline] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearchResults, setShowSearchResults] = useState(false);
   
@@ -51,20 +56,20 @@ export const Layout: React.FC<LayoutProps> = ({
   useEffect(() => {
     const handleOutsideClick = (e: MouseEvent) => {
       if (searchRef.current && !searchRef.current.contains(e.target as Node)) setShowSearchResults(false);
-      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setShowUserMenu(false);
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) { setShowUserMenu(false); setShowAlerts(false); }
     };
     document.addEventListener('mousedown', handleOutsideClick);
     return () => document.removeEventListener('mousedown', handleOutsideClick);
   }, []);
 
   const results = useMemo(() => {
-    if (!searchQuery.trim()) return { products: [], transactions: [] };
+    if (!searchQuery.trim()) return { products: [], orders: [] };
     const q = searchQuery.toLowerCase();
     return {
       products: products.filter(p => p.name.toLowerCase().includes(q) || p.sku.toLowerCase().includes(q)).slice(0, 4),
-      transactions: transactions.filter(t => t.id.toLowerCase().includes(q) || t.product.toLowerCase().includes(q)).slice(0, 4)
+      orders: orders.filter(o => o.id.toLowerCase().includes(q) || !!o.receiptNo?.toLowerCase().includes(q) || o.lines.some(l => l.productName.toLowerCase().includes(q))).slice(0, 4)
     };
-  }, [searchQuery, products, transactions]);
+  }, [searchQuery, products, orders]);
 
   const handleResultClick = (view: ViewState) => {
     setView(view);
@@ -105,18 +110,18 @@ export const Layout: React.FC<LayoutProps> = ({
                         ))}
                       </div>
                     )}
-                    {results.transactions.length > 0 && (
+                    {results.orders.length > 0 && (
                       <div>
                         <p className="text-[10px] font-black uppercase text-slate-400 mb-2 px-2 tracking-widest">Recent Sales</p>
-                        {results.transactions.map(t => (
-                          <div key={t.id} onClick={() => handleResultClick(ViewState.DASHBOARD)} className="p-3 hover:bg-indigo-50 rounded-xl cursor-pointer text-xs font-black flex items-center justify-between group transition-all">
-                             <span className="truncate max-w-[140px]">{t.product}</span>
-                             <span className="text-emerald-600 font-bold">{formatCurrency(t.amount)}</span>
+                        {results.orders.map(o => (
+                          <div key={o.id} onClick={() => handleResultClick(ViewState.DASHBOARD)} className="p-3 hover:bg-indigo-50 rounded-xl cursor-pointer text-xs font-black flex items-center justify-between group transition-all">
+                             <span className="truncate max-w-[140px]">{o.lines.map(l => l.productName).join(', ') || o.id}</span>
+                             <span className="text-emerald-600 font-bold">{formatCurrency(o.total)}</span>
                           </div>
                         ))}
                       </div>
                     )}
-                    {results.products.length === 0 && results.transactions.length === 0 && (
+                    {results.products.length === 0 && results.orders.length === 0 && (
                       <p className="text-center py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">No records matching "{searchQuery}"</p>
                     )}
                   </div>
@@ -144,13 +149,40 @@ export const Layout: React.FC<LayoutProps> = ({
              </div>
 
              <div className="flex items-center gap-2 md:gap-3" ref={menuRef}>
-                <button className="relative p-3 bg-white border border-slate-200 rounded-2xl shadow-sm hover:shadow-md transition-all active:scale-95">
-                   <Bell size={22} className="text-slate-400" />
-                   <div className="absolute top-2 right-2 w-2 h-2 bg-rose-500 rounded-full border-2 border-white"></div>
-                </button>
+                <div className="relative">
+                   <button onClick={() => { setShowAlerts(!showAlerts); setShowUserMenu(false); }} className="relative p-3 bg-white border border-slate-200 rounded-2xl shadow-sm hover:shadow-md transition-all active:scale-95">
+                      <Bell size={22} className={stockAlerts.length > 0 ? 'text-rose-500' : 'text-slate-400'} />
+                      {stockAlerts.length > 0 && (
+                        <div className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-rose-500 rounded-full border-2 border-white text-[9px] font-black text-white flex items-center justify-center">{stockAlerts.length > 99 ? '99+' : stockAlerts.length}</div>
+                      )}
+                   </button>
+
+                   {showAlerts && (
+                    <div className="absolute top-full right-0 mt-3 w-80 bg-white rounded-[2rem] shadow-3xl border border-slate-100 p-4 z-50 animate-in fade-in slide-in-from-top-2">
+                       <p className="text-[10px] font-black uppercase text-slate-400 mb-2 px-2 tracking-widest">Low Stock</p>
+                       <div className="max-h-80 overflow-y-auto space-y-1">
+                          {stockAlerts.map(a => (
+                            <div key={a.key} onClick={() => { setView(ViewState.INVENTORY); setShowAlerts(false); }} className="p-3 hover:bg-rose-50 rounded-xl cursor-pointer text-xs flex items-center justify-between gap-3 transition-all">
+                               <div className="min-w-0">
+                                  <p className="font-black text-slate-900 truncate">{a.product.name}{a.variant && <span className="text-slate-400"> · {a.variant.name}</span>}</p>
+                                  <p className="text-[10px] font-bold text-slate-400">Reorder at {a.reorderPoint}{a.onOrder > 0 && ` · ${a.onOrder} on order`}</p>
+                               </div>
+                               <span className="font-black text-rose-600 shrink-0">{a.onHand} left</span>
+                            </div>
+                          ))}
+                          {stockAlerts.length === 0 && <p className="text-center py-6 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Stock levels look healthy</p>}
+                       </div>
+                       {onDraftReorders && stockAlerts.some(a => a.suggestedQty > 0) && (
+                         <button onClick={async () => { setShowAlerts(false); await onDraftReorders(); }} className="w-full mt-3 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center justify-center gap-2 shadow-lg shadow-indigo-100">
+                            <PackagePlus size={14}/> Draft Purchase Orders
+                         </button>
+                       )}
+                    </div>
+                   )}
+                </div>
                 <div className="relative">
                    <button 
-                    onClick={() => setShowUserMenu(!showUserMenu)} 
+                    onClick={() => { setShowUserMenu(!showUserMenu); setShowAlerts(false); }} 
                     className="flex items-center gap-2 md:gap-3 p-1 bg-white border border-slate-200 rounded-[1.25rem] shadow-sm hover:shadow-md transition-all active:scale-95 group"
                    >
                       <div className="w-10 h-10 rounded-xl bg-indigo-50 flex items-center justify-center text-indigo-600 group-hover:bg-indigo-600 group-hover:text-white transition-all shadow-inner">
@@ -183,6 +215,16 @@ export const Layout: React.FC<LayoutProps> = ({
         </header>
         <main className="flex-1 overflow-auto p-6 md:p-12 bg-grid-pattern bg-fixed">
           <div className="max-w-[1400px] mx-auto animate-in fade-in duration-500">
+            {notice && (
+              <div className={`mb-6 p-4 rounded-2xl border flex items-center gap-3 animate-in slide-in-from-top-2 duration-300 ${
+                notice.type === 'success' ? 'bg-emerald-50 border-emerald-100 text-emerald-700' :
+                notice.type === 'error' ? 'bg-rose-50 border-rose-100 text-rose-700' :
+                'bg-indigo-50 border-indigo-100 text-indigo-700'
+              }`}>
+                <Bell size={18} />
+                <span className="text-xs font-black uppercase tracking-widest">{notice.message}</span>
+              </div>
+            )}
             {children}
           </div>
         </main>
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw, History, Loader2 } from 'lucide-react';
+import { dbService } from '../services/dbService';
+
+interface LocalDataRecoveryProps {
+  error: Error;
+}
+
+// Shown instead of the app when the local database couldn't be upgraded, so
+// nothing runs against data in an older layout.
+export const LocalDataRecovery: React.FC<LocalDataRecoveryProps> = ({ error }) => {
+  const [backupVersion, setBackupVersion] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    dbService.backupVersion().then(setBackupVersion).catch(() => setBackupVersion(null));
+  }, []);
+
+  const handleRestore = async () => {
+    if (!window.confirm('Restore the local data saved before the last update? Anything recorded on this device since then and not yet synced will be lost.')) return;
+    setRestoring(true);
+    try {
+      await dbService.restoreBackup();
+      window.location.reload();
+    } catch (e: any) {
+      alert(e.message || "The backup couldn't be restored.");
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6 font-sans">
+      <div className="w-full max-w-2xl bg-white border border-slate-200 rounded-[3rem] shadow-2xl p-12 text-center space-y-8">
+        <div className="w-24 h-24 bg-rose-50 rounded-[2.5rem] flex items-center justify-center text-rose-500 mx-auto shadow-xl border border-rose-100">
+          <AlertTriangle size={48} strokeWidth={2.5}/>
+        </div>
+        <div className="space-y-3">
+          <h2 className="text-3xl font-black text-slate-900 tracking-tighter leading-tight">Local Data Needs Attention</h2>
+          <p className="text-slate-500 font-medium leading-relaxed max-w-md mx-auto">
+            This update couldn't finish preparing the data saved on this device, so AutoMate stopped before using it. Nothing was changed.
+          </p>
+          <p className="text-xs font-mono text-rose-600 break-words">{error.message}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <button onClick={() => window.location.reload()} className="py-5 bg-indigo-600 hover:bg-indigo-700 text-white font-black rounded-3xl shadow-xl shadow-indigo-100 flex items-center justify-center gap-2 uppercase text-[10px] tracking-widest">
+            <RefreshCw size={18}/> Try Again
+          </button>
+          <button onClick={handleRestore} disabled={backupVersion === null || restoring} className="py-5 bg-slate-900 hover:bg-slate-800 text-white font-black rounded-3xl shadow-xl flex items-center justify-center gap-2 uppercase text-[10px] tracking-widest disabled:opacity-40">
+            {restoring ? <Loader2 size={18} className="animate-spin"/> : <History size={18}/>} {backupVersion === null ? 'No Backup Available' : `Restore Backup (v${backupVersion})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
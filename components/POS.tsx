@@ -1,116 +1,411 @@
 
-import React, { useState, useMemo, useCallback } from 'react';
-import { Search, ShoppingBasket, Plus, Minus, ArrowRight, X, Receipt, Check, Loader2 } from 'lucide-react';
-import { Product, CartItem, Transaction } from '../types';
-import { formatCurrency } from '../constants';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Search, ShoppingBasket, Plus, Minus, ArrowRight, X, Receipt, Check, Loader2, Wallet, Trash2, Undo2, BadgePercent, PauseCircle, ClipboardList, Play, ScanLine, Printer } from 'lucide-react';
+import { Category, Product, CartItem, HeldOrder, OpenBasket, Order, OrderLine, OrderPayment, OrderStatus, PaymentMethod, Shift, StatutoryDiscount, SystemUser } from '../types';
+import { formatCurrency, PAYMENT_METHODS, CATEGORY_COLORS } from '../constants';
+import { summarizeLines } from '../services/orderService';
+import { settleTenders, requiresReference, TenderDraft } from '../services/paymentService';
+import { ShiftManager } from './ShiftManager';
+import { ReturnsModal } from './ReturnsModal';
+import { ReceiptModal } from './ReceiptModal';
+import { ReceiptBusiness, receiptBusinessFrom } from '../services/printService';
+import { getTerminalId } from '../services/receiptService';
+import { reservedQuantities } from '../services/heldOrderService';
+import { isLowOn } from '../services/reorderService';
+import { attachWedgeScanner, findByCode } from '../services/barcodeService';
+import { buildCartItem, cartKey, hasVariants, lineDescription, needsPicker, stockKey } from '../services/variantService';
+import { VariantPicker } from './VariantPicker';
+import { computeLineTax, summarizeTax, isValidStatutoryDiscount } from '../services/taxService';
+import { categoryTree, childrenOf, subtreeNames } from '../services/categoryService';
+import { CategoryIcon } from './CategoryIcon';
+import { bundleAvailability, bundleParts, isBundle, stockDemand } from '../services/bundleService';
 
 interface POSProps {
   products: Product[];
-  operatorName?: string;
-  onTransactionComplete: (txs: Transaction[]) => void;
-  businessDetails?: {
-    name: string;
-    address: string;
-    contact: string;
-    footerMessage: string;
-  };
+  categories?: Category[];
+  operator?: SystemUser;
+  onOrderComplete: (order: Order) => Promise<Order>;
+  heldOrders: HeldOrder[];
+  onHoldOrder: (held: HeldOrder) => Promise<void>;
+  onReleaseHeld: (id: string) => Promise<void>;
+  orders: Order[];
+  users: SystemUser[];
+  onRefundComplete: (refund: Order, original: Order, originalStatus: OrderStatus) => Promise<void>;
+  shift?: Shift;
+  onOpenShift: (openingFloat: number) => Promise<void>;
+  onCashMovement: (type: 'IN' | 'OUT', amount: number, reason: string) => Promise<void>;
+  onCloseShift: (counted: Partial<Record<PaymentMethod, number>>) => Promise<void>;
+  businessDetails?: ReceiptBusiness;
+  autoPark?: boolean;
+  // Reports the unpaid basket, or null once it is empty or paid, so leaving
+  // the register can offer to park it
+  onBasketChange?: (open: OpenBasket | null) => void;
 }
 
-export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionComplete, businessDetails }) => {
+export const POS: React.FC<POSProps> = ({ 
+  products, categories = [], operator, onOrderComplete, businessDetails, orders, users, onRefundComplete, shift, onOpenShift, onCashMovement, onCloseShift, heldOrders, onHoldOrder, onReleaseHeld, autoPark = false, onBasketChange 
+}) => {
   const [basket, setBasket] = useState<CartItem[]>([]);
   const [search, setSearch] = useState('');
   const [selectedGroup, setSelectedGroup] = useState('All');
   const [checkingOut, setCheckingOut] = useState(false);
   const [paymentDone, setPaymentDone] = useState(false);
+  const [tenderOpen, setTenderOpen] = useState(false);
+  const [tenders, setTenders] = useState<TenderDraft[]>([]);
+  const [tenderMethod, setTenderMethod] = useState<PaymentMethod>('Cash');
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderRef, setTenderRef] = useState('');
+  const [lastPayments, setLastPayments] = useState<OrderPayment[]>([]);
+  const [returnsOpen, setReturnsOpen] = useState(false);
+  const [lastOrder, setLastOrder] = useState<Order | null>(null);
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  const [statutory, setStatutory] = useState<StatutoryDiscount | null>(null);
+  const [discountFormOpen, setDiscountFormOpen] = useState(false);
+  const [discountDraft, setDiscountDraft] = useState<StatutoryDiscount>({ type: 'SC', idNumber: '', holderName: '' });
+  const [parkOpen, setParkOpen] = useState(false);
+  const [parkName, setParkName] = useState('');
+  const [parkReserve, setParkReserve] = useState(false);
+  const [heldDrawerOpen, setHeldDrawerOpen] = useState(false);
+  const [scanMode, setScanMode] = useState(true);
+
+  const reserved = useMemo(() => reservedQuantities(heldOrders), [heldOrders]);
+  const [pickerProduct, setPickerProduct] = useState<Product | null>(null);
+  const availableStock = (productId: string, variantId?: string): number => {
+    const p = products.find(x => x.id === productId);
+    if (!p) return 0;
+    if (isBundle(p)) return bundleAvailability(p, availableStock);
+    if (!variantId && hasVariants(p)) return (p.variants || []).reduce((s, v) => s + availableStock(p.id, v.id), 0);
+    const onHand = variantId ? p.variants?.find(v => v.id === variantId)?.stock ?? 0 : p.stock;
+    return Math.max(0, onHand - (reserved[stockKey(productId, variantId)] || 0));
+  };
+
+  useEffect(() => {
+    onBasketChange?.(basket.length === 0 || paymentDone ? null : { operatorId: operator?.id, items: basket, statutoryDiscount: statutory || undefined });
+  }, [basket, statutory, paymentDone, operator?.id, onBasketChange]);
 
-  const groups = useMemo(() => ['All', ...Array.from(new Set(products.map(p => p.category)))], [products]);
+  // Switching views unmounts the POS. When the business turned auto-parking
+  // on, an open basket is parked here; otherwise the navigation handler has
+  // already asked the cashier. The ref always holds the latest values, not
+  // the ones from the first render.
+  const leaving = useRef({ basket, statutory, done: paymentDone, operatorId: operator?.id, autoPark, onHoldOrder });
+  leaving.current = { basket, statutory, done: paymentDone, operatorId: operator?.id, autoPark, onHoldOrder };
+  useEffect(() => () => {
+    const { basket: open, statutory: sd, done, operatorId, autoPark: park, onHoldOrder: hold } = leaving.current;
+    if (!park || open.length === 0 || done) return;
+    hold({ id: `HOLD-${Date.now()}`, operatorId, items: open, timestamp: new Date(), customerName: 'Unsaved basket', statutoryDiscount: sd || undefined })
+      .catch(e => console.error('[POS] Parking the open basket failed', e));
+  }, []);
+
+  // Chips follow the category tree: top-level categories in their saved order
+  // (only those with items somewhere beneath them), then any names no category
+  // covers. A selected category shows everything filed under its subtree.
+  const groupNames = useMemo(() => {
+    const names: Record<string, Set<string>> = {};
+    categories.forEach(c => { names[c.id] = subtreeNames(categories, c.id); });
+    return names;
+  }, [categories]);
+  const inUse = useMemo(() => new Set(products.map(p => p.category)), [products]);
+  const hasItems = (c: Category) => Array.from(groupNames[c.id] || []).some(n => inUse.has(n));
+  const groups = useMemo(() => {
+    const roots = categoryTree(categories).filter(n => n.depth === 0).map(n => n.category).filter(hasItems);
+    const known = new Set(categories.map(c => c.name));
+    return { roots, loose: Array.from(inUse).filter(n => !known.has(n)) };
+  }, [categories, groupNames, inUse]);
+  const selectedCategory = categories.find(c => c.id === selectedGroup);
+  const activeRoot = selectedCategory && groups.roots.find(r => groupNames[r.id]?.has(selectedCategory.name));
+  const subGroups = activeRoot ? childrenOf(categories, activeRoot.id).filter(hasItems) : [];
+
+  const chipClass = (c: Category | undefined, active: boolean) => {
+    const palette = c?.color ? CATEGORY_COLORS[c.color] : undefined;
+    if (palette) return `border ${active ? `${palette.active} shadow-md` : `${palette.chip} hover:shadow-sm`}`;
+    return active ? 'bg-indigo-600 text-white shadow-md' : 'bg-white border border-slate-200 text-slate-500 hover:border-indigo-300';
+  };
   
-  const filtered = products.filter(p => 
-    (selectedGroup === 'All' || p.category === selectedGroup) && 
-    p.name.toLowerCase().includes(search.toLowerCase())
-  );
+  const filtered = products.filter(p => {
+    const q = search.toLowerCase();
+    const inGroup = selectedGroup === 'All' || (selectedCategory ? !!groupNames[selectedCategory.id]?.has(p.category) : p.category === selectedGroup);
+    return inGroup && 
+      (p.name.toLowerCase().includes(q) || p.sku.toLowerCase().includes(q) || !!p.barcode?.toLowerCase().includes(q));
+  });
+
+  const vatRegistered = businessDetails?.vatRegistered !== false;
+
+  const buildLines = useCallback((orderId: string): OrderLine[] => basket.map((item, idx) => ({
+    id: `${orderId}-L${idx + 1}`,
+    orderId,
+    productId: item.id,
+    productName: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+    sku: item.sku,
+    variantId: item.variantId,
+    variantName: item.variantName,
+    modifiers: item.modifiers,
+    components: isBundle(item) ? bundleParts(item, products) : undefined,
+    category: item.category,
+    unitPrice: item.price,
+    quantity: item.quantity,
+    ...computeLineTax(item.price, item.quantity, item.taxType, !!statutory, vatRegistered)
+  })), [basket, statutory, vatRegistered, products]);
+
+  const draftLines = useMemo(() => buildLines('DRAFT'), [buildLines]);
+  const totals = useMemo(() => summarizeLines(draftLines), [draftLines]);
+  const taxBreakdown = useMemo(() => summarizeTax(draftLines), [draftLines]);
+  const total = totals.total;
 
-  const total = basket.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  // Adds one unit of a basket line; lines that draw on the same stock share its
+  // limit, and bundles check each of their components against the whole basket
+  const addItem = (item: CartItem) => {
+    const needed = stockDemand([...basket, { ...item, quantity: 1 }]);
+    for (const [sk, d] of Object.entries(stockDemand([{ ...item, quantity: 1 }]))) {
+      const available = availableStock(d.productId, d.variantId);
+      const part = isBundle(item) ? products.find(p => p.id === d.productId)?.name : undefined;
+      if (available <= 0) {
+        alert(reserved[sk] ? "The remaining stock is reserved for a parked order." : part ? `${part} is out of stock, so ${item.name} can't be made.` : "Oops! This item is currently out of stock.");
+        return;
+      }
+      if (needed[sk].quantity > available) {
+        alert(part ? `There isn't enough ${part} left for another ${item.name}.` : `You only have ${available} of these available.`);
+        return;
+      }
+    }
+    const key = cartKey(item);
+    setBasket(prev => prev.some(i => cartKey(i) === key)
+      ? prev.map(i => cartKey(i) === key ? { ...i, quantity: i.quantity + 1 } : i)
+      : [...prev, { ...item, quantity: 1 }]);
+  };
 
   const addToBasket = (p: Product) => {
-    if (p.stock <= 0) {
-      alert("Oops! This item is currently out of stock.");
+    if (needsPicker(p)) {
+      setPickerProduct(p);
       return;
     }
-    setBasket(prev => {
-      const exists = prev.find(i => i.id === p.id);
-      if (exists) {
-        if (exists.quantity >= p.stock) {
-          alert(`You only have ${p.stock} of these in stock.`);
-          return prev;
-        }
-        return prev.map(i => i.id === p.id ? { ...i, quantity: i.quantity + 1 } : i);
-      }
-      return [...prev, { ...p, quantity: 1 }];
-    });
+    addItem({ ...p, quantity: 1 });
   };
 
-  const removeFromBasket = (id: string) => {
-    setBasket(prev => prev.map(i => i.id === id ? { ...i, quantity: i.quantity - 1 } : i).filter(i => i.quantity > 0));
+  const handleScan = (code: string) => {
+    const match = findByCode(products, code);
+    if (!match) {
+      alert(`No item uses the code ${code}. Add it in Inventory first.`);
+      return;
+    }
+    if (match.variant && !match.product.modifierGroups?.length) addItem(buildCartItem(match.product, match.variant, []));
+    else addToBasket(match.product);
   };
 
-  const handlePayment = async () => {
+  // The listener is re-attached each render so it always sees the latest basket and stock
+  const scanHandler = useRef(handleScan);
+  scanHandler.current = handleScan;
+  useEffect(() => {
+    if (!scanMode || !shift) return;
+    return attachWedgeScanner(code => scanHandler.current(code));
+  }, [scanMode, shift]);
+
+  const removeFromBasket = (key: string) => {
+    setBasket(prev => prev.map(i => cartKey(i) === key ? { ...i, quantity: i.quantity - 1 } : i).filter(i => i.quantity > 0));
+  };
+
+  const settlement = useMemo(() => settleTenders(total, tenders), [total, tenders]);
+
+  const openTender = () => {
     if (basket.length === 0) return;
-    
-    setCheckingOut(true);
-    // Simulate saving to the cloud/records
-    await new Promise(r => setTimeout(r, 1200));
-    
-    const transactionId = `ORDER-${Date.now()}`;
-    const newTransactions: Transaction[] = basket.map(item => ({
-      id: transactionId,
+    setTenders([]);
+    setTenderMethod('Cash');
+    setTenderAmount(total.toFixed(2));
+    setTenderRef('');
+    setTenderOpen(true);
+  };
+
+  const addTender = () => {
+    const amount = parseFloat(tenderAmount);
+    if (!amount || amount <= 0) return;
+    if (requiresReference(tenderMethod) && !tenderRef.trim()) {
+      alert(`Please enter the ${tenderMethod} reference number.`);
+      return;
+    }
+    setTenders(prev => [...prev, { id: `TND-${Date.now()}`, method: tenderMethod, amount, reference: tenderRef.trim() || undefined }]);
+    const remaining = Math.max(0, settleTenders(total, [...tenders, { id: 'next', method: tenderMethod, amount, reference: tenderRef }]).balance);
+    setTenderAmount(remaining > 0 ? remaining.toFixed(2) : '');
+    setTenderRef('');
+  };
+
+  const removeTender = (id: string) => setTenders(prev => prev.filter(t => t.id !== id));
+
+  // The order a failed checkout tried to save. Retrying the same basket sends
+  // it again under the same id, so it can't be recorded twice.
+  const checkoutAttempt = useRef<Order | null>(null);
+  useEffect(() => { checkoutAttempt.current = null; }, [basket, tenders, statutory]);
+
+  const buildOrder = (): Order => {
+    const orderId = `ORDER-${getTerminalId() || 'NEW'}-${Date.now()}`;
+    const lines = buildLines(orderId);
+    return {
+      id: orderId,
       date: new Date().toISOString(),
-      product: item.name,
-      productId: item.id,
-      category: item.category,
       location: businessDetails?.name || 'Main Shop',
-      amount: item.price * item.quantity,
+      operatorId: operator?.id,
+      operatorName: operator?.name,
+      shiftId: shift.id,
       status: 'Completed',
-      quantity: item.quantity,
-      paymentMethod: 'Cash'
-    }));
+      ...summarizeLines(lines),
+      taxBreakdown: summarizeTax(lines),
+      statutoryDiscount: statutory || undefined,
+      payments: settlement.payments,
+      lines
+    };
+  };
 
-    onTransactionComplete(newTransactions);
-    setCheckingOut(false);
-    setPaymentDone(true);
+  const handlePayment = async () => {
+    if (!shift || basket.length === 0 || settlement.error || settlement.balance > 0) return;
+    
+    setTenderOpen(false);
+    setCheckingOut(true);
+    const order = checkoutAttempt.current || buildOrder();
+    checkoutAttempt.current = order;
+
+    try {
+      const issued = await onOrderComplete(order);
+      checkoutAttempt.current = null;
+      setLastOrder(issued);
+      setLastPayments(settlement.payments);
+      setPaymentDone(true);
+    } catch (e: any) {
+      // The basket and tenders stay as they were so the sale can be tried again
+      console.error('[POS] Checkout failed', e);
+      alert(e?.message || "This sale couldn't be saved. Please try again.");
+    } finally {
+      setCheckingOut(false);
+    }
   };
 
   const startFresh = () => {
     setBasket([]);
     setPaymentDone(false);
     setSearch('');
+    setTenders([]);
+    setLastPayments([]);
+    setStatutory(null);
   };
 
+  const handlePark = async () => {
+    if (basket.length === 0) return;
+    await onHoldOrder({
+      id: `HOLD-${Date.now()}`,
+      operatorId: operator?.id,
+      items: basket,
+      timestamp: new Date(),
+      customerName: parkName.trim() || undefined,
+      statutoryDiscount: statutory || undefined,
+      reserveStock: parkReserve
+    });
+    setParkOpen(false);
+    setParkName('');
+    setParkReserve(false);
+    setBasket([]);
+    setStatutory(null);
+  };
+
+  const handleResume = async (held: HeldOrder) => {
+    if (basket.length > 0) {
+      alert("Please park or clear the current basket first.");
+      return;
+    }
+    // Re-read each item so the cart picks up current prices; drop deleted items
+    const items = held.items
+      .map(i => {
+        const current = products.find(p => p.id === i.id);
+        if (!current) return null;
+        if (!i.variantId && !i.modifiers) return { ...current, quantity: i.quantity };
+        const variant = current.variants?.find(v => v.id === i.variantId);
+        if (i.variantId && !variant) return null;
+        return { ...buildCartItem(current, variant, i.modifiers || []), quantity: i.quantity };
+      })
+      .filter((i): i is CartItem => i !== null);
+    await onReleaseHeld(held.id);
+    setBasket(items);
+    setStatutory(held.statutoryDiscount || null);
+    setHeldDrawerOpen(false);
+    if (items.length < held.items.length) alert("Some items in this order are no longer on sale and were removed.");
+  };
+
+  const shiftControls = (
+    <ShiftManager 
+      shift={shift} 
+      orders={orders} 
+      operatorName={operator?.name} 
+      onOpen={onOpenShift} 
+      onMovement={onCashMovement} 
+      onClose={onCloseShift} 
+    />
+  );
+
+  // No sales are allowed outside an open cash drawer shift
+  if (!shift) return shiftControls;
+
   return (
     <div className="h-[calc(100vh-8rem)] flex flex-col md:flex-row gap-4 animate-in fade-in duration-500 overflow-hidden">
       {/* Items Grid Section */}
       <div className="flex-1 flex flex-col gap-3 overflow-hidden">
+        {shiftControls}
         <div className="bg-white border border-slate-200 p-4 rounded-[2rem] shadow-sm space-y-4">
            <div className="relative group">
               <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-600 transition-colors" size={18} />
               <input 
-                placeholder="Find an item to sell..." 
+                placeholder="Find an item, SKU or barcode..." 
                 value={search} 
                 onChange={e => setSearch(e.target.value)} 
-                className="w-full bg-slate-50 border border-slate-100 rounded-xl pl-12 pr-4 py-3 text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-50 transition-all" 
+                onKeyDown={e => {
+                  if (e.key !== 'Enter') return;
+                  if (!findByCode(products, search)) return;
+                  handleScan(search);
+                  setSearch('');
+                }}
+                className="w-full bg-slate-50 border border-slate-100 rounded-xl pl-12 pr-32 py-3 text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-50 transition-all" 
               />
+              <button 
+                onClick={() => setScanMode(!scanMode)} 
+                className={`absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase flex items-center gap-1 transition-all ${scanMode ? 'bg-emerald-50 text-emerald-600 border border-emerald-100' : 'bg-white text-slate-400 border border-slate-200'}`}
+              >
+                <ScanLine size={12}/> {scanMode ? 'Scanner On' : 'Scanner Off'}
+              </button>
            </div>
            <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
-              {groups.map(g => (
+              <button 
+                onClick={() => setSelectedGroup('All')} 
+                className={`px-5 py-2 rounded-full text-[10px] font-black uppercase whitespace-nowrap transition-all ${chipClass(undefined, selectedGroup === 'All')}`}
+              >
+                All
+              </button>
+              {groups.roots.map(c => (
+                <button 
+                  key={c.id} 
+                  onClick={() => setSelectedGroup(c.id)} 
+                  className={`px-5 py-2 rounded-full text-[10px] font-black uppercase whitespace-nowrap transition-all flex items-center gap-1.5 ${chipClass(c, activeRoot?.id === c.id)}`}
+                >
+                  <CategoryIcon icon={c.icon} /> {c.name}
+                </button>
+              ))}
+              {groups.loose.map(g => (
                 <button 
                   key={g} 
                   onClick={() => setSelectedGroup(g)} 
-                  className={`px-5 py-2 rounded-full text-[10px] font-black uppercase whitespace-nowrap transition-all ${selectedGroup === g ? 'bg-indigo-600 text-white shadow-md' : 'bg-white border border-slate-200 text-slate-500 hover:border-indigo-300'}`}
+                  className={`px-5 py-2 rounded-full text-[10px] font-black uppercase whitespace-nowrap transition-all ${chipClass(undefined, selectedGroup === g)}`}
                 >
                   {g}
                 </button>
               ))}
            </div>
+           {subGroups.length > 0 && (
+             <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1 pl-4">
+                {subGroups.map(c => (
+                  <button 
+                    key={c.id} 
+                    onClick={() => setSelectedGroup(selectedGroup === c.id ? activeRoot!.id : c.id)} 
+                    className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase whitespace-nowrap transition-all flex items-center gap-1.5 ${chipClass(c.color ? c : activeRoot, groupNames[c.id]?.has(selectedCategory!.name) ?? false)}`}
+                  >
+                    <CategoryIcon icon={c.icon} /> {c.name}
+                  </button>
+                ))}
+             </div>
+           )}
         </div>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-3">
@@ -126,8 +421,8 @@ export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionC
                   ) : (
                     <ShoppingBasket size={32} className="text-slate-200" />
                   )}
-                  <div className={`absolute top-2 right-2 px-2 py-0.5 rounded-lg text-[8px] font-black uppercase text-white ${p.stock < 10 ? 'bg-rose-500' : 'bg-slate-900/80'}`}>
-                    Stock: {p.stock}
+                  <div className={`absolute top-2 right-2 px-2 py-0.5 rounded-lg text-[8px] font-black uppercase text-white ${isLowOn(p, availableStock(p.id)) ? 'bg-rose-500' : 'bg-slate-900/80'}`}>
+                    Stock: {availableStock(p.id)}
                   </div>
                </div>
                <h4 className="text-slate-900 font-black text-[10px] uppercase truncate px-1">{p.name}</h4>
@@ -155,9 +450,16 @@ export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionC
               <div className="p-2.5 bg-indigo-600 rounded-xl text-white shadow-lg"><ShoppingBasket size={20}/></div>
               <h3 className="font-black text-slate-900 uppercase text-xs">Customer Basket</h3>
             </div>
-            {basket.length > 0 && (
-              <button onClick={() => setBasket([])} className="text-[9px] font-black text-rose-500 uppercase hover:underline">Clear</button>
-            )}
+            <div className="flex items-center gap-3">
+              <button onClick={() => setReturnsOpen(true)} className="text-[9px] font-black text-slate-400 uppercase hover:text-rose-500 flex items-center gap-1 transition-colors"><Undo2 size={12}/> Returns</button>
+              <button onClick={() => setHeldDrawerOpen(true)} className="text-[9px] font-black text-slate-400 uppercase hover:text-indigo-600 flex items-center gap-1 transition-colors"><ClipboardList size={12}/> Held{heldOrders.length > 0 && ` (${heldOrders.length})`}</button>
+              {basket.length > 0 && (
+                <>
+                  <button onClick={() => setParkOpen(true)} className="text-[9px] font-black text-indigo-600 uppercase flex items-center gap-1 hover:underline"><PauseCircle size={12}/> Park</button>
+                  <button onClick={() => setBasket([])} className="text-[9px] font-black text-rose-500 uppercase hover:underline">Clear</button>
+                </>
+              )}
+            </div>
          </div>
          
          <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -168,17 +470,18 @@ export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionC
               </div>
             ) : (
               basket.map(item => (
-                <div key={item.id} className="bg-slate-50 p-3 rounded-2xl flex items-center gap-3 group animate-in slide-in-from-right-2">
+                <div key={cartKey(item)} className="bg-slate-50 p-3 rounded-2xl flex items-center gap-3 group animate-in slide-in-from-right-2">
                    <div className="flex-1 min-w-0">
                       <h5 className="text-[10px] font-black uppercase truncate text-slate-900">{item.name}</h5>
+                      {lineDescription(item) && <p className="text-[9px] font-bold text-slate-400 truncate">{lineDescription(item)}</p>}
                       <p className="text-indigo-600 text-[10px] font-black">{formatCurrency(item.price)}</p>
                    </div>
                    <div className="flex items-center gap-2 bg-white rounded-full p-1 shadow-sm border border-slate-100">
-                      <button onClick={() => removeFromBasket(item.id)} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-rose-600 transition-colors">
+                      <button onClick={() => removeFromBasket(cartKey(item))} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-rose-600 transition-colors">
                         <Minus size={12}/>
                       </button>
                       <span className="text-xs font-black min-w-[1.5rem] text-center">{item.quantity}</span>
-                      <button onClick={() => addToBasket(item)} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-indigo-600 transition-colors">
+                      <button onClick={() => addItem(item)} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-indigo-600 transition-colors">
                         <Plus size={12}/>
                       </button>
                    </div>
@@ -188,23 +491,217 @@ export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionC
          </div>
 
          <div className="p-8 border-t border-slate-100 bg-slate-50/50 space-y-6">
+            <div className="space-y-1 text-[10px] font-black uppercase text-slate-400">
+               <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(totals.subtotal)}</span></div>
+               {taxBreakdown.vatExemption > 0 && <div className="flex justify-between text-rose-500"><span>Less VAT (SC/PWD)</span><span>-{formatCurrency(taxBreakdown.vatExemption)}</span></div>}
+               {taxBreakdown.statutoryDiscount > 0 && <div className="flex justify-between text-rose-500"><span>{statutory?.type} Discount 20%</span><span>-{formatCurrency(taxBreakdown.statutoryDiscount)}</span></div>}
+               <div className="flex justify-between"><span>VATable Sales</span><span>{formatCurrency(taxBreakdown.vatableSales)}</span></div>
+               <div className="flex justify-between"><span>VAT 12%</span><span>{formatCurrency(taxBreakdown.vatAmount)}</span></div>
+               {taxBreakdown.exemptSales > 0 && <div className="flex justify-between"><span>VAT-Exempt Sales</span><span>{formatCurrency(taxBreakdown.exemptSales)}</span></div>}
+               {taxBreakdown.zeroRatedSales > 0 && <div className="flex justify-between"><span>Zero-Rated Sales</span><span>{formatCurrency(taxBreakdown.zeroRatedSales)}</span></div>}
+            </div>
+            <button 
+              onClick={() => statutory ? setStatutory(null) : setDiscountFormOpen(true)} 
+              className={`w-full py-3 rounded-xl text-[10px] font-black uppercase flex items-center justify-center gap-2 transition-all ${statutory ? 'bg-rose-50 text-rose-600 border border-rose-100' : 'bg-white border border-slate-200 text-slate-500 hover:text-indigo-600'}`}
+            >
+              <BadgePercent size={14}/> {statutory ? `Remove ${statutory.type} Discount · ID ${statutory.idNumber}` : 'Senior / PWD Discount'}
+            </button>
             <div className="flex justify-between items-end">
                <div className="flex flex-col">
                   <span className="text-[9px] font-black uppercase text-slate-400">Total Items: {basket.reduce((s, i) => s + i.quantity, 0)}</span>
-                  <span className="text-[10px] font-black uppercase text-slate-500">Subtotal</span>
+                  <span className="text-[10px] font-black uppercase text-slate-500">Amount Due</span>
                </div>
                <span className="text-4xl font-black text-indigo-600 tracking-tighter">{formatCurrency(total)}</span>
             </div>
             <button 
               disabled={basket.length === 0 || checkingOut} 
-              onClick={handlePayment} 
+              onClick={openTender} 
               className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-5 rounded-3xl shadow-xl shadow-indigo-100 transition-all active:scale-95 disabled:opacity-30 disabled:grayscale uppercase tracking-widest text-[11px] flex items-center justify-center gap-3"
             >
-              {checkingOut ? <Loader2 size={18} className="animate-spin" /> : <><Receipt size={18}/> Complete Sale</>}
+              {checkingOut ? <Loader2 size={18} className="animate-spin" /> : <><Wallet size={18}/> Take Payment</>}
             </button>
          </div>
       </div>
 
+      {pickerProduct && (
+        <VariantPicker 
+          product={pickerProduct} 
+          available={variantId => availableStock(pickerProduct.id, variantId)} 
+          onAdd={item => { addItem(item); setPickerProduct(null); }} 
+          onClose={() => setPickerProduct(null)} 
+        />
+      )}
+
+      {receiptOpen && lastOrder && (
+        <ReceiptModal order={lastOrder} business={businessDetails || receiptBusinessFrom(undefined, 'Main Shop')} onClose={() => setReceiptOpen(false)} />
+      )}
+
+      {parkOpen && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+           <div className="bg-white w-full max-w-sm rounded-[2.5rem] p-8 space-y-5 shadow-3xl animate-in zoom-in-95">
+              <div className="flex justify-between items-center">
+                 <h3 className="text-lg font-black text-slate-900">Park This Basket</h3>
+                 <button onClick={() => setParkOpen(false)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+              </div>
+              <input autoFocus value={parkName} onChange={e => setParkName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handlePark()} placeholder="Customer name (optional)" className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+              <label className="flex items-center gap-3 text-xs font-bold text-slate-600 cursor-pointer">
+                 <input type="checkbox" checked={parkReserve} onChange={e => setParkReserve(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                 Reserve these items so they can't be sold to someone else
+              </label>
+              <button onClick={handlePark} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-100 flex items-center justify-center gap-2">
+                 <PauseCircle size={16}/> Park Basket
+              </button>
+           </div>
+        </div>
+      )}
+
+      {heldDrawerOpen && (
+        <div className="fixed inset-0 z-[1000] flex justify-end">
+           <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm animate-in fade-in" onClick={() => setHeldDrawerOpen(false)} />
+           <div className="relative w-full max-w-sm h-full bg-white shadow-3xl p-6 flex flex-col gap-4 animate-in slide-in-from-right">
+              <div className="flex justify-between items-center">
+                 <h3 className="font-black text-slate-900 uppercase text-xs flex items-center gap-2"><ClipboardList size={16}/> Held Orders</h3>
+                 <button onClick={() => setHeldDrawerOpen(false)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+              </div>
+              <div className="flex-1 overflow-y-auto space-y-3">
+                 {heldOrders.map(h => (
+                   <div key={h.id} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl space-y-3">
+                      <div className="flex justify-between items-start">
+                         <div className="min-w-0">
+                            <h5 className="text-xs font-black text-slate-900 truncate">{h.customerName || 'Walk-in customer'}</h5>
+                            <p className="text-[10px] font-bold text-slate-400">{h.items.reduce((s, i) => s + i.quantity, 0)} items · {new Date(h.timestamp).toLocaleTimeString()}</p>
+                         </div>
+                         <span className="text-xs font-black text-slate-900">{formatCurrency(h.items.reduce((s, i) => s + i.price * i.quantity, 0))}</span>
+                      </div>
+                      {h.reserveStock && <p className="text-[9px] font-black uppercase text-amber-600">Stock reserved</p>}
+                      <div className="flex gap-2">
+                         <button onClick={() => handleResume(h)} className="flex-1 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center justify-center gap-1"><Play size={12}/> Resume</button>
+                         <button onClick={() => window.confirm("Discard this held order?") && onReleaseHeld(h.id)} className="px-3 py-2 bg-white border border-slate-200 text-slate-400 hover:text-rose-600 rounded-xl"><Trash2 size={14}/></button>
+                      </div>
+                   </div>
+                 ))}
+                 {heldOrders.length === 0 && <div className="text-center py-20 text-slate-300 italic text-xs">No parked baskets.</div>}
+              </div>
+           </div>
+        </div>
+      )}
+
+      {discountFormOpen && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+           <div className="bg-white w-full max-w-sm rounded-[2.5rem] p-8 space-y-5 shadow-3xl animate-in zoom-in-95">
+              <div className="flex justify-between items-center">
+                 <h3 className="text-lg font-black text-slate-900">Senior / PWD Discount</h3>
+                 <button onClick={() => setDiscountFormOpen(false)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+              </div>
+              <div className="flex bg-white border border-slate-200 p-1 rounded-2xl shadow-sm w-fit">
+                 {(['SC', 'PWD'] as const).map(t => (
+                   <button key={t} onClick={() => setDiscountDraft({ ...discountDraft, type: t })} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${discountDraft.type === t ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-indigo-600'}`}>{t === 'SC' ? 'Senior Citizen' : 'PWD'}</button>
+                 ))}
+              </div>
+              <input value={discountDraft.idNumber} onChange={e => setDiscountDraft({ ...discountDraft, idNumber: e.target.value })} placeholder={discountDraft.type === 'SC' ? 'OSCA ID No.' : 'PWD ID No.'} className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-mono font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+              <input value={discountDraft.holderName} onChange={e => setDiscountDraft({ ...discountDraft, holderName: e.target.value })} placeholder="Name on ID" className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+              <button 
+                disabled={!isValidStatutoryDiscount(discountDraft)} 
+                onClick={() => { setStatutory({ ...discountDraft, idNumber: discountDraft.idNumber.trim(), holderName: discountDraft.holderName.trim() }); setDiscountFormOpen(false); }} 
+                className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-100 disabled:opacity-30"
+              >
+                Apply 20% Discount
+              </button>
+           </div>
+        </div>
+      )}
+
+      {returnsOpen && (
+        <ReturnsModal 
+          orders={orders} 
+          users={users} 
+          operator={operator} 
+          shiftId={shift.id} 
+          onClose={() => setReturnsOpen(false)} 
+          onSubmit={onRefundComplete} 
+        />
+      )}
+
+      {/* Tender Modal */}
+      {tenderOpen && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+           <div className="bg-white w-full max-w-lg rounded-[3rem] p-10 space-y-6 shadow-3xl animate-in zoom-in-95 border border-slate-100">
+              <div className="flex justify-between items-center">
+                 <div className="flex items-center gap-3">
+                    <div className="p-2.5 bg-indigo-600 rounded-xl text-white shadow-lg"><Wallet size={20}/></div>
+                    <div>
+                       <h3 className="font-black text-slate-900 uppercase text-xs">Take Payment</h3>
+                       <p className="text-[10px] font-black text-slate-400 uppercase">Amount Due {formatCurrency(total)}</p>
+                    </div>
+                 </div>
+                 <button onClick={() => setTenderOpen(false)} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={20}/></button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                 {PAYMENT_METHODS.map(m => (
+                   <button 
+                     key={m.id} 
+                     onClick={() => setTenderMethod(m.id)} 
+                     className={`px-4 py-2 rounded-full text-[10px] font-black uppercase transition-all ${tenderMethod === m.id ? 'bg-indigo-600 text-white shadow-md' : 'bg-white border border-slate-200 text-slate-500 hover:border-indigo-300'}`}
+                   >
+                     {m.label}
+                   </button>
+                 ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                 <input 
+                   type="number" 
+                   value={tenderAmount} 
+                   onChange={e => setTenderAmount(e.target.value)} 
+                   placeholder="0.00" 
+                   className={`bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-50 ${requiresReference(tenderMethod) ? '' : 'col-span-2'}`} 
+                 />
+                 {requiresReference(tenderMethod) && (
+                   <input 
+                     value={tenderRef} 
+                     onChange={e => setTenderRef(e.target.value)} 
+                     placeholder="Reference No." 
+                     className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono font-bold outline-none focus:ring-4 focus:ring-indigo-50" 
+                   />
+                 )}
+              </div>
+              <button onClick={addTender} className="w-full py-3 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl font-black text-[10px] uppercase flex items-center justify-center gap-2 hover:bg-indigo-100 transition-all">
+                 <Plus size={14}/> Add {tenderMethod} Payment
+              </button>
+
+              {tenders.length > 0 && (
+                <div className="space-y-2">
+                   {tenders.map(t => (
+                     <div key={t.id} className="flex items-center justify-between px-4 py-3 bg-slate-50 rounded-xl text-xs font-bold">
+                        <span className="uppercase text-slate-600">{t.method}{t.reference && <span className="font-mono text-slate-400 ml-2">#{t.reference}</span>}</span>
+                        <div className="flex items-center gap-3">
+                           <span className="text-slate-900">{formatCurrency(t.amount)}</span>
+                           <button onClick={() => removeTender(t.id)} className="text-slate-300 hover:text-rose-600 transition-colors"><Trash2 size={14}/></button>
+                        </div>
+                     </div>
+                   ))}
+                </div>
+              )}
+
+              <div className="p-5 bg-slate-50 rounded-2xl border border-slate-100 space-y-2 text-xs font-black uppercase">
+                 <div className="flex justify-between text-slate-500"><span>Paid</span><span>{formatCurrency(settlement.paid)}</span></div>
+                 <div className="flex justify-between text-rose-600"><span>Balance</span><span>{formatCurrency(settlement.balance)}</span></div>
+                 <div className="flex justify-between text-emerald-600"><span>Change</span><span>{formatCurrency(settlement.change)}</span></div>
+                 {settlement.error && <p className="text-[10px] text-rose-600 normal-case font-bold pt-2">{settlement.error}</p>}
+              </div>
+
+              <button 
+                disabled={tenders.length === 0 || !!settlement.error || settlement.balance > 0} 
+                onClick={handlePayment} 
+                className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-5 rounded-3xl shadow-xl shadow-indigo-100 transition-all active:scale-95 disabled:opacity-30 disabled:grayscale uppercase tracking-widest text-[11px] flex items-center justify-center gap-3"
+              >
+                <Receipt size={18}/> Complete Sale
+              </button>
+           </div>
+        </div>
+      )}
+
       {/* Success Modal */}
       {paymentDone && (
         <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
@@ -221,11 +718,31 @@ export const POS: React.FC<POSProps> = ({ products, operatorName, onTransactionC
                     <div>
                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Amount Received</p>
                        <p className="text-xl font-black text-slate-900">{formatCurrency(total)}</p>
+                       {lastOrder && <p className="text-[10px] font-mono font-bold text-slate-400">{lastOrder.receiptNo || lastOrder.id}</p>}
                     </div>
                     <Receipt size={32} className="text-slate-200" />
                  </div>
+                 {lastPayments.length > 0 && (
+                   <div className="space-y-2 text-left">
+                      {lastPayments.map((p, idx) => (
+                        <div key={idx} className="flex justify-between items-center px-6 py-3 bg-white border border-slate-100 rounded-xl text-xs font-bold">
+                           <span className="uppercase text-slate-500">{p.method}{p.reference && <span className="font-mono text-slate-400 ml-2">#{p.reference}</span>}</span>
+                           <span className="text-slate-900">{formatCurrency(p.tendered ?? p.amount)}</span>
+                        </div>
+                      ))}
+                      {lastPayments.some(p => (p.change || 0) > 0) && (
+                        <div className="flex justify-between items-center px-6 py-3 bg-emerald-50 border border-emerald-100 rounded-xl text-xs font-black text-emerald-700 uppercase">
+                           <span>Change</span>
+                           <span>{formatCurrency(lastPayments.reduce((s, p) => s + (p.change || 0), 0))}</span>
+                        </div>
+                      )}
+                   </div>
+                 )}
               </div>
               <div className="grid grid-cols-1 gap-3 pt-4">
+                 {lastOrder && (
+                   <button onClick={() => setReceiptOpen(true)} className="w-full py-4 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black text-xs uppercase tracking-widest flex items-center justify-center gap-2 hover:text-indigo-600 transition-all"><Printer size={16}/> Print Receipt</button>
+                 )}
                  <button onClick={startFresh} className="w-full py-5 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-indigo-100 transition-all active:scale-95">Next Customer</button>
                  <button onClick={startFresh} className="w-full py-4 text-slate-400 font-bold text-[10px] uppercase hover:text-slate-600 transition-colors">Close & Clear</button>
               </div>
@@ -0,0 +1,175 @@
+
+import React, { useState, useMemo } from 'react';
+import { X, Upload, FileSpreadsheet, Loader2, ArrowRight, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Product } from '../types';
+import { ColumnMapping, ImportAction, PRODUCT_FIELDS, SheetData, guessMapping, previewImport, readSheet } from '../services/importService';
+
+interface ProductImportProps {
+  products: Product[];
+  categories: string[];
+  onCommit: (items: Product[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  update: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  unchanged: 'bg-slate-50 text-slate-400 border-slate-100',
+  error: 'bg-rose-50 text-rose-600 border-rose-100'
+};
+
+const selectCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none cursor-pointer";
+
+export const ProductImport: React.FC<ProductImportProps> = ({ products, categories, onCommit, onClose }) => {
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const preview = useMemo(
+    () => step === 'preview' && sheet ? previewImport(sheet, mapping, products, categories) : [],
+    [step, sheet, mapping, products, categories]
+  );
+  const counts = useMemo(() => preview.reduce<Record<ImportAction, number>>(
+    (acc, r) => ({ ...acc, [r.action]: acc[r.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, error: 0 }
+  ), [preview]);
+  const toCommit = preview.filter(r => r.action === 'create' || r.action === 'update');
+  const missingRequired = PRODUCT_FIELDS.filter(f => f.required && mapping[f.key] === undefined);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const data = await readSheet(file);
+      if (data.rows.length === 0) throw new Error('That file has column names but no rows.');
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep('map');
+    } catch (e: any) {
+      alert(e.message || "That file couldn't be read. Save it as CSV or XLSX and try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (toCommit.length === 0) return;
+    if (counts.error > 0 && !window.confirm(`${counts.error} row(s) have problems and will be skipped. Import the other ${toCommit.length}?`)) return;
+    setBusy(true);
+    try {
+      await onCommit(toCommit.map(r => r.product!));
+      alert(`${counts.create} item(s) added and ${counts.update} updated.`);
+      onClose();
+    } catch (e: any) {
+      alert(e.message || 'The import could not be saved. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in" onClick={() => !busy && onClose()} />
+      <div className="relative bg-white w-full max-w-5xl max-h-[90vh] rounded-[3rem] shadow-3xl overflow-hidden flex flex-col animate-in zoom-in-95">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><FileSpreadsheet size={24}/></div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900">Import Items</h3>
+              <p className="text-[10px] font-black uppercase text-slate-400">{fileName ? `${fileName} · ${sheet?.rows.length} rows` : 'CSV or Excel, one item per row'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1">
+          {step === 'file' && (
+            <label className="border-2 border-dashed border-slate-200 rounded-[2.5rem] p-16 flex flex-col items-center justify-center gap-4 text-slate-400 hover:border-indigo-300 hover:text-indigo-600 cursor-pointer transition-all">
+              {busy ? <Loader2 size={40} className="animate-spin"/> : <Upload size={40}/>}
+              <span className="font-black text-[10px] uppercase tracking-widest">Choose a .csv, .xls or .xlsx file</span>
+              <span className="text-xs font-medium text-slate-400">Items are matched to your shop by SKU. Existing SKUs are updated, new ones are added.</span>
+              <input type="file" accept=".csv,.xls,.xlsx" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+            </label>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {PRODUCT_FIELDS.map(f => (
+                <div key={f.key} className="flex items-center gap-3">
+                  <span className="w-32 shrink-0 text-[10px] font-black uppercase text-slate-500">{f.label}{f.required && <span className="text-rose-500"> *</span>}</span>
+                  <select
+                    value={mapping[f.key] ?? ''}
+                    onChange={e => setMapping({ ...mapping, [f.key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={selectCls}
+                  >
+                    <option value="">Don't import</option>
+                    {sheet.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}{sheet.rows[0]?.[i] ? ` (e.g. ${sheet.rows[0][i]})` : ''}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center gap-3">
+                {(Object.keys(counts) as ImportAction[]).map(a => (
+                  <span key={a} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase border ${ACTION_STYLES[a]}`}>{counts[a]} {a === 'error' ? 'with problems' : a}</span>
+                ))}
+                <label className="ml-auto flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={problemsOnly} onChange={e => setProblemsOnly(e.target.checked)} className="w-4 h-4 accent-indigo-600" /> Only rows with problems
+                </label>
+              </div>
+              <table className="w-full text-left text-xs">
+                <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                  <tr><th className="py-2 w-14">Row</th><th className="py-2 w-28">Result</th><th className="py-2">Item</th><th className="py-2">Details</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {preview.filter(r => !problemsOnly || r.action === 'error').map(r => (
+                    <tr key={r.rowNumber} className="align-top">
+                      <td className="py-3 font-mono text-slate-400">{r.rowNumber}</td>
+                      <td className="py-3"><span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase border ${ACTION_STYLES[r.action]}`}>{r.action}</span></td>
+                      <td className="py-3">
+                        <p className="font-bold text-slate-900">{r.name || '—'}</p>
+                        <p className="font-mono text-[10px] text-slate-400">{r.sku}</p>
+                      </td>
+                      <td className="py-3 space-y-1">
+                        {r.errors.map((e, i) => <p key={i} className="text-rose-600 font-bold flex items-center gap-1"><AlertCircle size={12}/> {e}</p>)}
+                        {r.changes.map(c => (
+                          <p key={c.field} className="text-slate-600"><span className="font-black text-[10px] uppercase text-slate-400">{c.field}</span> <span className="line-through text-slate-400">{c.from || 'blank'}</span> → <span className="font-bold">{c.to}</span></p>
+                        ))}
+                        {r.action === 'create' && <p className="text-emerald-600 font-bold flex items-center gap-1"><CheckCircle2 size={12}/> New item</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {step !== 'file' && (
+          <div className="p-6 border-t border-slate-100 flex justify-between gap-2">
+            <button onClick={() => setStep(step === 'preview' ? 'map' : 'file')} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase hover:bg-slate-50">Back</button>
+            {step === 'map' ? (
+              <button
+                onClick={() => missingRequired.length > 0 ? alert(`Match a column to ${missingRequired.map(f => f.label).join(', ')} first.`) : setStep('preview')}
+                className="px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-indigo-100"
+              >
+                Check Rows <ArrowRight size={14}/>
+              </button>
+            ) : (
+              <button onClick={handleCommit} disabled={busy || toCommit.length === 0} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-indigo-100 disabled:opacity-30">
+                {busy && <Loader2 size={14} className="animate-spin"/>} Import {toCommit.length} Item{toCommit.length === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+
+import React, { useState, useMemo } from 'react';
+import { X, Plus, Trash2, Send, Printer, FileSpreadsheet, PackageCheck, Ban, ClipboardList } from 'lucide-react';
+import { Product, PurchaseOrder, Supplier } from '../types';
+import { formatCurrency } from '../constants';
+import { ReceiptBusiness, printService } from '../services/printService';
+import { downloadCsv } from '../services/journalService';
+import {
+  PO_STATUS_LABELS, ReceiveEntry, isOutstanding, lineFor, lineKey, outstandingQty, poTotal,
+  purchaseOrderToCsv, renderPurchaseOrderHtml, validatePurchaseOrder
+} from '../services/purchaseOrderService';
+import { isBundle } from '../services/bundleService';
+
+interface PurchaseOrderModalProps {
+  po: PurchaseOrder;
+  suppliers: Supplier[];
+  products: Product[];
+  business: ReceiptBusiness;
+  onSave: (po: PurchaseOrder) => Promise<void>;
+  onReceive: (po: PurchaseOrder, entries: Record<string, ReceiveEntry>) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const PurchaseOrderModal: React.FC<PurchaseOrderModalProps> = ({ po, suppliers, products, business, onSave, onReceive, onClose }) => {
+  const [draft, setDraft] = useState<PurchaseOrder>(po);
+  const [pickProduct, setPickProduct] = useState('');
+  const [pickVariant, setPickVariant] = useState('');
+  const [busy, setBusy] = useState(false);
+  // Receiving defaults to everything still outstanding at the last agreed cost
+  const [entries, setEntries] = useState<Record<string, ReceiveEntry>>(() =>
+    Object.fromEntries(po.lines.map(l => [lineKey(l), { quantity: outstandingQty(l), unitCost: l.unitCost }]))
+  );
+
+  const editable = draft.status === 'DRAFT';
+  const supplier = suppliers.find(s => s.id === draft.supplierId);
+  const picked = products.find(p => p.id === pickProduct);
+  const receiving = isOutstanding(draft);
+
+  const receiveTotal = useMemo(
+    () => draft.lines.reduce((s, l) => s + (entries[lineKey(l)]?.quantity || 0) * (entries[lineKey(l)]?.unitCost || 0), 0),
+    [draft.lines, entries]
+  );
+
+  const setLine = (key: string, patch: Partial<PurchaseOrder['lines'][number]>) =>
+    setDraft(prev => ({ ...prev, lines: prev.lines.map(l => lineKey(l) === key ? { ...l, ...patch } : l) }));
+
+  const addLine = () => {
+    if (!picked) return;
+    if (picked.variants?.length && !pickVariant) return alert('Choose which variant to order.');
+    const line = lineFor(picked, pickVariant || undefined);
+    if (draft.lines.some(l => lineKey(l) === lineKey(line))) return alert('That item is already on this order.');
+    setDraft(prev => ({ ...prev, lines: [...prev.lines, line] }));
+    setPickProduct('');
+    setPickVariant('');
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+      onClose();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveAs = (status: PurchaseOrder['status']) => run(async () => {
+    if (status === 'SENT') {
+      const problem = validatePurchaseOrder(draft);
+      if (problem) throw new Error(problem);
+    }
+    await onSave({
+      ...draft,
+      status,
+      sentAt: status === 'SENT' ? new Date().toISOString() : draft.sentAt,
+      closedAt: status === 'CANCELLED' ? new Date().toISOString() : draft.closedAt
+    });
+  });
+
+  const handleCancelOrder = () => {
+    const message = draft.status === 'PARTIALLY_RECEIVED'
+      ? 'Cancel the rest of this order? Goods already received stay in stock.'
+      : 'Cancel this purchase order?';
+    if (window.confirm(message)) saveAs('CANCELLED');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in" onClick={() => !busy && onClose()} />
+      <div className="relative bg-white w-full max-w-4xl max-h-[90vh] rounded-[3rem] shadow-3xl overflow-hidden flex flex-col animate-in zoom-in-95">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><ClipboardList size={24}/></div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900">{draft.poNumber}</h3>
+              <p className="text-[10px] font-black uppercase text-slate-400">{PO_STATUS_LABELS[draft.status]} · {supplier?.name || 'No supplier'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1 space-y-6">
+          {editable && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Supplier</label>
+                <select value={draft.supplierId} onChange={e => setDraft({ ...draft, supplierId: e.target.value })} className={inputCls}>
+                  <option value="">Choose supplier</option>
+                  {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Expected Delivery</label>
+                <input type="date" value={draft.expectedAt?.slice(0, 10) || ''} onChange={e => setDraft({ ...draft, expectedAt: e.target.value || undefined })} className={inputCls} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Notes</label>
+                <input value={draft.notes || ''} onChange={e => setDraft({ ...draft, notes: e.target.value || undefined })} className={inputCls} placeholder="Delivery instructions" />
+              </div>
+            </div>
+          )}
+
+          <table className="w-full text-xs">
+            <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <tr>
+                <th className="text-left py-2">Item</th>
+                <th className="text-right py-2 w-24">Ordered</th>
+                {!editable && <th className="text-right py-2 w-24">Received</th>}
+                <th className="text-right py-2 w-28">Unit Cost</th>
+                <th className="text-right py-2 w-28">Amount</th>
+                {receiving && <th className="text-right py-2 w-24">Receive Now</th>}
+                {receiving && <th className="text-right py-2 w-28">Actual Cost</th>}
+                {editable && <th className="w-10"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {draft.lines.map(l => {
+                const key = lineKey(l);
+                return (
+                  <tr key={key}>
+                    <td className="py-2 pr-2">
+                      <p className="font-bold text-slate-800">{l.name}</p>
+                      <p className="font-mono text-[10px] text-slate-400">{l.sku}</p>
+                      {receiving && outstandingQty(l) > 0 && products.find(p => p.id === l.productId)?.tracksExpiry && (
+                        <div className="flex gap-1 mt-1">
+                          <input type="date" title="Expiry date" value={entries[key]?.expiresAt || ''} onChange={e => setEntries({ ...entries, [key]: { ...entries[key], expiresAt: e.target.value || undefined } })} className={`${inputCls} max-w-[9rem]`} />
+                          <input placeholder="Lot no." value={entries[key]?.lotNumber || ''} onChange={e => setEntries({ ...entries, [key]: { ...entries[key], lotNumber: e.target.value } })} className={`${inputCls} max-w-[7rem]`} />
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {editable
+                        ? <input type="number" min={1} value={l.quantityOrdered} onChange={e => setLine(key, { quantityOrdered: parseInt(e.target.value) || 0 })} className={`${inputCls} text-right`} />
+                        : <span className="font-bold">{l.quantityOrdered}</span>}
+                    </td>
+                    {!editable && <td className="py-2 text-right font-bold text-emerald-600">{l.quantityReceived}</td>}
+                    <td className="py-2 text-right">
+                      {editable
+                        ? <input type="number" min={0} step="0.01" value={l.unitCost} onChange={e => setLine(key, { unitCost: parseFloat(e.target.value) || 0 })} className={`${inputCls} text-right`} />
+                        : <span className="font-bold">{formatCurrency(l.unitCost)}</span>}
+                    </td>
+                    <td className="py-2 text-right font-black text-slate-900">{formatCurrency(l.quantityOrdered * l.unitCost)}</td>
+                    {receiving && (
+                      <td className="py-2 pl-2">
+                        <input type="number" min={0} max={outstandingQty(l)} disabled={outstandingQty(l) === 0} value={entries[key]?.quantity ?? 0} onChange={e => setEntries({ ...entries, [key]: { ...entries[key], quantity: parseInt(e.target.value) || 0 } })} className={`${inputCls} text-right`} />
+                      </td>
+                    )}
+                    {receiving && (
+                      <td className="py-2 pl-2">
+                        <input type="number" min={0} step="0.01" disabled={outstandingQty(l) === 0} value={entries[key]?.unitCost ?? l.unitCost} onChange={e => setEntries({ ...entries, [key]: { ...entries[key], unitCost: parseFloat(e.target.value) || 0 } })} className={`${inputCls} text-right`} />
+                      </td>
+                    )}
+                    {editable && (
+                      <td className="py-2 text-right">
+                        <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter(x => lineKey(x) !== key) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              {draft.lines.length === 0 && (
+                <tr><td colSpan={6} className="py-10 text-center text-slate-300 italic">No items on this order yet.</td></tr>
+              )}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={editable ? 3 : 4} className="py-3 text-right text-[10px] font-black uppercase text-slate-400">Order Total</td>
+                <td className="py-3 text-right font-black text-slate-900">{formatCurrency(poTotal(draft))}</td>
+                {receiving && <td colSpan={2} className="py-3 text-right font-black text-emerald-600">{formatCurrency(receiveTotal)}</td>}
+              </tr>
+            </tfoot>
+          </table>
+
+          {editable && (
+            <div className="flex gap-2">
+              <select value={pickProduct} onChange={e => { setPickProduct(e.target.value); setPickVariant(''); }} className={inputCls}>
+                <option value="">Add an item…</option>
+                {products.filter(p => !isBundle(p)).map(p => <option key={p.id} value={p.id}>{p.name} · {p.sku}</option>)}
+              </select>
+              {picked?.variants?.length ? (
+                <select value={pickVariant} onChange={e => setPickVariant(e.target.value)} className={`${inputCls} max-w-[12rem]`}>
+                  <option value="">Variant</option>
+                  {picked.variants.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                </select>
+              ) : null}
+              <button onClick={addLine} disabled={!picked} className="px-4 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase flex items-center gap-1 disabled:opacity-30"><Plus size={14}/> Add</button>
+            </div>
+          )}
+
+          {draft.receipts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase">Deliveries</p>
+              {draft.receipts.map(r => (
+                <div key={r.id} className="flex justify-between text-xs bg-slate-50 border border-slate-100 rounded-xl px-4 py-2">
+                  <span className="font-bold text-slate-700">{new Date(r.receivedAt).toLocaleString()}{r.userName && ` · ${r.userName}`}</span>
+                  <span className="font-black text-slate-900">{r.lines.reduce((s, l) => s + l.quantity, 0)} units · {formatCurrency(r.lines.reduce((s, l) => s + l.quantity * l.unitCost, 0))}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex flex-wrap gap-2 justify-between">
+          <div className="flex gap-2">
+            <button onClick={() => printService.printHtml(renderPurchaseOrderHtml(draft, supplier, business))} className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-slate-50"><Printer size={14}/> Print</button>
+            <button onClick={() => downloadCsv(purchaseOrderToCsv(draft, supplier), `${draft.poNumber}.csv`)} className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-slate-50"><FileSpreadsheet size={14}/> CSV</button>
+          </div>
+          <div className="flex gap-2">
+            {(editable || receiving) && (
+              <button onClick={handleCancelOrder} disabled={busy} className="px-4 py-3 text-rose-600 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-rose-50 disabled:opacity-30"><Ban size={14}/> Cancel Order</button>
+            )}
+            {editable && (
+              <>
+                <button onClick={() => saveAs('DRAFT')} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase hover:bg-slate-50 disabled:opacity-30">Save Draft</button>
+                <button onClick={() => saveAs('SENT')} disabled={busy} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-indigo-100 disabled:opacity-30"><Send size={14}/> Mark as Sent</button>
+              </>
+            )}
+            {receiving && (
+              <button onClick={() => run(() => onReceive(draft, entries))} disabled={busy} className="px-6 py-3 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-emerald-100 disabled:opacity-30"><PackageCheck size={14}/> Post Receipt</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+
+import React, { useState, useMemo } from 'react';
+import { Plus, Truck, Edit3, X, ClipboardList, Phone, Mail } from 'lucide-react';
+import { Product, PurchaseOrder, PurchaseOrderStatus, Supplier } from '../types';
+import { formatCurrency } from '../constants';
+import { ReceiptBusiness } from '../services/printService';
+import { PO_STATUS_LABELS, ReceiveEntry, isOutstanding, newPurchaseOrder, outstandingValue, poTotal } from '../services/purchaseOrderService';
+import { PurchaseOrderModal } from './PurchaseOrderModal';
+
+interface PurchasingProps {
+  suppliers: Supplier[];
+  products: Product[];
+  purchaseOrders: PurchaseOrder[];
+  business: ReceiptBusiness;
+  onSaveSupplier: (s: Supplier) => Promise<void>;
+  onSavePurchaseOrder: (po: PurchaseOrder) => Promise<void>;
+  onReceivePurchaseOrder: (po: PurchaseOrder, entries: Record<string, ReceiveEntry>) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600 border-slate-200',
+  SENT: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  PARTIALLY_RECEIVED: 'bg-amber-50 text-amber-600 border-amber-100',
+  RECEIVED: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  CANCELLED: 'bg-rose-50 text-rose-500 border-rose-100'
+};
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const Purchasing: React.FC<PurchasingProps> = ({
+  suppliers, products, purchaseOrders, business, onSaveSupplier, onSavePurchaseOrder, onReceivePurchaseOrder
+}) => {
+  const [supplierFilter, setSupplierFilter] = useState<string>('');
+  const [openPo, setOpenPo] = useState<PurchaseOrder | null>(null);
+  const [editingSupplier, setEditingSupplier] = useState<Partial<Supplier> | null>(null);
+
+  const outstandingBySupplier = useMemo(() => {
+    const totals: Record<string, { count: number; value: number }> = {};
+    purchaseOrders.filter(isOutstanding).forEach(po => {
+      const t = totals[po.supplierId] || (totals[po.supplierId] = { count: 0, value: 0 });
+      t.count += 1;
+      t.value += outstandingValue(po);
+    });
+    return totals;
+  }, [purchaseOrders]);
+
+  const visible = useMemo(
+    () => supplierFilter ? purchaseOrders.filter(po => po.supplierId === supplierFilter) : purchaseOrders,
+    [purchaseOrders, supplierFilter]
+  );
+
+  const handleSaveSupplier = async () => {
+    if (!editingSupplier?.name?.trim()) return alert('Please enter the supplier name.');
+    await onSaveSupplier({
+      contactPerson: '', email: '', phone: '', address: '',
+      ...editingSupplier,
+      name: editingSupplier.name.trim(),
+      id: editingSupplier.id || `SUP-${Date.now()}`
+    } as Supplier);
+    setEditingSupplier(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {suppliers.map(s => {
+          const open = outstandingBySupplier[s.id];
+          return (
+            <div key={s.id} className={`bg-white border rounded-[2.5rem] p-8 shadow-sm space-y-4 transition-all ${supplierFilter === s.id ? 'border-indigo-400 ring-4 ring-indigo-50' : 'border-slate-200'}`}>
+              <div className="flex justify-between items-start">
+                <button onClick={() => setSupplierFilter(supplierFilter === s.id ? '' : s.id)} className="flex items-center gap-4 text-left">
+                  <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><Truck size={22}/></div>
+                  <div>
+                    <h4 className="font-black text-slate-900">{s.name}</h4>
+                    <p className="text-[10px] font-bold text-slate-400">{s.contactPerson || 'No contact person'}</p>
+                  </div>
+                </button>
+                <button onClick={() => setEditingSupplier({ ...s })} className="p-2 text-slate-300 hover:text-indigo-600"><Edit3 size={16}/></button>
+              </div>
+              <div className="text-[11px] font-bold text-slate-500 space-y-1">
+                {s.phone && <p className="flex items-center gap-2"><Phone size={12}/> {s.phone}</p>}
+                {s.email && <p className="flex items-center gap-2"><Mail size={12}/> {s.email}</p>}
+              </div>
+              <div className="flex justify-between items-center pt-4 border-t border-slate-100">
+                <div>
+                  <p className="text-[9px] font-black uppercase text-slate-400">Outstanding</p>
+                  <p className="text-sm font-black text-slate-900">{open ? `${open.count} PO · ${formatCurrency(open.value)}` : 'None'}</p>
+                </div>
+                <button onClick={() => setOpenPo(newPurchaseOrder(s.id, purchaseOrders))} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-1 shadow-lg shadow-indigo-100"><Plus size={12}/> New PO</button>
+              </div>
+            </div>
+          );
+        })}
+        <button onClick={() => setEditingSupplier({})} className="border-2 border-dashed border-slate-200 rounded-[2.5rem] p-8 text-slate-400 hover:text-indigo-600 hover:border-indigo-300 flex flex-col items-center justify-center gap-2 font-black text-[10px] uppercase transition-all min-h-[12rem]">
+          <Plus size={24}/> Add Supplier
+        </button>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2"><ClipboardList size={20}/> Purchase Orders</h3>
+          {supplierFilter && (
+            <button onClick={() => setSupplierFilter('')} className="text-[10px] font-black uppercase text-indigo-600 flex items-center gap-1"><X size={12}/> {suppliers.find(s => s.id === supplierFilter)?.name}</button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <tr>
+                <th className="px-8 py-4">PO Number</th>
+                <th className="px-8 py-4">Supplier</th>
+                <th className="px-8 py-4">Status</th>
+                <th className="px-8 py-4">Raised</th>
+                <th className="px-8 py-4 text-right">Total</th>
+                <th className="px-8 py-4 text-right">Outstanding</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {visible.map(po => (
+                <tr key={po.id} onClick={() => setOpenPo(po)} className="hover:bg-indigo-50/40 cursor-pointer transition-all">
+                  <td className="px-8 py-4 font-mono font-bold text-slate-900">{po.poNumber}</td>
+                  <td className="px-8 py-4 font-bold text-slate-700">{suppliers.find(s => s.id === po.supplierId)?.name || '—'}</td>
+                  <td className="px-8 py-4">
+                    <span className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border ${STATUS_STYLES[po.status]}`}>{PO_STATUS_LABELS[po.status]}</span>
+                  </td>
+                  <td className="px-8 py-4 text-sm text-slate-500">{new Date(po.createdAt).toLocaleDateString()}</td>
+                  <td className="px-8 py-4 text-right font-black text-slate-900">{formatCurrency(poTotal(po))}</td>
+                  <td className="px-8 py-4 text-right font-bold text-amber-600">{isOutstanding(po) ? formatCurrency(outstandingValue(po)) : '—'}</td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr><td colSpan={6} className="p-16 text-center text-slate-300 italic">No purchase orders yet. Start one from a supplier card.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {openPo && (
+        <PurchaseOrderModal
+          po={openPo}
+          suppliers={suppliers}
+          products={products}
+          business={business}
+          onSave={onSavePurchaseOrder}
+          onReceive={onReceivePurchaseOrder}
+          onClose={() => setOpenPo(null)}
+        />
+      )}
+
+      {editingSupplier && (
+        <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={() => setEditingSupplier(null)} />
+          <div className="relative bg-white rounded-[2.5rem] p-10 max-w-md w-full space-y-4 shadow-3xl animate-in zoom-in-95">
+            <h3 className="text-xl font-black text-slate-900">{editingSupplier.id ? 'Edit Supplier' : 'New Supplier'}</h3>
+            <input value={editingSupplier.name || ''} onChange={e => setEditingSupplier({ ...editingSupplier, name: e.target.value })} className={inputCls} placeholder="Supplier name" />
+            <input value={editingSupplier.contactPerson || ''} onChange={e => setEditingSupplier({ ...editingSupplier, contactPerson: e.target.value })} className={inputCls} placeholder="Contact person" />
+            <input value={editingSupplier.phone || ''} onChange={e => setEditingSupplier({ ...editingSupplier, phone: e.target.value })} className={inputCls} placeholder="Phone" />
+            <input value={editingSupplier.email || ''} onChange={e => setEditingSupplier({ ...editingSupplier, email: e.target.value })} className={inputCls} placeholder="Email" />
+            <input value={editingSupplier.address || ''} onChange={e => setEditingSupplier({ ...editingSupplier, address: e.target.value })} className={inputCls} placeholder="Address" />
+            <div className="flex gap-2 pt-2">
+              <button onClick={() => setEditingSupplier(null)} className="flex-1 py-4 bg-white border border-slate-200 rounded-2xl font-black text-[10px] uppercase">Cancel</button>
+              <button onClick={handleSaveSupplier} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase shadow-xl shadow-indigo-100">Save Supplier</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+
+import React, { useMemo, useState } from 'react';
+import { Printer, X, Usb, Loader2 } from 'lucide-react';
+import { Order } from '../types';
+import { printService, ReceiptBusiness, renderEscPos, renderHtml, renderText } from '../services/printService';
+
+interface ReceiptModalProps {
+  order: Order;
+  business: ReceiptBusiness;
+  reprint?: boolean;
+  onClose: () => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ order, business, reprint = false, onClose }) => {
+  const [isSending, setIsSending] = useState(false);
+  const preview = useMemo(() => renderText(order, business, reprint), [order, business, reprint]);
+
+  const handleBrowserPrint = () => {
+    try {
+      printService.printHtml(renderHtml(order, business, reprint));
+    } catch (e: any) {
+      alert(e.message || "The receipt couldn't be printed.");
+    }
+  };
+
+  const handleThermalPrint = async () => {
+    setIsSending(true);
+    try {
+      await printService.printEscPos(renderEscPos(order, business, reprint));
+    } catch (e: any) {
+      alert(e.message || "The receipt printer didn't respond. Check that it's plugged in and switched on.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1100] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md max-h-[90vh] rounded-[2.5rem] p-8 space-y-5 shadow-3xl animate-in zoom-in-95 flex flex-col">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-black text-slate-900">{reprint ? 'Reprint Receipt' : 'Print Receipt'}</h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+        </div>
+        <pre className="flex-1 overflow-auto bg-slate-50 border border-slate-100 rounded-2xl p-4 text-[10px] leading-snug font-mono text-slate-700 whitespace-pre">{preview}</pre>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={handleBrowserPrint} className="py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-100 flex items-center justify-center gap-2"><Printer size={16}/> Print</button>
+          <button disabled={isSending} onClick={handleThermalPrint} className="py-4 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black text-[10px] uppercase tracking-widest flex items-center justify-center gap-2 hover:text-indigo-600 disabled:opacity-30">
+            {isSending ? <Loader2 size={16} className="animate-spin"/> : <Usb size={16}/>} Thermal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
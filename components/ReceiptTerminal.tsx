@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Monitor, Loader2 } from 'lucide-react';
+import { getTerminalId, receiptService } from '../services/receiptService';
+
+interface ReceiptTerminalProps {
+  businessId: string;
+}
+
+export const ReceiptTerminal: React.FC<ReceiptTerminalProps> = ({ businessId }) => {
+  const [code, setCode] = useState(getTerminalId());
+  const [claimCode, setClaimCode] = useState('');
+  const [claimSecret, setClaimSecret] = useState('');
+  const [releaseCode, setReleaseCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setCode(getTerminalId());
+    } catch (e: any) {
+      alert(e.message || "We couldn't reach the cloud. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClaim = () => {
+    if (!claimCode.trim() || !claimSecret.trim()) return;
+    if (!window.confirm(`Make this device terminal ${claimCode.trim().toUpperCase()}?`)) return;
+    run(() => receiptService.claim(claimCode, claimSecret, businessId)).then(() => { setClaimCode(''); setClaimSecret(''); });
+  };
+
+  const handleRelease = () => {
+    const target = releaseCode.trim().toUpperCase();
+    if (!target) return;
+    if (!window.confirm(`Release terminal ${target}? Only do this if its device was wiped or retired; it won't be able to reserve receipt numbers again.`)) return;
+    run(async () => {
+      const secret = await receiptService.release(target);
+      alert(`Terminal ${target} is released. On the replacement device, reconnect as ${target} with the claim secret ${secret} within 24 hours.`);
+      setReleaseCode('');
+    });
+  };
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-[3rem] p-10 shadow-sm">
+      <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 mb-2 flex items-center gap-3">
+        <Monitor size={16} className="text-indigo-500" /> Receipt Terminal
+      </h3>
+      <p className="text-xs text-slate-500 mb-8">Every receipt number carries this code. Numbers come from blocks the cloud reserves for the terminal, so it can keep selling offline.</p>
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl font-black text-slate-900">{code || 'Not registered'}</span>
+        {!code && (
+          <button onClick={() => run(() => receiptService.restore(businessId))} disabled={busy} className="px-4 py-3 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+            {busy && <Loader2 size={12} className="animate-spin"/>} Register
+          </button>
+        )}
+        <div className="flex gap-2 ml-auto">
+          <input value={claimCode} onChange={e => setClaimCode(e.target.value)} placeholder="Reconnect as code…" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+          <input value={claimSecret} onChange={e => setClaimSecret(e.target.value)} placeholder="Claim secret…" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+          <button onClick={handleClaim} disabled={busy || !claimCode.trim() || !claimSecret.trim()} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">Reconnect</button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-6">
+        <p className="text-xs text-slate-500 mr-auto">Replacing a wiped or lost device? Release its terminal here to get the secret it reconnects with.</p>
+        <input value={releaseCode} onChange={e => setReleaseCode(e.target.value)} placeholder="Terminal code…" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+        <button onClick={handleRelease} disabled={busy || !code || !releaseCode.trim()} className="px-4 py-2 bg-white border border-rose-200 text-rose-600 rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50">Release</button>
+      </div>
+    </section>
+  );
+};
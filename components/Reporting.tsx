@@ -2,21 +2,43 @@
 import React, { useState, useMemo } from 'react';
 import { BarChart3, Download, Calendar, TrendingUp, DollarSign, ShoppingBag, PieChart as PieIcon, ArrowUpRight, ArrowDownRight, Filter, Github, Loader2, Package, AlertTriangle, History, ArrowRight, PackageOpen, Layers, X, FileText, FileSpreadsheet, FileJson, Check } from 'lucide-react';
 import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, BarChart, Bar, PieChart, Pie, Cell, Legend } from 'recharts';
-import { Transaction, Product } from '../types';
+import { Business, Order, Product, StockCount, StockMovement } from '../types';
+import { ReceiptModal } from './ReceiptModal';
+import { ReceiptBusiness } from '../services/printService';
 import { formatCurrency } from '../constants';
+import { summarizeByMethod } from '../services/paymentService';
+import { countsTowardSales, isSale } from '../services/orderService';
+import { buildESalesReport, buildSalesJournal, eSalesRowToCsv, E_SALES_HEADERS, SALES_JOURNAL_HEADERS, toCsv, downloadCsv } from '../services/journalService';
+import { isLowStock } from '../services/reorderService';
+import { receiptService } from '../services/receiptService';
+import { expiryLoss } from '../services/lotService';
+import { shrinkageReport } from '../services/stockCountService';
+import { marginReport, valuationReport, valuationRowToCsv, VALUATION_HEADERS, VALUATION_LABELS } from '../services/costingService';
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#0ea5e9', '#ef4444'];
 
-export const Reporting: React.FC<{ transactions: Transaction[], products: Product[] }> = ({ transactions, products }) => {
+export const Reporting: React.FC<{ orders: Order[], products: Product[], movements?: StockMovement[], stockCounts?: StockCount[], business?: Business, receiptBusiness?: ReceiptBusiness }> = ({ orders, products, movements = [], stockCounts = [], business, receiptBusiness }) => {
   const [timeRange, setTimeRange] = useState('7days');
+  const [period, setPeriod] = useState(() => new Date().toISOString().slice(0, 7));
+  const [reprintOrder, setReprintOrder] = useState<Order | null>(null);
   const [activeTab, setActiveTab] = useState('sales');
+  const [marginGroup, setMarginGroup] = useState<'product' | 'category'>('product');
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().slice(0, 10));
+  const method = business?.valuationMethod || 'WEIGHTED_AVERAGE';
 
   const stats = useMemo(() => {
-    const totalRevenue = transactions.reduce((s, t) => t.status === 'Completed' ? s + t.amount : s, 0);
-    const lowStock = products.filter(p => p.stock < 10).length;
-    const inventoryVal = products.reduce((s, p) => s + (p.price * p.stock), 0);
+    const totalRevenue = orders.reduce((s, o) => countsTowardSales(o) ? s + o.total : s, 0);
+    const lowStock = products.filter(isLowStock).length;
+    // At cost, per the business's valuation method, not at retail
+    const inventoryVal = valuationReport(products, movements, method).reduce((s, r) => s + r.value, 0);
     return { totalRevenue, lowStock, inventoryVal };
-  }, [transactions, products]);
+  }, [orders, products, movements, method]);
+
+  // End of the chosen day, so that day's movements are included
+  const valuation = useMemo(
+    () => valuationReport(products, movements, method, new Date(`${asOf}T23:59:59.999`)),
+    [products, movements, method, asOf]
+  );
 
   const salesData = useMemo(() => {
     const days = 7;
@@ -24,39 +46,83 @@ export const Reporting: React.FC<{ transactions: Transaction[], products: Produc
     for (let i = 0; i < days; i++) {
       const d = new Date();
       d.setDate(d.getDate() - (days - 1 - i));
-      const dateStr = d.toISOString().split('T')[0];
-      const daySales = transactions.filter(t => t.date.startsWith(dateStr) && t.status === 'Completed').reduce((s, t) => s + t.amount, 0);
+      const dayKey = d.toDateString();
+      const daySales = orders.filter(o => new Date(o.date).toDateString() === dayKey && countsTowardSales(o)).reduce((s, o) => s + o.total, 0);
       data.push({ name: d.toLocaleDateString(undefined, { weekday: 'short' }), sales: daySales });
     }
     return data;
-  }, [transactions]);
+  }, [orders]);
+
+  const paymentSummary = useMemo(() => summarizeByMethod(orders), [orders]);
 
   const handleExportJournal = () => {
-    if (transactions.length === 0) return;
+    if (orders.length === 0) return;
     
-    // Construct CSV
-    const headers = ["Reference ID", "Date", "Product", "Category", "Amount", "Status", "Payment Method"];
-    const rows = transactions.map(t => [
-      t.id,
-      t.date,
-      t.product,
-      t.category,
-      t.amount,
-      t.status,
-      t.paymentMethod || "Cash"
-    ]);
+    // Construct CSV: one row per order line, keyed by the parent order
+    const headers = ["Reference ID", "Type", "Original Ref", "Date", "Product", "Category", "Quantity", "VATable Sales", "VAT", "VAT-Exempt Sales", "Zero-Rated Sales", "SC/PWD Discount", "Amount", "Status", "Payment Method"];
+    const rows = orders.flatMap(o => o.lines.map(l => [
+      o.receiptNo || o.id,
+      o.kind || "Sale",
+      o.refundOf || "",
+      new Date(o.date).toISOString(),
+      l.productName,
+      l.category,
+      l.quantity,
+      l.vatableSales || 0,
+      l.tax || 0,
+      l.exemptSales || 0,
+      l.zeroRatedSales || 0,
+      l.discount || 0,
+      l.lineTotal,
+      o.status,
+      o.payments.map(p => p.reference ? `${p.method} ${p.reference}` : p.method).join(" + ") || "Cash"
+    ]));
     
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + headers.join(",") + "\n"
-      + rows.map(e => e.join(",")).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `Automate_Ledger_Export_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(toCsv(headers, rows), `Automate_Ledger_Export_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const periodRange = () => {
+    const [y, m] = period.split('-').map(Number);
+    return [new Date(y, m - 1, 1), new Date(y, m, 0, 23, 59, 59, 999)] as const;
+  };
+
+  const margins = useMemo(() => {
+    const [from, to] = periodRange();
+    return marginReport(orders, products, marginGroup, from, to);
+  }, [orders, products, marginGroup, period]);
+
+  const expiryLosses = useMemo(() => {
+    const [from, to] = periodRange();
+    return expiryLoss(movements, products, from, to);
+  }, [movements, products, period]);
+
+  const shrinkage = useMemo(() => {
+    const [from, to] = periodRange();
+    return shrinkageReport(stockCounts, from, to);
+  }, [stockCounts, period]);
+
+  const handleExportSalesJournal = () => {
+    const [from, to] = periodRange();
+    const rows = buildSalesJournal(orders, from, to);
+    if (rows.length === 0) {
+      alert("There are no sales recorded for that month.");
+      return;
+    }
+    downloadCsv(toCsv(SALES_JOURNAL_HEADERS, rows), `Sales_Journal_${period}.csv`);
+  };
+
+  const handleExportValuation = () => {
+    downloadCsv(toCsv(VALUATION_HEADERS, valuation.map(valuationRowToCsv)), `Inventory_Valuation_${asOf}.csv`);
+  };
+
+  const handleExportESales = async () => {
+    const series = business ? await receiptService.series(business.id).catch(() => []) : [];
+    const report = buildESalesReport(orders, period, business?.tin || '', series);
+    if (report.length === 0) {
+      alert("There are no sales recorded for that month.");
+      return;
+    }
+    downloadCsv(toCsv(E_SALES_HEADERS, report.map(eSalesRowToCsv)), `ESales_${business?.tin || 'NO-TIN'}_${period}.csv`);
   };
 
   return (
@@ -90,44 +156,195 @@ export const Reporting: React.FC<{ transactions: Transaction[], products: Produc
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
-          <h3 className="text-lg font-bold text-slate-900 mb-8">Sales Velocity Trend</h3>
-          <div className="h-[320px] w-full">
-            <ResponsiveContainer width="100%" height="100%">
-               <AreaChart data={salesData}>
-                  <defs><linearGradient id="colorSales" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#6366f1" stopOpacity={0.1}/><stop offset="95%" stopColor="#6366f1" stopOpacity={0}/></linearGradient></defs>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
-                  <XAxis dataKey="name" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
-                  <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `₱${v/1000}k`} />
-                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #e2e8f0', borderRadius: '12px', fontSize: '12px' }} />
-                  <Area type="monotone" dataKey="sales" stroke="#6366f1" strokeWidth={3} fillOpacity={1} fill="url(#colorSales)" />
-               </AreaChart>
-            </ResponsiveContainer>
+      {activeTab === 'sales' && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+              <h3 className="text-lg font-bold text-slate-900 mb-8">Sales Velocity Trend</h3>
+              <div className="h-[320px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                   <AreaChart data={salesData}>
+                      <defs><linearGradient id="colorSales" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#6366f1" stopOpacity={0.1}/><stop offset="95%" stopColor="#6366f1" stopOpacity={0}/></linearGradient></defs>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+                      <XAxis dataKey="name" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+                      <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `₱${v/1000}k`} />
+                      <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #e2e8f0', borderRadius: '12px', fontSize: '12px' }} />
+                      <Area type="monotone" dataKey="sales" stroke="#6366f1" strokeWidth={3} fillOpacity={1} fill="url(#colorSales)" />
+                   </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+               <div className="flex justify-between items-center mb-8">
+                 <h3 className="text-lg font-bold text-slate-900">Recent Orders</h3>
+                 <button onClick={handleExportJournal} className="text-xs font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2 hover:text-indigo-800 transition-colors">
+                   <Download size={14}/> Export Journal
+                 </button>
+               </div>
+               <div className="space-y-4">
+                  {orders.slice(0, 5).map(o => (
+                    <div key={o.id} onClick={() => receiptBusiness && setReprintOrder(o)} title="Reprint receipt" className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100 group hover:border-indigo-200 transition-all cursor-pointer">
+                      <div className="flex items-center gap-4">
+                        <div className="w-10 h-10 rounded-xl bg-white border border-slate-200 flex items-center justify-center text-slate-400"><History size={18} /></div>
+                        <div><p className="font-bold text-slate-900 text-sm">{o.lines[0]?.productName || o.id}{o.lines.length > 1 && <span className="text-slate-400 font-medium"> +{o.lines.length - 1} more</span>}</p><p className="text-[10px] text-slate-400 font-bold uppercase">{o.receiptNo && <span className="font-mono mr-2">{o.receiptNo}</span>}{new Date(o.date).toLocaleTimeString()}</p></div>
+                      </div>
+                      <span className={`font-black ${isSale(o) ? 'text-slate-900' : 'text-rose-600'}`}>{isSale(o) ? '' : `${o.kind} `}{formatCurrency(o.total)}</span>
+                    </div>
+                  ))}
+                  {orders.length === 0 && <div className="text-center py-12 text-slate-300 italic">No recent orders.</div>}
+               </div>
+            </div>
           </div>
-        </div>
 
-        <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
-           <div className="flex justify-between items-center mb-8">
-             <h3 className="text-lg font-bold text-slate-900">Recent Transactions</h3>
-             <button onClick={handleExportJournal} className="text-xs font-black text-indigo-600 uppercase tracking-widest flex items-center gap-2 hover:text-indigo-800 transition-colors">
-               <Download size={14}/> Export Journal
-             </button>
-           </div>
-           <div className="space-y-4">
-              {transactions.slice(0, 5).map(t => (
-                <div key={t.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100 group hover:border-indigo-200 transition-all">
-                  <div className="flex items-center gap-4">
-                    <div className="w-10 h-10 rounded-xl bg-white border border-slate-200 flex items-center justify-center text-slate-400"><History size={18} /></div>
-                    <div><p className="font-bold text-slate-900 text-sm">{t.product}</p><p className="text-[10px] text-slate-400 font-bold uppercase">{new Date(t.date).toLocaleTimeString()}</p></div>
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+             <h3 className="text-lg font-bold text-slate-900 mb-8">Payment Reconciliation</h3>
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {paymentSummary.map(row => (
+                  <div key={row.method} className="p-5 bg-slate-50 rounded-2xl border border-slate-100">
+                     <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{row.method}</p>
+                     <p className="text-xl font-black text-slate-900 mt-1">{formatCurrency(row.amount)}</p>
+                     <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{row.count} tender{row.count === 1 ? '' : 's'}</p>
                   </div>
-                  <span className="font-black text-slate-900">{formatCurrency(t.amount)}</span>
+                ))}
+                {paymentSummary.length === 0 && <div className="col-span-full text-center py-8 text-slate-300 italic">No payments recorded yet.</div>}
+             </div>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-6">
+             <div>
+                <h3 className="text-lg font-bold text-slate-900">BIR Reports</h3>
+                <p className="text-xs text-slate-500 mt-1">{business?.tin ? `TIN ${business.tin}` : 'Add your TIN in Settings before filing.'}</p>
+             </div>
+             <div className="flex flex-wrap items-center gap-3">
+                <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none" />
+                <button onClick={handleExportSalesJournal} className="px-5 py-2 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-indigo-100 transition-all"><FileSpreadsheet size={14}/> Sales Journal</button>
+                <button onClick={handleExportESales} className="px-5 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-indigo-700 transition-all"><FileText size={14}/> E-Sales Report</button>
+             </div>
+          </div>
+        </>
+      )}
+
+      {activeTab === 'inventory' && (
+        <>
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <h3 className="text-lg font-bold text-slate-900">Gross Margin</h3>
+              <div className="flex items-center gap-3">
+                <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none" />
+                <div className="flex bg-slate-50 border border-slate-200 p-1 rounded-xl">
+                  <button onClick={() => setMarginGroup('product')} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase ${marginGroup === 'product' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}>Product</button>
+                  <button onClick={() => setMarginGroup('category')} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase ${marginGroup === 'category' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}>Category</button>
                 </div>
-              ))}
-              {transactions.length === 0 && <div className="text-center py-12 text-slate-300 italic">No recent transactions.</div>}
-           </div>
-        </div>
-      </div>
+              </div>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <tr><th className="py-3">{marginGroup === 'product' ? 'Item' : 'Category'}</th><th className="py-3 text-right">Qty</th><th className="py-3 text-right">Net Sales</th><th className="py-3 text-right">COGS</th><th className="py-3 text-right">Gross Profit</th><th className="py-3 text-right">Margin</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {margins.map(r => (
+                  <tr key={r.key}>
+                    <td className="py-3 font-bold text-slate-900">{r.label}</td>
+                    <td className="py-3 text-right text-slate-500">{r.quantity}</td>
+                    <td className="py-3 text-right font-bold">{formatCurrency(r.revenue)}</td>
+                    <td className="py-3 text-right text-slate-500">{formatCurrency(r.cogs)}</td>
+                    <td className={`py-3 text-right font-black ${r.grossProfit < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCurrency(r.grossProfit)}</td>
+                    <td className={`py-3 text-right font-black ${r.margin < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{r.margin}%</td>
+                  </tr>
+                ))}
+                {margins.length === 0 && <tr><td colSpan={6} className="py-12 text-center text-slate-300 italic">No sales in that month.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <div>
+                <h3 className="text-lg font-bold text-slate-900">Lost to Expiry</h3>
+                <p className="text-xs text-slate-500 mt-1">Expired stock written off in {new Date(`${period}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}, at cost</p>
+              </div>
+              <p className={`text-2xl font-black ${expiryLosses.total > 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCurrency(expiryLosses.total)}</p>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <tr><th className="py-3">Item</th><th className="py-3 text-right">Units</th><th className="py-3 text-right">Cost Lost</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {expiryLosses.rows.map(r => (
+                  <tr key={r.productId}>
+                    <td className="py-3 font-bold text-slate-900">{r.name}</td>
+                    <td className="py-3 text-right text-slate-500">{r.quantity}</td>
+                    <td className="py-3 text-right font-black text-rose-600">{formatCurrency(r.value)}</td>
+                  </tr>
+                ))}
+                {expiryLosses.rows.length === 0 && <tr><td colSpan={3} className="py-12 text-center text-slate-300 italic">Nothing written off as expired that month.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <div>
+                <h3 className="text-lg font-bold text-slate-900">Shrinkage</h3>
+                <p className="text-xs text-slate-500 mt-1">Variances from stock counts approved that month, at cost</p>
+              </div>
+              <p className={`text-2xl font-black ${shrinkage.total > 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCurrency(shrinkage.total)}</p>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <tr><th className="py-3">Item</th><th className="py-3">Category</th><th className="py-3 text-right">Short</th><th className="py-3 text-right">Over</th><th className="py-3 text-right">Net Loss</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {shrinkage.rows.map(r => (
+                  <tr key={r.key}>
+                    <td className="py-3"><p className="font-bold text-slate-900">{r.name}</p><p className="text-[10px] font-mono text-slate-400">{r.sku}</p></td>
+                    <td className="py-3 text-slate-500">{r.category}</td>
+                    <td className="py-3 text-right text-rose-600 font-bold">{r.shortUnits || '—'}</td>
+                    <td className="py-3 text-right text-emerald-600 font-bold">{r.overUnits || '—'}</td>
+                    <td className={`py-3 text-right font-black ${r.netValue > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatCurrency(r.netValue)}</td>
+                  </tr>
+                ))}
+                {shrinkage.rows.length === 0 && <tr><td colSpan={5} className="py-12 text-center text-slate-300 italic">No count variances approved that month.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-3xl p-8 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+              <div>
+                <h3 className="text-lg font-bold text-slate-900">Inventory Valuation</h3>
+                <p className="text-xs text-slate-500 mt-1">{VALUATION_LABELS[method]} · {formatCurrency(valuation.reduce((s, r) => s + r.value, 0))} at cost</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <input type="date" value={asOf} onChange={e => setAsOf(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none" />
+                <button onClick={handleExportValuation} className="px-5 py-2 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-indigo-100 transition-all"><FileSpreadsheet size={14}/> Export</button>
+              </div>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                <tr><th className="py-3">Item</th><th className="py-3 text-right">On Hand</th><th className="py-3 text-right">Unit Cost</th><th className="py-3 text-right">Cost Value</th><th className="py-3 text-right">Retail Value</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {valuation.map(r => (
+                  <tr key={`${r.productId}:${r.variantId || ''}`}>
+                    <td className="py-3"><p className="font-bold text-slate-900">{r.name}</p><p className="text-[10px] font-mono text-slate-400">{r.sku}</p></td>
+                    <td className={`py-3 text-right font-bold ${r.quantity < 0 ? 'text-rose-600' : 'text-slate-700'}`}>{r.quantity}</td>
+                    <td className="py-3 text-right text-slate-500">{formatCurrency(r.unitCost)}</td>
+                    <td className="py-3 text-right font-black text-slate-900">{formatCurrency(r.value)}</td>
+                    <td className="py-3 text-right text-slate-500">{formatCurrency(r.retailValue)}</td>
+                  </tr>
+                ))}
+                {valuation.length === 0 && <tr><td colSpan={5} className="py-12 text-center text-slate-300 italic">No items to value yet.</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {reprintOrder && receiptBusiness && (
+        <ReceiptModal order={reprintOrder} business={receiptBusiness} reprint onClose={() => setReprintOrder(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,156 @@
+
+import React, { useState, useMemo } from 'react';
+import { Undo2, Search, X, Minus, Plus, ShieldCheck, Loader2 } from 'lucide-react';
+import { Order, OrderStatus, PaymentMethod, SystemUser } from '../types';
+import { formatCurrency, PAYMENT_METHODS } from '../constants';
+import { buildRefund, canApproveRefunds, findOrderByReceipt, refundableQuantities } from '../services/refundService';
+
+interface ReturnsModalProps {
+  orders: Order[];
+  users: SystemUser[];
+  operator?: SystemUser;
+  shiftId?: string;
+  onClose: () => void;
+  onSubmit: (refund: Order, original: Order, originalStatus: OrderStatus) => Promise<void>;
+}
+
+export const ReturnsModal: React.FC<ReturnsModalProps> = ({ orders, users, operator, shiftId, onClose, onSubmit }) => {
+  const [receipt, setReceipt] = useState('');
+  const [original, setOriginal] = useState<Order | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [kind, setKind] = useState<'Refund' | 'Void'>('Refund');
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [approverId, setApproverId] = useState('');
+  const [approverKey, setApproverKey] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const operatorCanApprove = canApproveRefunds(operator);
+  const managers = useMemo(() => users.filter(u => canApproveRefunds(u) && u.status === 'Active'), [users]);
+  const remaining = useMemo(() => original ? refundableQuantities(original, orders) : {}, [original, orders]);
+
+  const handleLookup = () => {
+    const found = findOrderByReceipt(orders, receipt);
+    if (!found) {
+      alert("We couldn't find a sale with that receipt number.");
+      return;
+    }
+    setOriginal(found);
+    setQuantities({});
+    setMethod(found.payments[0]?.method || 'Cash');
+  };
+
+  const step = (lineId: string, delta: number) => {
+    setQuantities(prev => {
+      const next = Math.min(remaining[lineId] || 0, Math.max(0, (prev[lineId] || 0) + delta));
+      return { ...prev, [lineId]: next };
+    });
+  };
+
+  const resolveApprover = (): SystemUser | undefined => {
+    if (operatorCanApprove) return operator;
+    const manager = managers.find(m => m.id === approverId);
+    if (!manager || manager.password !== approverKey) return undefined;
+    return manager;
+  };
+
+  const handleSubmit = async () => {
+    if (!original) return;
+    const approver = resolveApprover();
+    if (!approver) {
+      alert("Manager approval failed. Please check the access key.");
+      return;
+    }
+    try {
+      const { refund, originalStatus } = buildRefund(original, orders, { kind, quantities, reason, method, approver, operator, shiftId });
+      setIsBusy(true);
+      await onSubmit(refund, original, originalStatus);
+      onClose();
+    } catch (e: any) {
+      alert(e.message || "The return could not be recorded.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-[3rem] p-10 space-y-6 shadow-3xl animate-in zoom-in-95 border border-slate-100">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-rose-600 rounded-xl text-white shadow-lg"><Undo2 size={20}/></div>
+            <div>
+              <h3 className="font-black text-slate-900 uppercase text-xs">Returns & Voids</h3>
+              <p className="text-[10px] font-black text-slate-400 uppercase">Look up a sale by its receipt number</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={20}/></button>
+        </div>
+
+        <div className="flex gap-2">
+          <input value={receipt} onChange={e => setReceipt(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleLookup()} placeholder="Receipt No." className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+          <button onClick={handleLookup} className="px-5 bg-indigo-600 text-white rounded-xl font-black text-[10px] uppercase flex items-center gap-2"><Search size={14}/> Find</button>
+        </div>
+
+        {original && (
+          <>
+            <div className="flex justify-between items-center p-4 bg-slate-50 rounded-2xl border border-slate-100 text-xs font-bold">
+              <span className="text-slate-500"><span className="font-mono">{original.receiptNo || original.id}</span> · {new Date(original.date).toLocaleString()} · {original.status}</span>
+              <span className="text-slate-900">{formatCurrency(original.total)}</span>
+            </div>
+
+            <div className="flex bg-white border border-slate-200 p-1 rounded-2xl shadow-sm w-fit">
+              {(['Refund', 'Void'] as const).map(k => (
+                <button key={k} onClick={() => setKind(k)} className={`px-6 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${kind === k ? 'bg-rose-600 text-white shadow-lg' : 'text-slate-500 hover:text-rose-600'}`}>{k === 'Refund' ? 'Return Items' : 'Void Sale'}</button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {original.lines.map(l => (
+                <div key={l.id} className="bg-slate-50 p-3 rounded-2xl flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <h5 className="text-[10px] font-black uppercase truncate text-slate-900">{l.productName}</h5>
+                    <p className="text-[10px] font-bold text-slate-400">Sold {l.quantity} · Returnable {remaining[l.id] ?? 0}</p>
+                  </div>
+                  {kind === 'Refund' ? (
+                    <div className="flex items-center gap-2 bg-white rounded-full p-1 shadow-sm border border-slate-100">
+                      <button onClick={() => step(l.id, -1)} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-rose-600"><Minus size={12}/></button>
+                      <span className="text-xs font-black min-w-[1.5rem] text-center">{quantities[l.id] || 0}</span>
+                      <button onClick={() => step(l.id, 1)} className="w-6 h-6 flex items-center justify-center text-slate-400 hover:text-indigo-600"><Plus size={12}/></button>
+                    </div>
+                  ) : (
+                    <span className="text-xs font-black text-rose-600">-{l.quantity}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <input value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason (e.g. damaged item)" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+              <select value={method} onChange={e => setMethod(e.target.value as PaymentMethod)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none cursor-pointer">
+                {PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>Refund via {m.label}</option>)}
+              </select>
+            </div>
+
+            {!operatorCanApprove && (
+              <div className="p-4 bg-amber-50 border border-amber-100 rounded-2xl space-y-3">
+                <p className="text-[10px] font-black uppercase text-amber-700 flex items-center gap-2"><ShieldCheck size={14}/> Manager approval required</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <select value={approverId} onChange={e => setApproverId(e.target.value)} className="bg-white border border-amber-100 rounded-xl px-4 py-3 text-sm font-bold outline-none cursor-pointer">
+                    <option value="">Choose a manager...</option>
+                    {managers.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                  <input type="password" value={approverKey} onChange={e => setApproverKey(e.target.value)} placeholder="Manager access key" className="bg-white border border-amber-100 rounded-xl px-4 py-3 text-sm font-bold outline-none" />
+                </div>
+              </div>
+            )}
+
+            <button disabled={isBusy} onClick={handleSubmit} className="w-full bg-rose-600 hover:bg-rose-700 text-white font-black py-5 rounded-3xl shadow-xl shadow-rose-100 transition-all active:scale-95 disabled:opacity-30 uppercase tracking-widest text-[11px] flex items-center justify-center gap-3">
+              {isBusy ? <Loader2 size={18} className="animate-spin"/> : <><Undo2 size={18}/> {kind === 'Void' ? 'Void This Sale' : 'Record Return'}</>}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
 import { Settings as SettingsIcon, Link2, RefreshCw, CheckCircle2, Activity, Shield, Github, UserPlus, Mail, User, Trash2, Edit3, X, DollarSign, Percent, Monitor, Facebook, Instagram, Music, Smartphone, Globe, Share2, AlertCircle, Lock, Building2, MapPin, Phone, Plus, Briefcase, FileText, MessageSquare, Check, Database, Cloud, HardDrive, Wifi, WifiOff, ExternalLink, GitBranch, Zap, CloudUpload, History } from 'lucide-react';
-import { IntegrationConfig, SyncLog, SystemUser, UserRole, PlanType, Business, Product, Transaction } from '../types';
+import { IntegrationConfig, SyncLog, SystemUser, UserRole, PlanType, Business, Product, Order, ValuationMethod, ConflictPolicy } from '../types';
 import { dataService, SyncDiagnostic } from '../services/dataService';
+import { DEFAULT_RECEIPT_TEMPLATE } from '../constants';
+import { orderService } from '../services/orderService';
+import { VALUATION_LABELS } from '../services/costingService';
+import { CONFLICT_POLICIES, POLICY_LABELS, SyncConflict, conflictService } from '../services/conflictService';
+import { SyncConflicts } from './SyncConflicts';
+import { DeadLetter, syncQueue } from '../services/syncQueue';
+import { SyncDeadLetters } from './SyncDeadLetters';
+import { ReceiptTerminal } from './ReceiptTerminal';
 
 interface SettingsProps {
   integrations: IntegrationConfig[];
@@ -18,7 +26,8 @@ interface SettingsProps {
   activeBusinessId?: string;
   onSwitchBusiness?: (id: string) => void;
   setProducts?: React.Dispatch<React.SetStateAction<Product[]>>;
-  setTransactions?: React.Dispatch<React.SetStateAction<Transaction[]>>;
+  setOrders?: React.Dispatch<React.SetStateAction<Order[]>>;
+  onConflictResolved?: (table: string, id: string, kept: any | null) => void;
 }
 
 const PLAN_USER_LIMITS: Record<PlanType, number> = {
@@ -39,7 +48,7 @@ export const Settings: React.FC<SettingsProps> = ({
   subscriptionPlan,
   businesses = [], onSaveBusiness,
   activeBusinessId, onSwitchBusiness,
-  setProducts, setTransactions
+  setProducts, setOrders, onConflictResolved
 }) => {
   const [activeTab, setActiveTab] = useState<'general' | 'integrations' | 'users'>('general');
   
@@ -51,9 +60,12 @@ export const Settings: React.FC<SettingsProps> = ({
   // Business Management
   const [isBusinessModalOpen, setIsBusinessModalOpen] = useState(false);
   const [businessData, setBusinessData] = useState<Partial<Business>>({});
+  const receiptTemplate = businessData.receiptTemplate || DEFAULT_RECEIPT_TEMPLATE;
   
   // Diagnostics & Sync
   const [diagnostics, setDiagnostics] = useState<SyncDiagnostic[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
   const [isRunningDiag, setIsRunningDiag] = useState(false);
   const [isSyncingGitHub, setIsSyncingGitHub] = useState(false);
   const [lastAudit, setLastAudit] = useState<Date | null>(null);
@@ -70,6 +82,8 @@ export const Settings: React.FC<SettingsProps> = ({
       await dataService.syncPending();
       const report = await dataService.getSyncDiagnostics(activeBusinessId);
       setDiagnostics(report);
+      setConflicts(await conflictService.list());
+      setDeadLetters(await syncQueue.deadLetters());
       setLastAudit(new Date());
     } catch (e) {
       console.error(e);
@@ -105,10 +119,17 @@ export const Settings: React.FC<SettingsProps> = ({
 
     setIsRunningDiag(true);
     try {
-      const cloudData: any[] = await dataService.fetch(table, table, activeBusinessId);
-      if (table === 'products' && setProducts) setProducts(cloudData);
-      if (table === 'transactions' && setTransactions) setTransactions(cloudData);
-      if (table === 'users' && setUsers) setUsers(cloudData);
+      if (table === 'orders' || table === 'order_lines') {
+        await dataService.resetWatermarks('orders');
+        await dataService.resetWatermarks('order_lines');
+        const cloudOrders = await orderService.fetch(activeBusinessId);
+        if (setOrders) setOrders(cloudOrders);
+      } else {
+        await dataService.resetWatermarks(table);
+        const cloudData: any[] = await dataService.fetch(table, table, activeBusinessId);
+        if (table === 'products' && setProducts) setProducts(cloudData);
+        if (table === 'users' && setUsers) setUsers(cloudData);
+      }
       await handleRunDiagnostics();
       setSyncStatus({ message: `${table} registry reconciled with Cloud.`, type: 'success' });
     } catch (e) {
@@ -119,6 +140,28 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE') => {
+    const result = await dataService.resolveConflict(conflict, keep);
+    if (!result.success) {
+      alert(result.error);
+      if (result.code === 'VERSION_MISMATCH') setConflicts(await conflictService.list());
+      return;
+    }
+    onConflictResolved?.(conflict.table, conflict.recordId, result.data ?? null);
+    setConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
+
+  const handleRetryDeadLetter = async (letter: DeadLetter) => {
+    await syncQueue.retry(letter);
+    await handleRunDiagnostics();
+  };
+
+  const handleDiscardDeadLetter = async (letter: DeadLetter) => {
+    if (!window.confirm(`Discard this change to ${letter.table}? It will never reach the cloud.`)) return;
+    await syncQueue.discard(letter);
+    setDeadLetters(prev => prev.filter(d => d.id !== letter.id));
+  };
+
   const handleSaveBusinessSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (onSaveBusiness) {
@@ -214,7 +257,7 @@ export const Settings: React.FC<SettingsProps> = ({
                             )}
                             <div className="flex items-center justify-between mb-8">
                                <div className={`w-14 h-14 rounded-2xl flex items-center justify-center shadow-lg transition-all ${activeBusinessId === biz.id ? 'bg-indigo-600 text-white scale-110' : 'bg-slate-100 text-slate-400 group-hover:bg-white group-hover:text-indigo-500'}`}><Building2 size={28} /></div>
-                               {activeBusinessId !== biz.id && <button onClick={(e) => { e.stopPropagation(); setBusinessData(biz); setIsBusinessModalOpen(true); }} className="p-3 bg-white border border-slate-100 text-slate-400 hover:text-indigo-600 rounded-xl shadow-sm transition-all"><Edit3 size={18} /></button>}
+                               <button onClick={(e) => { e.stopPropagation(); setBusinessData(biz); setIsBusinessModalOpen(true); }} className="p-3 bg-white border border-slate-100 text-slate-400 hover:text-indigo-600 rounded-xl shadow-sm transition-all"><Edit3 size={18} /></button>
                             </div>
                             <h4 className="text-xl font-black text-slate-900 leading-tight">{biz.name}</h4>
                             <div className="mt-4 flex items-center gap-2">
@@ -361,6 +404,8 @@ export const Settings: React.FC<SettingsProps> = ({
                                 </div>
                                 <div className="flex items-center gap-3">
                                    {d.pendingActions > 0 && <span className="px-2 py-1 bg-amber-50 text-amber-600 rounded-lg text-[8px] font-black uppercase tracking-widest border border-amber-100">Queue: {d.pendingActions}</span>}
+                                   {d.conflicts > 0 && <span className="px-2 py-1 bg-rose-50 text-rose-600 rounded-lg text-[8px] font-black uppercase tracking-widest border border-rose-100">Conflicts: {d.conflicts}</span>}
+                                   {d.deadLetters > 0 && <span className="px-2 py-1 bg-rose-600 text-white rounded-lg text-[8px] font-black uppercase tracking-widest">Failed: {d.deadLetters}</span>}
                                    <button onClick={() => handleForceSync(d.table)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${d.status === 'Synced' ? 'text-slate-300 hover:text-indigo-600 hover:bg-white' : 'bg-rose-600 text-white shadow-lg shadow-rose-100'}`}>Sync Node</button>
                                 </div>
                              </div>
@@ -375,6 +420,12 @@ export const Settings: React.FC<SettingsProps> = ({
                  </div>
               </section>
 
+              {conflicts.length > 0 && <SyncConflicts conflicts={conflicts} onResolve={handleResolveConflict} />}
+
+              {activeBusinessId && <ReceiptTerminal businessId={activeBusinessId} />}
+
+              {deadLetters.length > 0 && <SyncDeadLetters letters={deadLetters} onRetry={handleRetryDeadLetter} onDiscard={handleDiscardDeadLetter} />}
+
               <section className="bg-white border border-slate-200 rounded-[3rem] p-10 shadow-sm">
                  <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 mb-10 flex items-center gap-3">
                    <Link2 size={16} className="text-indigo-500" /> 
@@ -474,6 +525,66 @@ export const Settings: React.FC<SettingsProps> = ({
                       <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Deployment Hub</label>
                       <input value={businessData.address || ''} onChange={e => setBusinessData({...businessData, address: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-4 focus:ring-indigo-50 transition-all" placeholder="Global Logistics Center" />
                    </div>
+                   <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">TIN</label>
+                         <input value={businessData.tin || ''} onChange={e => setBusinessData({...businessData, tin: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-mono font-bold text-slate-900 outline-none focus:ring-4 focus:ring-indigo-50 transition-all" placeholder="000-000-000-00000" />
+                      </div>
+                      <div className="space-y-2">
+                         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Tax Status</label>
+                         <select value={businessData.vatRegistered === false ? 'NON_VAT' : 'VAT'} onChange={e => setBusinessData({...businessData, vatRegistered: e.target.value === 'VAT'})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none cursor-pointer">
+                            <option value="VAT">VAT Registered</option>
+                            <option value="NON_VAT">Non-VAT</option>
+                         </select>
+                      </div>
+                   </div>
+                   <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Inventory Costing</label>
+                      <select value={businessData.valuationMethod || 'WEIGHTED_AVERAGE'} onChange={e => setBusinessData({...businessData, valuationMethod: e.target.value as ValuationMethod})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none cursor-pointer">
+                         {(Object.keys(VALUATION_LABELS) as ValuationMethod[]).map(m => <option key={m} value={m}>{VALUATION_LABELS[m]}</option>)}
+                      </select>
+                   </div>
+                   <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Open Basket On Leaving The Register</label>
+                      <select value={businessData.autoParkBaskets ? 'PARK' : 'ASK'} onChange={e => setBusinessData({...businessData, autoParkBaskets: e.target.value === 'PARK'})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none cursor-pointer">
+                         <option value="ASK">Ask the cashier</option>
+                         <option value="PARK">Park it automatically</option>
+                      </select>
+                   </div>
+                   <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">When Offline Edits Clash With The Cloud</label>
+                      <div className="grid grid-cols-2 gap-3">
+                         {Object.keys(CONFLICT_POLICIES).map(table => (
+                            <div key={table} className="flex items-center justify-between gap-2 bg-slate-50 border border-slate-200 rounded-2xl pl-4 pr-2 py-2">
+                               <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{table.replace(/_/g, ' ')}</span>
+                               <select value={businessData.conflictPolicies?.[table] || CONFLICT_POLICIES[table]} onChange={e => setBusinessData({...businessData, conflictPolicies: { ...businessData.conflictPolicies, [table]: e.target.value as ConflictPolicy }})} className="bg-transparent text-xs font-bold text-slate-900 outline-none cursor-pointer">
+                                  {(Object.keys(POLICY_LABELS) as ConflictPolicy[]).map(p => <option key={p} value={p}>{POLICY_LABELS[p]}</option>)}
+                               </select>
+                            </div>
+                         ))}
+                      </div>
+                   </div>
+                   <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Receipt Footer</label>
+                      <input value={businessData.receiptFooter || ''} onChange={e => setBusinessData({...businessData, receiptFooter: e.target.value})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-4 focus:ring-indigo-50 transition-all" placeholder="Thank you for shopping!" />
+                   </div>
+                   <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Receipt Paper</label>
+                         <select value={receiptTemplate.paperWidth} onChange={e => setBusinessData({...businessData, receiptTemplate: { ...receiptTemplate, paperWidth: Number(e.target.value) === 80 ? 80 : 58 }})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none cursor-pointer">
+                            <option value={58}>58mm</option>
+                            <option value={80}>80mm</option>
+                         </select>
+                      </div>
+                      <div className="space-y-2">
+                         <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Header Note</label>
+                         <input value={receiptTemplate.headerNote || ''} onChange={e => setBusinessData({...businessData, receiptTemplate: { ...receiptTemplate, headerNote: e.target.value }})} className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-4 focus:ring-indigo-50 transition-all" placeholder="Open 8AM - 9PM" />
+                      </div>
+                   </div>
+                   <div className="flex gap-6 ml-4 text-xs font-bold text-slate-600">
+                      <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={receiptTemplate.showOperator} onChange={e => setBusinessData({...businessData, receiptTemplate: { ...receiptTemplate, showOperator: e.target.checked }})} className="w-4 h-4 accent-indigo-600" /> Print cashier name</label>
+                      <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={receiptTemplate.showTaxBreakdown} onChange={e => setBusinessData({...businessData, receiptTemplate: { ...receiptTemplate, showTaxBreakdown: e.target.checked }})} className="w-4 h-4 accent-indigo-600" /> Print VAT breakdown</label>
+                   </div>
                 </div>
                 <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-5 rounded-2xl shadow-2xl shadow-indigo-100 transition-all active:scale-95 text-xs uppercase tracking-widest">Update Registry</button>
              </form>
@@ -0,0 +1,185 @@
+
+import React, { useState, useMemo } from 'react';
+import { Clock, ArrowDownCircle, ArrowUpCircle, FileText, Lock, X, Wallet, Loader2 } from 'lucide-react';
+import { Order, PaymentMethod, Shift, ShiftReading } from '../types';
+import { formatCurrency } from '../constants';
+import { computeReading } from '../services/shiftService';
+
+interface ShiftManagerProps {
+  shift?: Shift;
+  orders: Order[];
+  operatorName?: string;
+  onOpen: (openingFloat: number) => Promise<void>;
+  onMovement: (type: 'IN' | 'OUT', amount: number, reason: string) => Promise<void>;
+  onClose: (counted: Partial<Record<PaymentMethod, number>>) => Promise<void>;
+}
+
+const ReadingTable: React.FC<{ reading: ShiftReading }> = ({ reading }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 gap-3 text-xs font-bold">
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Orders</p><p className="text-slate-900">{reading.orderCount}</p></div>
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Gross Sales</p><p className="text-slate-900">{formatCurrency(reading.grossSales)}</p></div>
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Refunds &amp; Voids</p><p className="text-rose-600">{formatCurrency(reading.refundTotal || 0)}</p></div>
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Net Sales</p><p className="text-slate-900">{formatCurrency(reading.grossSales - (reading.refundTotal || 0))}</p></div>
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Opening Float</p><p className="text-slate-900">{formatCurrency(reading.openingFloat)}</p></div>
+      <div className="p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Cash In / Out</p><p className="text-slate-900">{formatCurrency(reading.cashIn)} / {formatCurrency(reading.cashOut)}</p></div>
+      {reading.beginningReceipt && (
+        <div className="col-span-2 p-4 bg-slate-50 rounded-xl"><p className="text-[9px] font-black text-slate-400 uppercase">Receipts Issued</p><p className="text-slate-900 font-mono">{reading.beginningReceipt} → {reading.endingReceipt}</p></div>
+      )}
+    </div>
+    <table className="w-full text-left text-xs">
+      <thead className="text-[9px] font-black text-slate-400 uppercase border-b border-slate-100">
+        <tr><th className="py-2">Method</th><th className="py-2 text-right">Expected</th><th className="py-2 text-right">Counted</th><th className="py-2 text-right">Variance</th></tr>
+      </thead>
+      <tbody className="divide-y divide-slate-50 font-bold">
+        {reading.byMethod.map(m => (
+          <tr key={m.method}>
+            <td className="py-2 uppercase text-slate-600">{m.method}</td>
+            <td className="py-2 text-right text-slate-900">{formatCurrency(m.expected)}</td>
+            <td className="py-2 text-right text-slate-900">{m.counted === undefined ? '—' : formatCurrency(m.counted)}</td>
+            <td className={`py-2 text-right ${(m.variance || 0) < 0 ? 'text-rose-600' : (m.variance || 0) > 0 ? 'text-amber-600' : 'text-emerald-600'}`}>{m.variance === undefined ? '—' : formatCurrency(m.variance)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const ShiftManager: React.FC<ShiftManagerProps> = ({ shift, orders, operatorName, onOpen, onMovement, onClose }) => {
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<'IN' | 'OUT' | null>(null);
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [showXReading, setShowXReading] = useState(false);
+  const [closing, setClosing] = useState(false);
+  const [counted, setCounted] = useState<Partial<Record<PaymentMethod, string>>>({});
+  const [isBusy, setIsBusy] = useState(false);
+
+  const xReading = useMemo(() => shift ? computeReading('X', shift, orders) : null, [shift, orders]);
+  const zPreview = useMemo(() => {
+    if (!shift) return null;
+    const parsed: Partial<Record<PaymentMethod, number>> = {};
+    (Object.entries(counted) as [PaymentMethod, string | undefined][]).forEach(([m, v]) => { if (v) parsed[m] = parseFloat(v) || 0; });
+    return computeReading('Z', shift, orders, parsed);
+  }, [shift, orders, counted]);
+
+  const run = async (fn: () => Promise<void>) => {
+    setIsBusy(true);
+    try { await fn(); } finally { setIsBusy(false); }
+  };
+
+  if (!shift) {
+    return (
+      <div className="h-[calc(100vh-8rem)] flex items-center justify-center animate-in fade-in duration-500">
+        <div className="bg-white border border-slate-200 rounded-[3rem] p-10 max-w-md w-full text-center space-y-6 shadow-2xl">
+          <div className="w-20 h-20 bg-indigo-50 text-indigo-600 rounded-[1.5rem] flex items-center justify-center mx-auto border border-indigo-100"><Clock size={40}/></div>
+          <div className="space-y-2">
+            <h3 className="text-2xl font-black text-slate-900">Open Your Shift</h3>
+            <p className="text-sm font-medium text-slate-500">Hi {operatorName || 'there'}! Count the cash in your drawer before making your first sale.</p>
+          </div>
+          <div className="space-y-2 text-left">
+            <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Opening Float (₱)</label>
+            <input type="number" value={openingFloat} onChange={e => setOpeningFloat(e.target.value)} placeholder="0.00" className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-5 py-4 font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+          </div>
+          <button
+            disabled={isBusy}
+            onClick={() => run(() => onOpen(parseFloat(openingFloat) || 0))}
+            className="w-full py-5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-3xl font-black text-[11px] uppercase tracking-widest shadow-xl shadow-indigo-100 transition-all active:scale-95 disabled:opacity-30 flex items-center justify-center gap-3"
+          >
+            {isBusy ? <Loader2 size={18} className="animate-spin"/> : <><Wallet size={18}/> Start Shift</>}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white border border-slate-200 px-4 py-3 rounded-[1.5rem] shadow-sm flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+          <span className="text-[10px] font-black uppercase text-slate-500">Shift open since {new Date(shift.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · Float {formatCurrency(shift.openingFloat)}</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setMovementType('IN')} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-slate-50 text-slate-500 hover:text-emerald-600 flex items-center gap-1.5 transition-all"><ArrowDownCircle size={14}/> Cash In</button>
+          <button onClick={() => setMovementType('OUT')} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-slate-50 text-slate-500 hover:text-rose-600 flex items-center gap-1.5 transition-all"><ArrowUpCircle size={14}/> Cash Out</button>
+          <button onClick={() => setShowXReading(true)} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-slate-50 text-slate-500 hover:text-indigo-600 flex items-center gap-1.5 transition-all"><FileText size={14}/> X-Reading</button>
+          <button onClick={() => { setCounted({}); setClosing(true); }} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-slate-900 text-white flex items-center gap-1.5 transition-all active:scale-95"><Lock size={14}/> Close Shift</button>
+        </div>
+      </div>
+
+      {movementType && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-sm rounded-[2.5rem] p-8 space-y-5 shadow-3xl animate-in zoom-in-95">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-black text-slate-900">{movementType === 'IN' ? 'Cash In' : 'Cash Out'}</h3>
+              <button onClick={() => setMovementType(null)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+            </div>
+            <input type="number" value={movementAmount} onChange={e => setMovementAmount(e.target.value)} placeholder="Amount" className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+            <input value={movementReason} onChange={e => setMovementReason(e.target.value)} placeholder={movementType === 'IN' ? 'e.g. Petty cash top-up' : 'e.g. Payout to supplier'} className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+            <button
+              disabled={isBusy || !(parseFloat(movementAmount) > 0) || !movementReason.trim()}
+              onClick={() => run(async () => {
+                await onMovement(movementType, parseFloat(movementAmount), movementReason.trim());
+                setMovementType(null); setMovementAmount(''); setMovementReason('');
+              })}
+              className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-100 disabled:opacity-30"
+            >
+              Record Movement
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showXReading && xReading && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-lg rounded-[2.5rem] p-8 space-y-6 shadow-3xl animate-in zoom-in-95">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-black text-slate-900">X-Reading</h3>
+                <p className="text-[10px] font-black text-slate-400 uppercase">{new Date(xReading.generatedAt).toLocaleString()}</p>
+              </div>
+              <button onClick={() => setShowXReading(false)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+            </div>
+            <ReadingTable reading={xReading} />
+          </div>
+        </div>
+      )}
+
+      {closing && zPreview && (
+        <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+          <div className="bg-white w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-[2.5rem] p-8 space-y-6 shadow-3xl animate-in zoom-in-95">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-black text-slate-900">Close Shift · Z-Reading</h3>
+                <p className="text-[10px] font-black text-slate-400 uppercase">Count each drawer and wallet before closing</p>
+              </div>
+              <button onClick={() => setClosing(false)} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {zPreview.byMethod.map(m => (
+                <div key={m.method} className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-400 uppercase ml-1">Counted {m.method}</label>
+                  <input type="number" value={counted[m.method] ?? ''} onChange={e => setCounted(prev => ({ ...prev, [m.method]: e.target.value }))} placeholder={m.expected.toFixed(2)} className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+                </div>
+              ))}
+            </div>
+            <ReadingTable reading={zPreview} />
+            <button
+              disabled={isBusy}
+              onClick={() => run(async () => {
+                const parsed: Partial<Record<PaymentMethod, number>> = {};
+                zPreview.byMethod.forEach(m => { parsed[m.method] = m.counted ?? 0; });
+                await onClose(parsed);
+                setClosing(false);
+              })}
+              className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl disabled:opacity-30"
+            >
+              Post Z-Reading & Close Shift
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
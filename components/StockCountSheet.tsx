@@ -0,0 +1,199 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, ClipboardCheck, Search, Save, Send, Check, RotateCcw, Ban, Loader2, ScanLine } from 'lucide-react';
+import { Product, StockCount, SystemUser } from '../types';
+import { formatCurrency } from '../constants';
+import { attachWedgeScanner, findByCode } from '../services/barcodeService';
+import { stockKey } from '../services/variantService';
+import {
+  COUNT_STATUS_LABELS, cancelCount, countLineKey, countProgress, enterCounts, reopenCount, submitCount, varianceOf
+} from '../services/stockCountService';
+
+interface StockCountSheetProps {
+  count: StockCount;
+  products: Product[];
+  currentUser: SystemUser | null;
+  isAdmin: boolean;
+  onSave: (count: StockCount) => Promise<void>;
+  onApprove: (count: StockCount) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputCls = "w-24 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50 text-right";
+
+export const StockCountSheet: React.FC<StockCountSheetProps> = ({ count, products, currentUser, isAdmin, onSave, onApprove, onClose }) => {
+  const [entries, setEntries] = useState<Record<string, number | undefined>>(() =>
+    Object.fromEntries(count.lines.map(l => [countLineKey(l), l.counted]))
+  );
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const counting = count.status === 'OPEN';
+  // Counters work blind; expected figures and variances are for the reviewer only
+  const showVariance = isAdmin && !counting;
+  const working = useMemo(() => ({ ...count, lines: count.lines.map(l => ({ ...l, counted: entries[countLineKey(l)] })) }), [count, entries]);
+  const progress = countProgress(working);
+
+  const visible = useMemo(() => {
+    const term = search.toLowerCase().trim();
+    return working.lines.filter(l => !term || l.name.toLowerCase().includes(term) || l.sku.toLowerCase().includes(term));
+  }, [working.lines, search]);
+
+  const varianceTotal = useMemo(
+    () => working.lines.reduce((s, l) => s + (varianceOf(l) || 0) * l.unitCost, 0),
+    [working.lines]
+  );
+
+  // Each scan adds one unit to the matching line
+  useEffect(() => {
+    if (!counting) return;
+    return attachWedgeScanner(code => {
+      const match = findByCode(products, code);
+      const key = match && stockKey(match.product.id, match.variant?.id);
+      if (!key || !count.lines.some(l => countLineKey(l) === key)) return alert(`${code} isn't part of this count.`);
+      setEntries(prev => ({ ...prev, [key]: (prev[key] || 0) + 1 }));
+    });
+  }, [counting, products, count.lines]);
+
+  const run = async (task: () => Promise<void>, close = true) => {
+    setBusy(true);
+    try {
+      await task();
+      if (close) onClose();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(() => onSave(enterCounts(count, entries, currentUser)), false);
+
+  const handleSubmit = () => {
+    const missing = progress.total - progress.counted;
+    if (missing > 0 && !window.confirm(`${missing} item(s) haven't been counted and will be left as they are. Hand the count in anyway?`)) return;
+    run(() => onSave(submitCount(enterCounts(count, entries, currentUser), currentUser)));
+  };
+
+  const handleApprove = () => {
+    const changed = count.lines.filter(l => (varianceOf(l) || 0) !== 0).length;
+    if (!window.confirm(`Approve ${count.countNumber}? ${changed} item(s) will be adjusted by a net ${formatCurrency(varianceTotal)} at cost.`)) return;
+    run(() => onApprove(count));
+  };
+
+  const handleSendBack = () => {
+    const reason = window.prompt('What should be recounted?');
+    if (reason === null) return;
+    run(() => onSave(reopenCount(count, currentUser, reason.trim() ? `Sent back: ${reason.trim()}` : undefined)));
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm(`Cancel ${count.countNumber}? Nothing will be adjusted.`)) return;
+    run(() => onSave(cancelCount(count, currentUser)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in" onClick={() => !busy && onClose()} />
+      <div className="relative bg-white w-full max-w-5xl max-h-[90vh] rounded-[3rem] shadow-3xl overflow-hidden flex flex-col animate-in zoom-in-95">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><ClipboardCheck size={24}/></div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900">{count.countNumber} · {count.category || 'Full Count'}</h3>
+              <p className="text-[10px] font-black uppercase text-slate-400">{COUNT_STATUS_LABELS[count.status]} · {progress.counted} of {progress.total} counted</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={24} /></button>
+        </div>
+
+        <div className="px-8 pt-6 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Find an item..." className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-11 pr-4 py-3 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50" />
+          </div>
+          {counting && <span className="text-[10px] font-black uppercase text-slate-400 flex items-center gap-1"><ScanLine size={14}/> Scan a barcode to add one</span>}
+          {showVariance && <span className={`text-sm font-black ${varianceTotal < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>Net variance {formatCurrency(varianceTotal)}</span>}
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1 space-y-8">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+              <tr>
+                <th className="py-2">Item</th>
+                {showVariance && <th className="py-2 text-right">Expected</th>}
+                <th className="py-2 text-right">Counted</th>
+                {showVariance && <th className="py-2 text-right">Variance</th>}
+                {showVariance && <th className="py-2 text-right">At Cost</th>}
+                {!counting && <th className="py-2 pl-6">By</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {visible.map(l => {
+                const key = countLineKey(l);
+                const variance = varianceOf(l);
+                return (
+                  <tr key={key}>
+                    <td className="py-2">
+                      <p className="font-bold text-slate-900">{l.name}</p>
+                      <p className="font-mono text-[10px] text-slate-400">{l.sku} · {l.category}</p>
+                    </td>
+                    {showVariance && <td className="py-2 text-right text-slate-500">{l.expected}</td>}
+                    <td className="py-2 text-right">
+                      {counting
+                        ? <input type="number" min={0} value={entries[key] ?? ''} onChange={e => setEntries({ ...entries, [key]: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0) })} className={inputCls} placeholder="—" />
+                        : <span className="font-black text-slate-900">{l.counted ?? '—'}</span>}
+                    </td>
+                    {showVariance && (
+                      <td className={`py-2 text-right font-black ${!variance ? 'text-slate-300' : variance < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                        {variance === undefined ? '—' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                    )}
+                    {showVariance && <td className="py-2 text-right text-slate-500">{variance ? formatCurrency(variance * l.unitCost) : '—'}</td>}
+                    {!counting && <td className="py-2 pl-6 text-slate-500">{l.countedBy || '—'}</td>}
+                  </tr>
+                );
+              })}
+              {visible.length === 0 && <tr><td colSpan={6} className="py-10 text-center text-slate-300 italic">No items match.</td></tr>}
+            </tbody>
+          </table>
+
+          <div>
+            <h4 className="text-[10px] font-black uppercase text-slate-400 mb-3">History</h4>
+            <div className="space-y-2">
+              {count.history.map((h, i) => (
+                <div key={i} className="flex justify-between text-xs bg-slate-50 border border-slate-100 rounded-xl px-4 py-2">
+                  <span className="font-bold text-slate-700">{h.action}</span>
+                  <span className="text-slate-400">{new Date(h.at).toLocaleString()}{h.userName && ` · ${h.userName}`}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {(counting || (isAdmin && count.status === 'SUBMITTED')) && (
+          <div className="p-6 border-t border-slate-100 flex justify-between gap-2">
+            <div>
+              {isAdmin && (
+                <button onClick={handleCancel} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 text-rose-600 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-rose-50"><Ban size={14}/> Cancel Count</button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {counting ? (
+                <>
+                  <button onClick={handleSave} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-slate-50">{busy ? <Loader2 size={14} className="animate-spin"/> : <Save size={14}/>} Save Progress</button>
+                  <button onClick={handleSubmit} disabled={busy} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-indigo-100"><Send size={14}/> Hand In</button>
+                </>
+              ) : (
+                <>
+                  <button onClick={handleSendBack} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-slate-50"><RotateCcw size={14}/> Send Back</button>
+                  <button onClick={handleApprove} disabled={busy} className="px-6 py-3 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-emerald-100">{busy ? <Loader2 size={14} className="animate-spin"/> : <Check size={14}/>} Approve & Post</button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
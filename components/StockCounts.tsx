@@ -0,0 +1,104 @@
+
+import React, { useState } from 'react';
+import { ClipboardCheck, Plus } from 'lucide-react';
+import { Product, StockCount, StockCountStatus, SystemUser } from '../types';
+import { COUNT_STATUS_LABELS, countProgress, startCount } from '../services/stockCountService';
+import { StockCountSheet } from './StockCountSheet';
+
+interface StockCountsProps {
+  counts: StockCount[];
+  products: Product[];
+  categories: string[];
+  currentUser: SystemUser | null;
+  isAdmin: boolean;
+  onSave: (count: StockCount) => Promise<void>;
+  onApprove: (count: StockCount) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<StockCountStatus, string> = {
+  OPEN: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  SUBMITTED: 'bg-amber-50 text-amber-600 border-amber-100',
+  APPROVED: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  CANCELLED: 'bg-rose-50 text-rose-500 border-rose-100'
+};
+
+export const StockCounts: React.FC<StockCountsProps> = ({ counts, products, categories, currentUser, isAdmin, onSave, onApprove }) => {
+  const [scope, setScope] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = counts.find(c => c.id === openId);
+
+  const handleStart = async () => {
+    try {
+      const count = startCount(products, counts, currentUser, scope || undefined);
+      await onSave(count);
+      setOpenId(count.id);
+    } catch (e: any) {
+      alert(e.message || 'The count could not be started. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+      <div className="p-8 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2"><ClipboardCheck size={20}/> Stock Counts</h3>
+          <p className="text-[10px] font-black uppercase text-slate-400">{isAdmin ? 'Start a count, then review and approve what was found' : 'Open a count and enter what is on the shelf'}</p>
+        </div>
+        {isAdmin && (
+          <div className="flex items-center gap-2">
+            <select value={scope} onChange={e => setScope(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none cursor-pointer">
+              <option value="">Full count</option>
+              {categories.map(c => <option key={c} value={c}>{c} only</option>)}
+            </select>
+            <button onClick={handleStart} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-1 shadow-lg shadow-indigo-100"><Plus size={12}/> Start Count</button>
+          </div>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+            <tr>
+              <th className="px-8 py-4">Count</th>
+              <th className="px-8 py-4">Scope</th>
+              <th className="px-8 py-4">Status</th>
+              <th className="px-8 py-4">Started</th>
+              <th className="px-8 py-4 text-right">Progress</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {counts.map(c => {
+              const { counted, total } = countProgress(c);
+              return (
+                <tr key={c.id} onClick={() => setOpenId(c.id)} className="hover:bg-indigo-50/40 cursor-pointer transition-all">
+                  <td className="px-8 py-4 font-mono font-bold text-slate-900">{c.countNumber}</td>
+                  <td className="px-8 py-4 font-bold text-slate-700">{c.category || 'Full count'}</td>
+                  <td className="px-8 py-4">
+                    <span className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border ${STATUS_STYLES[c.status]}`}>{COUNT_STATUS_LABELS[c.status]}</span>
+                  </td>
+                  <td className="px-8 py-4 text-sm text-slate-500">{new Date(c.createdAt).toLocaleDateString()}</td>
+                  <td className="px-8 py-4 text-right font-bold text-slate-700">{counted} / {total}</td>
+                </tr>
+              );
+            })}
+            {counts.length === 0 && (
+              <tr><td colSpan={5} className="p-16 text-center text-slate-300 italic">No stock counts yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {open && (
+        <StockCountSheet
+          key={open.id}
+          count={open}
+          products={products}
+          currentUser={currentUser}
+          isAdmin={isAdmin}
+          onSave={onSave}
+          onApprove={onApprove}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+    </div>
+  );
+};
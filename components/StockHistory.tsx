@@ -0,0 +1,168 @@
+
+import React, { useState, useMemo } from 'react';
+import { X, History, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { Product, StockLot, StockMovement, StockMovementType } from '../types';
+import { hasVariants, stockKey } from '../services/variantService';
+import { defaultLotNumber, expiryDay, fefoOrder } from '../services/lotService';
+
+interface StockHistoryProps {
+  product: Product;
+  movements: StockMovement[];
+  lots?: StockLot[];
+  canAdjust: boolean;
+  onRecord: (type: StockMovementType, quantity: number, reason: string, variantId?: string, extra?: Partial<StockMovement>) => Promise<void>;
+  onClose: () => void;
+}
+
+const MANUAL_TYPES: { type: StockMovementType; label: string; hint: string }[] = [
+  { type: 'RECEIPT', label: 'Stock Received', hint: 'Units added' },
+  { type: 'WASTAGE', label: 'Wastage', hint: 'Units lost' },
+  { type: 'ADJUSTMENT', label: 'Adjustment', hint: 'Use a minus sign to remove' }
+];
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const StockHistory: React.FC<StockHistoryProps> = ({ product, movements, lots = [], canAdjust, onRecord, onClose }) => {
+  const [variantId, setVariantId] = useState<string>(product.variants?.[0]?.id || '');
+  const [type, setType] = useState<StockMovementType>('RECEIPT');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [lotKey, setLotKey] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const openLots = useMemo(
+    () => fefoOrder(lots.filter(l => l.productId === product.id && (!hasVariants(product) || l.variantId === variantId))),
+    [lots, product, variantId]
+  );
+  const pickedLot = openLots.find(l => l.key === lotKey);
+
+  // Oldest first to build the running balance, then shown newest first
+  const rows = useMemo(() => {
+    const balances = new Map<string, number>();
+    return movements
+      .filter(m => m.productId === product.id)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(m => {
+        const key = stockKey(m.productId, m.variantId);
+        const balance = (balances.get(key) || 0) + m.quantity;
+        balances.set(key, balance);
+        return { ...m, balance };
+      })
+      .reverse();
+  }, [movements, product.id]);
+
+  const variantName = (id?: string) => product.variants?.find(v => v.id === id)?.name;
+
+  const handleSubmit = async () => {
+    const qty = parseInt(quantity);
+    if (!qty) return alert('Enter how many units changed.');
+    if (!reason.trim()) return alert('Please give a reason for this stock change.');
+    let extra: Partial<StockMovement> = {};
+    if (type === 'RECEIPT' && product.tracksExpiry) {
+      if (!expiresAt) return alert('This item tracks expiry. Enter the expiry date printed on the stock.');
+      extra = { lotNumber: lotNumber.trim() || defaultLotNumber(expiresAt), expiresAt: expiryDay(expiresAt), unitCost: product.costPrice };
+    }
+    if (type === 'WASTAGE' && pickedLot) {
+      if (Math.abs(qty) > pickedLot.quantity) return alert(`Lot ${pickedLot.lotNumber} only has ${pickedLot.quantity} left.`);
+      extra = { lotNumber: pickedLot.lotNumber, expiresAt: pickedLot.expiresAt, unitCost: pickedLot.unitCost };
+    }
+    setSaving(true);
+    try {
+      await onRecord(type, qty, reason.trim(), hasVariants(product) ? variantId : undefined, extra);
+      setQuantity('');
+      setReason('');
+      setExpiresAt('');
+      setLotNumber('');
+      setLotKey('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-3xl max-h-[90vh] rounded-[3rem] shadow-3xl overflow-hidden flex flex-col animate-in zoom-in-95">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><History size={24}/></div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900">{product.name}</h3>
+              <p className="text-[10px] font-black uppercase text-slate-400">Stock history · {product.stock} on hand</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={24} /></button>
+        </div>
+
+        {canAdjust && (
+          <div className="p-8 border-b border-slate-100 bg-slate-50/50 grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select value={type} onChange={e => setType(e.target.value as StockMovementType)} className={inputCls}>
+              {MANUAL_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+            </select>
+            {hasVariants(product) && (
+              <select value={variantId} onChange={e => setVariantId(e.target.value)} className={inputCls}>
+                {product.variants!.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+            )}
+            <input type="number" value={quantity} onChange={e => setQuantity(e.target.value)} placeholder={MANUAL_TYPES.find(t => t.type === type)?.hint} className={inputCls} />
+            <input value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason" className={`${inputCls} ${hasVariants(product) ? '' : 'md:col-span-2'}`} />
+            {type === 'RECEIPT' && product.tracksExpiry && (
+              <>
+                <input type="date" title="Expiry date" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} className={`${inputCls} md:col-span-2`} />
+                <input value={lotNumber} onChange={e => setLotNumber(e.target.value)} placeholder="Lot no. (optional)" className={`${inputCls} md:col-span-2`} />
+              </>
+            )}
+            {type === 'WASTAGE' && openLots.length > 0 && (
+              <select value={lotKey} onChange={e => setLotKey(e.target.value)} className={`${inputCls} col-span-2 md:col-span-4`}>
+                <option value="">No particular lot</option>
+                {openLots.map(l => <option key={l.key} value={l.key}>{l.lotNumber}{l.expiresAt ? ` · expires ${l.expiresAt}` : ''} · {l.quantity} left</option>)}
+              </select>
+            )}
+            <button onClick={handleSubmit} disabled={saving} className="col-span-2 md:col-span-4 py-3 bg-indigo-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg shadow-indigo-100 disabled:opacity-30">Record Stock Change</button>
+          </div>
+        )}
+
+        <div className="overflow-y-auto flex-1">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50/50 text-[9px] font-black text-slate-400 uppercase tracking-widest sticky top-0">
+              <tr>
+                <th className="px-8 py-3">When</th>
+                <th className="px-4 py-3">Type</th>
+                <th className="px-4 py-3">Reason</th>
+                <th className="px-4 py-3 text-right">Change</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+                <th className="px-8 py-3">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {rows.map(m => (
+                <tr key={m.id}>
+                  <td className="px-8 py-3 text-slate-500 whitespace-nowrap">{new Date(m.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3">
+                    <span className="bg-slate-100 text-slate-600 px-2 py-1 rounded-lg text-[9px] font-black uppercase">{m.type}</span>
+                  </td>
+                  <td className="px-4 py-3 font-bold text-slate-700">
+                    {m.reason}
+                    {variantName(m.variantId) && <span className="ml-2 text-indigo-400">· {variantName(m.variantId)}</span>}
+                    {m.reference && <span className="block font-mono text-[10px] text-slate-400">{m.reference}</span>}
+                    {m.lotNumber && m.lotNumber !== m.reference && <span className="block font-mono text-[10px] text-amber-500">Lot {m.lotNumber}{m.expiresAt ? ` · exp ${expiryDay(m.expiresAt)}` : ''}</span>}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-black ${m.quantity < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                    <span className="inline-flex items-center gap-1">{m.quantity < 0 ? <ArrowDownRight size={12}/> : <ArrowUpRight size={12}/>}{m.quantity > 0 ? `+${m.quantity}` : m.quantity}</span>
+                  </td>
+                  <td className="px-4 py-3 text-right font-black text-slate-900">{m.balance}</td>
+                  <td className="px-8 py-3 text-slate-500">{m.userName || 'System'}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td colSpan={6} className="p-16 text-center text-slate-300 italic">No stock movements recorded for this item yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
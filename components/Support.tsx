@@ -3,9 +3,10 @@ import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Send, Bot, User, BrainCircuit, Activity, Database, RefreshCw, Zap, Target, ShieldCheck 
 } from 'lucide-react';
-import { ChatMessage, Product, Transaction } from '../types';
+import { ChatMessage, Product, Order } from '../types';
 import { getSupportResponse } from '../services/geminiService';
 import { formatCurrency } from '../constants';
+import { isLowStock } from '../services/reorderService';
 
 const aistudio = (window as any).aistudio;
 
@@ -13,7 +14,7 @@ interface ExtendedChatMessage extends ChatMessage {
   status?: 'sending' | 'success' | 'error';
 }
 
-export const Support: React.FC<{ products: Product[], transactions: Transaction[] }> = ({ products, transactions }) => {
+export const Support: React.FC<{ products: Product[], orders: Order[] }> = ({ products, orders }) => {
   const [messages, setMessages] = useState<ExtendedChatMessage[]>([
     { 
       id: '1', 
@@ -29,13 +30,13 @@ export const Support: React.FC<{ products: Product[], transactions: Transaction[
 
   const shopSnapshot = useMemo(() => {
     const totalValue = products.reduce((s, p) => s + (p.price * p.stock), 0);
-    const lowStockCount = products.filter(p => p.stock < 10).length;
-    const salesTotal = transactions.slice(0, 10).reduce((s, t) => s + t.amount, 0);
+    const lowStockCount = products.filter(isLowStock).length;
+    const salesTotal = orders.slice(0, 10).reduce((s, o) => s + o.total, 0);
     return {
       totalValue, lowStockCount, salesTotal,
       text: `Shop has ${products.length} items. Total value: ${formatCurrency(totalValue)}. Low stock: ${lowStockCount} items. Recent sales: ${formatCurrency(salesTotal)}.`
     };
-  }, [products, transactions]);
+  }, [products, orders]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
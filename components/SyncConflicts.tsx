@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { GitMerge, Smartphone, Cloud, Loader2 } from 'lucide-react';
+import { POLICY_LABELS, SyncConflict, policyFor } from '../services/conflictService';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE') => Promise<void>;
+}
+
+const labelOf = (c: SyncConflict) => {
+  const row = c.local || c.remote || {};
+  return row.name || row.poNumber || row.countNumber || row.transferNumber || row.receiptNo || c.recordId;
+};
+
+const show = (v: any) => {
+  if (v === null || v === undefined || v === '') return '—';
+  if (v instanceof Date) return v.toLocaleString();
+  const text = typeof v === 'object' ? JSON.stringify(v) : String(v);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+export const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onResolve }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const resolve = async (c: SyncConflict, keep: 'LOCAL' | 'REMOTE') => {
+    setBusy(c.id);
+    try {
+      await onResolve(c, keep);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-[3rem] p-10 shadow-sm">
+      <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 mb-2 flex items-center gap-3">
+        <GitMerge size={16} className="text-amber-500" /> Sync Conflicts
+      </h3>
+      <p className="text-xs text-slate-500 mb-8">Offline edits that landed on a record someone else had changed in the meantime. Choose which copy to keep.</p>
+      <div className="space-y-4">
+        {conflicts.map(c => (
+          <div key={c.id} className="border border-amber-100 bg-amber-50/30 rounded-[2rem] p-6 space-y-4">
+            <div className="flex flex-wrap justify-between items-start gap-3">
+              <div>
+                <p className="font-black text-slate-900">{labelOf(c)}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mt-1">{c.table} · {POLICY_LABELS[policyFor(c.table, c.local)]} · {new Date(c.detectedAt).toLocaleString()}</p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => resolve(c, 'LOCAL')} disabled={busy === c.id} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                  {busy === c.id ? <Loader2 size={12} className="animate-spin"/> : <Smartphone size={12}/>} Keep This Device's
+                </button>
+                <button onClick={() => resolve(c, 'REMOTE')} disabled={busy === c.id} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                  <Cloud size={12}/> Keep Cloud's
+                </button>
+              </div>
+            </div>
+            {c.action === 'DELETE' ? (
+              <p className="text-xs font-bold text-slate-600">Deleted on this device, but changed in the cloud since.</p>
+            ) : !c.remote ? (
+              <p className="text-xs font-bold text-slate-600">Edited on this device, but deleted in the cloud since.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                  <tr><th className="text-left py-1">Field</th><th className="text-left py-1">This device</th><th className="text-left py-1">Cloud</th></tr>
+                </thead>
+                <tbody className="divide-y divide-amber-100/60">
+                  {c.fields.map(f => (
+                    <tr key={f}>
+                      <td className="py-2 pr-3 font-mono text-slate-500">{f}</td>
+                      <td className="py-2 pr-3 font-bold text-indigo-700">{show(c.local?.[f])}</td>
+                      <td className="py-2 font-bold text-slate-700">{show(c.remote?.[f])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
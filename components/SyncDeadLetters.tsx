@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { AlertOctagon, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+import { DeadLetter } from '../services/syncQueue';
+
+interface SyncDeadLettersProps {
+  letters: DeadLetter[];
+  onRetry: (letter: DeadLetter) => Promise<void>;
+  onDiscard: (letter: DeadLetter) => Promise<void>;
+}
+
+const labelOf = (d: DeadLetter) =>
+  d.data?.name || d.data?.poNumber || d.data?.countNumber || d.data?.transferNumber || d.data?.receiptNo || d.data?.id;
+
+export const SyncDeadLetters: React.FC<SyncDeadLettersProps> = ({ letters, onRetry, onDiscard }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const run = async (d: DeadLetter, action: (d: DeadLetter) => Promise<void>) => {
+    setBusy(d.id);
+    try {
+      await action(d);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-[3rem] p-10 shadow-sm">
+      <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 mb-2 flex items-center gap-3">
+        <AlertOctagon size={16} className="text-rose-500" /> Failed Uploads
+      </h3>
+      <p className="text-xs text-slate-500 mb-8">Offline changes the cloud kept refusing. They were set aside so the rest could sync; retry once the cause is fixed, or discard them.</p>
+      <div className="space-y-3">
+        {letters.map(d => (
+          <div key={d.id} className="border border-rose-100 bg-rose-50/30 rounded-[2rem] p-6 flex flex-wrap justify-between items-start gap-3">
+            <div className="min-w-0 flex-1">
+              <p className="font-black text-slate-900">{labelOf(d)} <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{d.action === 'DELETE' ? 'Delete' : 'Save'}</span></p>
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mt-1">{d.table} · {d.attempts} attempts · {new Date(d.failedAt).toLocaleString()}</p>
+              {d.lastError && <p className="text-xs font-mono text-rose-600 mt-2 break-words">{d.lastError}</p>}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => run(d, onRetry)} disabled={busy === d.id} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                {busy === d.id ? <Loader2 size={12} className="animate-spin"/> : <RotateCcw size={12}/>} Retry
+              </button>
+              <button onClick={() => run(d, onDiscard)} disabled={busy === d.id} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                <Trash2 size={12}/> Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,221 @@
+
+import React, { useState, useMemo } from 'react';
+import { X, Plus, Trash2, Truck, PackageCheck, Ban, ArrowRightLeft } from 'lucide-react';
+import { Business, Product, StockTransfer } from '../types';
+import { formatCurrency } from '../constants';
+import { isBundle } from '../services/bundleService';
+import { TRANSFER_STATUS_LABELS, matchTransferLines, transferLineFor, transferLineKey, validateTransfer } from '../services/transferService';
+
+interface TransferModalProps {
+  transfer: StockTransfer;
+  products: Product[];
+  businesses: Business[];
+  activeBusinessId: string;
+  canManage: boolean;
+  onSave: (t: StockTransfer) => Promise<void>;
+  onDispatch: (t: StockTransfer) => Promise<void>;
+  onReceive: (t: StockTransfer, received: Record<string, number>) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const TransferModal: React.FC<TransferModalProps> = ({
+  transfer, products, businesses, activeBusinessId, canManage, onSave, onDispatch, onReceive, onClose
+}) => {
+  const [draft, setDraft] = useState<StockTransfer>(transfer);
+  const [pickProduct, setPickProduct] = useState('');
+  const [pickVariant, setPickVariant] = useState('');
+  const [received, setReceived] = useState<Record<string, number>>(() =>
+    Object.fromEntries(transfer.lines.map(l => [transferLineKey(l), l.quantity]))
+  );
+  const [busy, setBusy] = useState(false);
+
+  const outgoing = draft.fromBusinessId === activeBusinessId;
+  const editable = outgoing && canManage && draft.status === 'DRAFT';
+  const receiving = !outgoing && draft.status === 'IN_TRANSIT';
+  const picked = products.find(p => p.id === pickProduct);
+  const nameOf = (id: string) => businesses.find(b => b.id === id)?.name || 'Other branch';
+  // On the receiving side, show what each SKU will land on
+  const matches = useMemo(() => receiving ? matchTransferLines(draft, products) : [], [receiving, draft, products]);
+  const transferValue = draft.lines.reduce((s, l) => s + l.quantity * l.unitCost, 0);
+
+  const setQuantity = (key: string, quantity: number) =>
+    setDraft(prev => ({ ...prev, lines: prev.lines.map(l => transferLineKey(l) === key ? { ...l, quantity } : l) }));
+
+  const addLine = () => {
+    if (!picked) return;
+    if (picked.variants?.length && !pickVariant) return alert('Choose which variant to send.');
+    const line = transferLineFor(picked, pickVariant || undefined);
+    if (draft.lines.some(l => transferLineKey(l) === transferLineKey(line))) return alert('That item is already on this transfer.');
+    setDraft(prev => ({ ...prev, lines: [...prev.lines, line] }));
+    setPickProduct('');
+    setPickVariant('');
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+      onClose();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDispatch = () => {
+    const problem = validateTransfer(draft, products);
+    if (problem) return alert(problem);
+    if (!window.confirm(`Send ${draft.lines.reduce((s, l) => s + l.quantity, 0)} unit(s) to ${nameOf(draft.toBusinessId)}? They leave this shop's stock now.`)) return;
+    run(() => onDispatch(draft));
+  };
+
+  const handleReceive = () => {
+    const adding = matches.filter(m => !m.product && !m.line.variantId).length;
+    const short = draft.lines.reduce((s, l) => s + l.quantity - (received[transferLineKey(l)] ?? l.quantity), 0);
+    const notes = [
+      adding > 0 ? `${adding} item(s) will be added to this shop.` : '',
+      short > 0 ? `${short} unit(s) will be recorded as not arrived.` : ''
+    ].filter(Boolean).join(' ');
+    if (!window.confirm(`Book ${draft.transferNumber} into stock? ${notes}`.trim())) return;
+    run(() => onReceive(draft, received));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md animate-in fade-in" onClick={() => !busy && onClose()} />
+      <div className="relative bg-white w-full max-w-4xl max-h-[90vh] rounded-[3rem] shadow-3xl overflow-hidden flex flex-col animate-in zoom-in-95">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><ArrowRightLeft size={24}/></div>
+            <div>
+              <h3 className="text-xl font-black text-slate-900">{draft.transferNumber}</h3>
+              <p className="text-[10px] font-black uppercase text-slate-400">{TRANSFER_STATUS_LABELS[draft.status]} · {nameOf(draft.fromBusinessId)} → {nameOf(draft.toBusinessId)}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900 transition-colors"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 overflow-y-auto flex-1 space-y-6">
+          {editable && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Send To</label>
+                <select value={draft.toBusinessId} onChange={e => setDraft({ ...draft, toBusinessId: e.target.value })} className={inputCls}>
+                  {businesses.filter(b => b.id !== activeBusinessId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Notes</label>
+                <input value={draft.notes || ''} onChange={e => setDraft({ ...draft, notes: e.target.value || undefined })} className={inputCls} placeholder="Driver, plate number, instructions" />
+              </div>
+            </div>
+          )}
+          {!editable && draft.notes && <p className="text-xs font-medium text-slate-500 bg-slate-50 rounded-xl px-4 py-3">{draft.notes}</p>}
+
+          <table className="w-full text-xs">
+            <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <tr>
+                <th className="text-left py-2">Item</th>
+                <th className="text-right py-2 w-24">{editable ? 'Send' : 'Sent'}</th>
+                {draft.status === 'RECEIVED' && <th className="text-right py-2 w-24">Arrived</th>}
+                {receiving && <th className="text-right py-2 w-24">Arrived</th>}
+                <th className="text-right py-2 w-28">Cost Value</th>
+                {editable && <th className="w-10"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {draft.lines.map((l, i) => {
+                const key = transferLineKey(l);
+                const match = matches[i];
+                return (
+                  <tr key={key}>
+                    <td className="py-2 pr-2">
+                      <p className="font-bold text-slate-800">{l.name}</p>
+                      <p className="font-mono text-[10px] text-slate-400">{l.sku}</p>
+                      {l.lots?.map(lot => <p key={lot.lotNumber} className="font-mono text-[10px] text-amber-500">Lot {lot.lotNumber}{lot.expiresAt ? ` · exp ${lot.expiresAt}` : ''} · {lot.quantity}</p>)}
+                      {match && (
+                        match.product
+                          ? <p className="text-[10px] font-bold text-emerald-600">→ {match.product.name}{match.variant ? ` (${match.variant.name})` : ''}</p>
+                          : <p className={`text-[10px] font-bold ${l.variantId ? 'text-rose-600' : 'text-indigo-500'}`}>{l.variantId ? 'No matching variant here' : 'New item for this shop'}</p>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {editable
+                        ? <input type="number" min={1} value={l.quantity} onChange={e => setQuantity(key, parseInt(e.target.value) || 0)} className={`${inputCls} text-right`} />
+                        : <span className="font-bold">{l.quantity}</span>}
+                    </td>
+                    {draft.status === 'RECEIVED' && <td className={`py-2 text-right font-bold ${l.quantityReceived < l.quantity ? 'text-rose-600' : 'text-emerald-600'}`}>{l.quantityReceived}</td>}
+                    {receiving && (
+                      <td className="py-2 pl-2">
+                        <input type="number" min={0} max={l.quantity} value={received[key] ?? l.quantity} onChange={e => setReceived({ ...received, [key]: Math.max(0, parseInt(e.target.value) || 0) })} className={`${inputCls} text-right`} />
+                      </td>
+                    )}
+                    <td className="py-2 text-right font-black text-slate-900">{formatCurrency(l.quantity * l.unitCost)}</td>
+                    {editable && (
+                      <td className="py-2 text-right">
+                        <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter(x => transferLineKey(x) !== key) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              {draft.lines.length === 0 && (
+                <tr><td colSpan={5} className="py-10 text-center text-slate-300 italic">No items on this transfer yet.</td></tr>
+              )}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={draft.status === 'RECEIVED' || receiving ? 3 : 2} className="py-3 text-right text-[10px] font-black uppercase text-slate-400">Total at Cost</td>
+                <td className="py-3 text-right font-black text-slate-900">{formatCurrency(transferValue)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {editable && (
+            <div className="flex gap-2">
+              <select value={pickProduct} onChange={e => { setPickProduct(e.target.value); setPickVariant(''); }} className={inputCls}>
+                <option value="">Add an item…</option>
+                {products.filter(p => p.stock > 0 && !isBundle(p)).map(p => <option key={p.id} value={p.id}>{p.name} · {p.sku} · {p.stock} on hand</option>)}
+              </select>
+              {picked?.variants?.length ? (
+                <select value={pickVariant} onChange={e => setPickVariant(e.target.value)} className={`${inputCls} max-w-[12rem]`}>
+                  <option value="">Variant</option>
+                  {picked.variants.map(v => <option key={v.id} value={v.id}>{v.name} · {v.stock}</option>)}
+                </select>
+              ) : null}
+              <button onClick={addLine} disabled={!picked} className="px-4 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase flex items-center gap-1 disabled:opacity-30"><Plus size={14}/> Add</button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            {draft.dispatchedAt && <p className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 font-bold text-slate-600">Sent {new Date(draft.dispatchedAt).toLocaleString()}{draft.dispatchedBy && ` · ${draft.dispatchedBy}`}</p>}
+            {draft.receivedAt && <p className="bg-slate-50 border border-slate-100 rounded-xl px-4 py-2 font-bold text-slate-600">Received {new Date(draft.receivedAt).toLocaleString()}{draft.receivedBy && ` · ${draft.receivedBy}`}</p>}
+          </div>
+        </div>
+
+        {(editable || receiving || (outgoing && draft.status === 'IN_TRANSIT')) && (
+          <div className="p-6 border-t border-slate-100 flex flex-wrap gap-2 justify-between items-center">
+            {outgoing && draft.status === 'IN_TRANSIT' && <p className="text-xs font-bold text-slate-400">Waiting for {nameOf(draft.toBusinessId)} to confirm arrival.</p>}
+            {editable && (
+              <button onClick={() => window.confirm('Cancel this transfer?') && run(() => onSave({ ...draft, status: 'CANCELLED' }))} disabled={busy} className="px-4 py-3 text-rose-600 rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-rose-50 disabled:opacity-30"><Ban size={14}/> Cancel</button>
+            )}
+            <div className="flex gap-2 ml-auto">
+              {editable && (
+                <>
+                  <button onClick={() => run(() => onSave(draft))} disabled={busy} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase hover:bg-slate-50 disabled:opacity-30">Save Draft</button>
+                  <button onClick={handleDispatch} disabled={busy} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-indigo-100 disabled:opacity-30"><Truck size={14}/> Dispatch</button>
+                </>
+              )}
+              {receiving && (
+                <button onClick={handleReceive} disabled={busy} className="px-6 py-3 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase flex items-center gap-2 shadow-xl shadow-emerald-100 disabled:opacity-30"><PackageCheck size={14}/> Confirm Arrival</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
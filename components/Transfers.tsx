@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { ArrowRightLeft, Plus, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { Business, Product, StockTransfer, TransferStatus } from '../types';
+import { formatCurrency } from '../constants';
+import { TRANSFER_STATUS_LABELS, newTransfer, transferShortfall } from '../services/transferService';
+import { TransferModal } from './TransferModal';
+
+interface TransfersProps {
+  transfers: StockTransfer[];
+  products: Product[];
+  businesses: Business[];
+  activeBusinessId: string;
+  canManage: boolean;
+  onSave: (t: StockTransfer) => Promise<void>;
+  onDispatch: (t: StockTransfer) => Promise<void>;
+  onReceive: (t: StockTransfer, received: Record<string, number>) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<TransferStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600 border-slate-200',
+  IN_TRANSIT: 'bg-amber-50 text-amber-600 border-amber-100',
+  RECEIVED: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  CANCELLED: 'bg-rose-50 text-rose-500 border-rose-100'
+};
+
+export const Transfers: React.FC<TransfersProps> = ({ transfers, products, businesses, activeBusinessId, canManage, onSave, onDispatch, onReceive }) => {
+  const [open, setOpen] = useState<StockTransfer | null>(null);
+  const others = businesses.filter(b => b.id !== activeBusinessId);
+  const nameOf = (id: string) => businesses.find(b => b.id === id)?.name || 'Other branch';
+  const arriving = transfers.filter(t => t.toBusinessId === activeBusinessId && t.status === 'IN_TRANSIT').length;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-[3rem] shadow-sm overflow-hidden">
+      <div className="p-8 border-b border-slate-100 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2"><ArrowRightLeft size={20}/> Branch Transfers</h3>
+          <p className="text-[10px] font-black uppercase text-slate-400">{arriving > 0 ? `${arriving} transfer(s) on the way here` : 'Move stock between your businesses'}</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => others.length > 0 ? setOpen(newTransfer(activeBusinessId, others[0].id, transfers)) : alert('Add another business in Settings before transferring stock.')}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase flex items-center gap-1 shadow-lg shadow-indigo-100"
+          >
+            <Plus size={12}/> New Transfer
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+            <tr>
+              <th className="px-8 py-4">Transfer</th>
+              <th className="px-8 py-4">Direction</th>
+              <th className="px-8 py-4">Status</th>
+              <th className="px-8 py-4">Raised</th>
+              <th className="px-8 py-4 text-right">Units</th>
+              <th className="px-8 py-4 text-right">At Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {transfers.map(t => {
+              const outgoing = t.fromBusinessId === activeBusinessId;
+              const short = transferShortfall(t);
+              return (
+                <tr key={t.id} onClick={() => setOpen(t)} className="hover:bg-indigo-50/40 cursor-pointer transition-all">
+                  <td className="px-8 py-4 font-mono font-bold text-slate-900">{t.transferNumber}</td>
+                  <td className="px-8 py-4 font-bold text-slate-700">
+                    <span className="inline-flex items-center gap-1">
+                      {outgoing ? <ArrowUpRight size={14} className="text-rose-500"/> : <ArrowDownLeft size={14} className="text-emerald-500"/>}
+                      {outgoing ? `To ${nameOf(t.toBusinessId)}` : `From ${nameOf(t.fromBusinessId)}`}
+                    </span>
+                  </td>
+                  <td className="px-8 py-4">
+                    <span className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border ${STATUS_STYLES[t.status]}`}>{TRANSFER_STATUS_LABELS[t.status]}</span>
+                    {short > 0 && <span className="ml-2 text-[10px] font-black text-rose-600">{short} short</span>}
+                  </td>
+                  <td className="px-8 py-4 text-sm text-slate-500">{new Date(t.createdAt).toLocaleDateString()}</td>
+                  <td className="px-8 py-4 text-right font-bold text-slate-700">{t.lines.reduce((s, l) => s + l.quantity, 0)}</td>
+                  <td className="px-8 py-4 text-right font-black text-slate-900">{formatCurrency(t.lines.reduce((s, l) => s + l.quantity * l.unitCost, 0))}</td>
+                </tr>
+              );
+            })}
+            {transfers.length === 0 && (
+              <tr><td colSpan={6} className="p-16 text-center text-slate-300 italic">No transfers yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {open && (
+        <TransferModal
+          transfer={open}
+          products={products}
+          businesses={businesses}
+          activeBusinessId={activeBusinessId}
+          canManage={canManage}
+          onSave={onSave}
+          onDispatch={onDispatch}
+          onReceive={onReceive}
+          onClose={() => setOpen(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { Plus, Trash2, Layers, RefreshCw } from 'lucide-react';
+import { ModifierGroup, OptionGroup, Product, ProductVariant } from '../types';
+import { generateVariants } from '../services/variantService';
+
+interface VariantEditorProps {
+  item: Partial<Product>;
+  onChange: (patch: Partial<Product>) => void;
+}
+
+const inputCls = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-50";
+
+export const VariantEditor: React.FC<VariantEditorProps> = ({ item, onChange }) => {
+  const groups = item.optionGroups || [];
+  const variants = item.variants || [];
+  const modifierGroups = item.modifierGroups || [];
+
+  const setGroup = (idx: number, patch: Partial<OptionGroup>) =>
+    onChange({ optionGroups: groups.map((g, i) => i === idx ? { ...g, ...patch } : g) });
+
+  const setVariant = (id: string, patch: Partial<ProductVariant>) =>
+    onChange({ variants: variants.map(v => v.id === id ? { ...v, ...patch } : v) });
+
+  const setModifierGroup = (id: string, patch: Partial<ModifierGroup>) =>
+    onChange({ modifierGroups: modifierGroups.map(g => g.id === id ? { ...g, ...patch } : g) });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-400 uppercase ml-1 flex items-center gap-2"><Layers size={14}/> Variants (size, color, flavor)</label>
+          <button onClick={() => onChange({ optionGroups: [...groups, { name: '', values: [] }] })} className="text-[10px] font-black text-indigo-600 uppercase flex items-center gap-1"><Plus size={12}/> Option</button>
+        </div>
+        {groups.map((g, idx) => (
+          <div key={idx} className="flex gap-2">
+            <input value={g.name} onChange={e => setGroup(idx, { name: e.target.value })} placeholder="Size" className={`${inputCls} max-w-[8rem]`} />
+            <input
+              defaultValue={g.values.join(', ')}
+              onBlur={e => setGroup(idx, { values: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+              placeholder="Small, Medium, Large"
+              className={inputCls}
+            />
+            <button onClick={() => onChange({ optionGroups: groups.filter((_, i) => i !== idx) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+          </div>
+        ))}
+        {groups.length > 0 && (
+          <button onClick={() => onChange({ variants: generateVariants(item, groups) })} className="w-full py-2 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-[10px] font-black uppercase flex items-center justify-center gap-2"><RefreshCw size={12}/> Build Variant List</button>
+        )}
+        {variants.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="text-[9px] font-black text-slate-400 uppercase">
+              <tr><th className="text-left py-1">Variant</th><th className="text-left py-1">SKU</th><th className="text-left py-1">Barcode</th><th className="text-left py-1 w-20">Price</th><th className="text-left py-1 w-16">Stock</th></tr>
+            </thead>
+            <tbody>
+              {variants.map(v => (
+                <tr key={v.id}>
+                  <td className="py-1 pr-2 font-bold text-slate-700">{v.name}</td>
+                  <td className="py-1 pr-2"><input value={v.sku} onChange={e => setVariant(v.id, { sku: e.target.value })} className={`${inputCls} font-mono`} /></td>
+                  <td className="py-1 pr-2"><input value={v.barcode || ''} onChange={e => setVariant(v.id, { barcode: e.target.value || undefined })} className={`${inputCls} font-mono`} /></td>
+                  <td className="py-1 pr-2"><input type="number" value={v.price} onChange={e => setVariant(v.id, { price: parseFloat(e.target.value) || 0 })} className={inputCls} /></td>
+                  <td className="py-1"><input type="number" value={v.stock} onChange={e => setVariant(v.id, { stock: parseInt(e.target.value) || 0 })} className={inputCls} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Add-ons</label>
+          <button onClick={() => onChange({ modifierGroups: [...modifierGroups, { id: `MOD-${Date.now()}`, name: '', min: 0, max: 1, options: [] }] })} className="text-[10px] font-black text-indigo-600 uppercase flex items-center gap-1"><Plus size={12}/> Add-on Group</button>
+        </div>
+        {modifierGroups.map(g => (
+          <div key={g.id} className="p-3 bg-slate-50/50 border border-slate-100 rounded-2xl space-y-2">
+            <div className="flex gap-2 items-center">
+              <input value={g.name} onChange={e => setModifierGroup(g.id, { name: e.target.value })} placeholder="Toppings" className={inputCls} />
+              <span className="text-[9px] font-black text-slate-400 uppercase">Min</span>
+              <input type="number" min={0} value={g.min} onChange={e => setModifierGroup(g.id, { min: Math.max(0, parseInt(e.target.value) || 0) })} className={`${inputCls} w-14`} />
+              <span className="text-[9px] font-black text-slate-400 uppercase">Max</span>
+              <input type="number" min={0} value={g.max} onChange={e => setModifierGroup(g.id, { max: Math.max(0, parseInt(e.target.value) || 0) })} className={`${inputCls} w-14`} title="0 means no limit" />
+              <button onClick={() => onChange({ modifierGroups: modifierGroups.filter(x => x.id !== g.id) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+            </div>
+            {g.options.map(o => (
+              <div key={o.id} className="flex gap-2 pl-4">
+                <input value={o.name} onChange={e => setModifierGroup(g.id, { options: g.options.map(x => x.id === o.id ? { ...x, name: e.target.value } : x) })} placeholder="Extra pearls" className={inputCls} />
+                <input type="number" value={o.price} onChange={e => setModifierGroup(g.id, { options: g.options.map(x => x.id === o.id ? { ...x, price: parseFloat(e.target.value) || 0 } : x) })} className={`${inputCls} w-24`} />
+                <button onClick={() => setModifierGroup(g.id, { options: g.options.filter(x => x.id !== o.id) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+              </div>
+            ))}
+            <button onClick={() => setModifierGroup(g.id, { options: [...g.options, { id: `OPT-${Date.now()}`, name: '', price: 0 }] })} className="ml-4 text-[10px] font-black text-slate-400 uppercase hover:text-indigo-600 flex items-center gap-1"><Plus size={12}/> Choice</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
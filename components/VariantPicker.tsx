@@ -0,0 +1,95 @@
+
+import React, { useState, useMemo } from 'react';
+import { X, Plus, Check } from 'lucide-react';
+import { CartItem, Product } from '../types';
+import { formatCurrency } from '../constants';
+import { buildCartItem, hasVariants, resolveModifiers, validateModifiers } from '../services/variantService';
+
+interface VariantPickerProps {
+  product: Product;
+  available: (variantId?: string) => number;
+  onAdd: (item: CartItem) => void;
+  onClose: () => void;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ product, available, onAdd, onClose }) => {
+  const groups = product.optionGroups || [];
+  const modifierGroups = product.modifierGroups || [];
+  const [choice, setChoice] = useState<Record<string, string>>(() => {
+    const first = product.variants?.find(v => available(v.id) > 0) || product.variants?.[0];
+    return first ? { ...first.options } : {};
+  });
+  const [picked, setPicked] = useState<Record<string, string[]>>({});
+
+  const variant = useMemo(
+    () => product.variants?.find(v => groups.every(g => v.options[g.name] === choice[g.name])),
+    [product, groups, choice]
+  );
+  const modifiers = useMemo(() => resolveModifiers(modifierGroups, picked), [modifierGroups, picked]);
+  const ruleError = validateModifiers(modifierGroups, picked);
+  const preview = buildCartItem(product, variant, modifiers);
+  const stockLeft = available(variant?.id);
+  const blocked = (hasVariants(product) && !variant) || stockLeft <= 0 || !!ruleError;
+
+  const toggleModifier = (groupId: string, optionId: string, max: number) => {
+    setPicked(prev => {
+      const current = prev[groupId] || [];
+      if (current.includes(optionId)) return { ...prev, [groupId]: current.filter(id => id !== optionId) };
+      // Single-choice groups swap the pick instead of refusing it
+      if (max === 1) return { ...prev, [groupId]: [optionId] };
+      if (max > 0 && current.length >= max) return prev;
+      return { ...prev, [groupId]: [...current, optionId] };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-[2.5rem] p-8 space-y-6 shadow-3xl animate-in zoom-in-95">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-black text-slate-900">{product.name}</h3>
+            <p className="text-[10px] font-black uppercase text-slate-400">{variant ? `${variant.sku} · ${stockLeft} in stock` : 'Choose options'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-900"><X size={20}/></button>
+        </div>
+
+        {groups.map(g => (
+          <div key={g.name} className="space-y-2">
+            <p className="text-[10px] font-black uppercase text-slate-400">{g.name}</p>
+            <div className="flex flex-wrap gap-2">
+              {g.values.map(v => (
+                <button key={v} onClick={() => setChoice({ ...choice, [g.name]: v })} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${choice[g.name] === v ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 border border-slate-200 text-slate-500 hover:border-indigo-300'}`}>{v}</button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {modifierGroups.map(g => (
+          <div key={g.id} className="space-y-2">
+            <p className="text-[10px] font-black uppercase text-slate-400">
+              {g.name} <span className="normal-case font-bold">{g.min > 0 ? `· required` : '· optional'}{g.max > 0 && ` · up to ${g.max}`}</span>
+            </p>
+            <div className="space-y-1">
+              {g.options.map(o => {
+                const on = (picked[g.id] || []).includes(o.id);
+                return (
+                  <button key={o.id} onClick={() => toggleModifier(g.id, o.id, g.max)} className={`w-full flex justify-between items-center px-4 py-3 rounded-xl text-xs font-bold transition-all ${on ? 'bg-indigo-50 border border-indigo-200 text-indigo-700' : 'bg-slate-50 border border-slate-100 text-slate-600'}`}>
+                    <span className="flex items-center gap-2">{on ? <Check size={14}/> : <Plus size={14} className="text-slate-300"/>} {o.name}</span>
+                    <span>{o.price > 0 ? `+${formatCurrency(o.price)}` : 'Free'}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {ruleError && <p className="text-[10px] font-bold text-amber-600">{ruleError}</p>}
+        {variant && stockLeft <= 0 && <p className="text-[10px] font-bold text-rose-600">This option is out of stock.</p>}
+
+        <button disabled={blocked} onClick={() => onAdd(preview)} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-100 disabled:opacity-30 flex items-center justify-between px-6">
+          <span>Add to Basket</span><span>{formatCurrency(preview.price)}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
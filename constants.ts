@@ -1,4 +1,4 @@
-import { PromoterTier } from './types';
+import { PromoterTier, PaymentMethod, ReceiptTemplate } from './types';
 
 // Currency Formatter for Philippine Peso
 export const formatCurrency = (amount: number): string => {
@@ -14,4 +14,58 @@ export const PROMOTER_TIERS: PromoterTier[] = [
   { name: 'Silver', commissionRate: 0.20, minSales: 50000, color: 'text-slate-300' },
   { name: 'Gold', commissionRate: 0.25, minSales: 150000, color: 'text-yellow-400' },
   { name: 'Platinum', commissionRate: 0.30, minSales: 500000, color: 'text-cyan-400' },
-];
\ No newline at end of file
+];
+export const PAYMENT_METHODS: { id: PaymentMethod; label: string; requiresReference: boolean }[] = [
+  { id: 'Cash', label: 'Cash', requiresReference: false },
+  { id: 'GCash', label: 'GCash', requiresReference: true },
+  { id: 'PayMaya', label: 'Maya', requiresReference: true },
+  { id: 'QRPH', label: 'QR Ph', requiresReference: true },
+  { id: 'Card', label: 'Card', requiresReference: true },
+  { id: 'Stripe', label: 'Stripe', requiresReference: true },
+  { id: 'PayPal', label: 'PayPal', requiresReference: true },
+  { id: 'PayMongo', label: 'PayMongo', requiresReference: true },
+];
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  paperWidth: 58,
+  showOperator: true,
+  showTaxBreakdown: true
+};
+
+// Used for items that have no reorder point of their own. Items are low at or
+// below their reorder point, so 9 keeps the old "fewer than 10" rule.
+export const DEFAULT_REORDER_POINT = 9;
+
+// Seeded for a business that has no categories yet
+export const DEFAULT_CATEGORIES = ['Food', 'Drinks', 'Retail'];
+
+// Tailwind palettes offered for category chips; class names are spelled out so the CDN build picks them up
+export const CATEGORY_COLORS: Record<string, { chip: string; active: string }> = {
+  slate: { chip: 'bg-slate-50 text-slate-600 border-slate-200', active: 'bg-slate-700 text-white border-slate-700' },
+  indigo: { chip: 'bg-indigo-50 text-indigo-600 border-indigo-100', active: 'bg-indigo-600 text-white border-indigo-600' },
+  emerald: { chip: 'bg-emerald-50 text-emerald-600 border-emerald-100', active: 'bg-emerald-600 text-white border-emerald-600' },
+  amber: { chip: 'bg-amber-50 text-amber-600 border-amber-100', active: 'bg-amber-500 text-white border-amber-500' },
+  rose: { chip: 'bg-rose-50 text-rose-600 border-rose-100', active: 'bg-rose-600 text-white border-rose-600' },
+  sky: { chip: 'bg-sky-50 text-sky-600 border-sky-100', active: 'bg-sky-600 text-white border-sky-600' },
+  violet: { chip: 'bg-violet-50 text-violet-600 border-violet-100', active: 'bg-violet-600 text-white border-violet-600' },
+  orange: { chip: 'bg-orange-50 text-orange-600 border-orange-100', active: 'bg-orange-500 text-white border-orange-500' }
+};
+
+// Receipt numbers are reserved from the server this many at a time, and
+// topped up whenever fewer than REFILL_AT are left
+export const RECEIPT_BLOCK_SIZE = 200;
+export const RECEIPT_BLOCK_REFILL_AT = 50;
+
+// Lots expiring within this many days show under Expiring Soon
+export const EXPIRY_WARNING_DAYS = 30;
+
+// Offline writes the cloud refuses are retried after 30s, doubling up to an
+// hour, and set aside for review in Settings after this many tries
+export const SYNC_RETRY_BASE_MS = 30_000;
+export const SYNC_RETRY_MAX_MS = 60 * 60_000;
+export const SYNC_MAX_ATTEMPTS = 8;
+
+// Cloud pulls fetch this many rows per request, and re-read the last few
+// seconds before the watermark in case a slow write committed behind it
+export const SYNC_PAGE_SIZE = 1000;
+export const SYNC_WATERMARK_OVERLAP_MS = 5_000;
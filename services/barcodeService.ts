@@ -0,0 +1,75 @@
+import { Product, ProductVariant } from '../types';
+
+export type Symbology = 'EAN-13' | 'UPC-A' | 'EAN-8' | 'CODE128';
+
+// GS1 mod-10 check digit shared by EAN-13, UPC-A and EAN-8.
+const hasValidCheckDigit = (digits: string) => {
+  const body = digits.slice(0, -1).split('').reverse().map(Number);
+  const sum = body.reduce((s, d, i) => s + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// Returns the symbology a code can be printed as, or null if it is not a
+// usable barcode. Numeric codes of GS1 lengths must carry a correct check digit.
+export const detectSymbology = (code: string): Symbology | null => {
+  const c = code.trim();
+  if (!c) return null;
+  if (/^\d+$/.test(c)) {
+    if (c.length === 13) return hasValidCheckDigit(c) ? 'EAN-13' : null;
+    if (c.length === 12) return hasValidCheckDigit(c) ? 'UPC-A' : null;
+    if (c.length === 8) return hasValidCheckDigit(c) ? 'EAN-8' : null;
+  }
+  return /^[\x20-\x7E]{1,48}$/.test(c) ? 'CODE128' : null;
+};
+
+export interface ScanMatch {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+// Exact barcode match first, then SKU, so internal labels printed from the SKU
+// still scan. Variant codes resolve straight to that variant.
+export const findByCode = (products: Product[], code: string): ScanMatch | undefined => {
+  const c = code.trim().toLowerCase();
+  if (!c) return undefined;
+  for (const field of ['barcode', 'sku'] as const) {
+    for (const product of products) {
+      const variant = product.variants?.find(v => v[field]?.toLowerCase() === c);
+      if (variant) return { product, variant };
+      if (product[field]?.toLowerCase() === c) return { product };
+    }
+  }
+  return undefined;
+};
+
+const isEditable = (el: EventTarget | null) =>
+  el instanceof HTMLElement && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+
+// Keyboard-wedge scanners "type" the code far faster than a person and finish
+// with Enter. Keys arriving within maxGap ms of each other are buffered; an
+// Enter after at least minLength of them is reported as a scan. Typing into
+// form fields is left alone.
+export const attachWedgeScanner = (onScan: (code: string) => void, minLength = 6, maxGap = 40) => {
+  let buffer = '';
+  let last = 0;
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isEditable(e.target)) return;
+    const now = Date.now();
+    if (now - last > maxGap) buffer = '';
+    last = now;
+
+    if (e.key === 'Enter') {
+      if (buffer.length >= minLength) {
+        e.preventDefault();
+        onScan(buffer);
+      }
+      buffer = '';
+      return;
+    }
+    if (e.key.length === 1) buffer += e.key;
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  return () => window.removeEventListener('keydown', onKeyDown);
+};
@@ -0,0 +1,80 @@
+import { BundleComponent, BundlePart, Product } from '../types';
+import { stockKey } from './variantService';
+
+export const isBundle = (p: { components?: BundleComponent[] }) => !!p.components?.length;
+
+export const validateBundle = (item: Partial<Product>, products: Product[]): string | null => {
+  if (!item.components?.length) return null;
+  if (item.variants?.length) return 'A bundle sells as one item, so it cannot have variants of its own.';
+  const seen = new Set<string>();
+  for (const c of item.components) {
+    const part = products.find(p => p.id === c.productId);
+    if (!part) return 'One of the bundle items is no longer in this shop. Please remove it.';
+    if (part.id === item.id || isBundle(part)) return `${part.name} can't go inside this bundle.`;
+    if (part.variants?.length && !part.variants.some(v => v.id === c.variantId)) return `Choose which option of ${part.name} goes in the bundle.`;
+    if (!Number.isInteger(c.quantity) || c.quantity <= 0) return `Enter how many ${part.name} go in each bundle.`;
+    const key = stockKey(c.productId, c.variantId);
+    if (seen.has(key)) return `${part.name} is listed twice. Put the total in one row.`;
+    seen.add(key);
+  }
+  return null;
+};
+
+// Stock the given basket lines draw, keyed like variantService.stockKey.
+// Bundles count against their components rather than themselves.
+export const stockDemand = (
+  items: { id: string; variantId?: string; quantity: number; components?: BundleComponent[] }[]
+): Record<string, { productId: string; variantId?: string; quantity: number }> => {
+  const demand: Record<string, { productId: string; variantId?: string; quantity: number }> = {};
+  const add = (productId: string, variantId: string | undefined, quantity: number) => {
+    const key = stockKey(productId, variantId);
+    demand[key] = { productId, variantId, quantity: (demand[key]?.quantity || 0) + quantity };
+  };
+  items.forEach(i => {
+    if (i.components?.length) i.components.forEach(c => add(c.productId, c.variantId, c.quantity * i.quantity));
+    else add(i.id, i.variantId, i.quantity);
+  });
+  return demand;
+};
+
+// How many whole bundles the components on hand can make
+export const bundleAvailability = (bundle: Product, available: (productId: string, variantId?: string) => number) =>
+  Math.max(0, Math.min(...bundle.components!.map(c => Math.floor(available(c.productId, c.variantId) / c.quantity))));
+
+// Bundles hold no stock of their own; their on-hand is what their components can make.
+export const withBundleStock = (products: Product[]): Product[] => {
+  const byId = new Map(products.map(p => [p.id, p]));
+  const onHand = (productId: string, variantId?: string) => {
+    const p = byId.get(productId);
+    if (!p) return 0;
+    return variantId ? p.variants?.find(v => v.id === variantId)?.stock ?? 0 : p.stock;
+  };
+  return products.map(p => isBundle(p) ? { ...p, stock: bundleAvailability(p, onHand) } : p);
+};
+
+// Snapshot of one bundle's contents for an order line. Each part's share of the
+// bundle price follows its own retail value, so a bundle discount is spread evenly.
+export const bundleParts = (bundle: Product, products: Product[]): BundlePart[] => {
+  const parts = bundle.components!.map(c => {
+    const item = products.find(p => p.id === c.productId);
+    const variant = item?.variants?.find(v => v.id === c.variantId);
+    return {
+      productId: c.productId,
+      variantId: c.variantId,
+      name: variant ? `${item!.name} (${variant.name})` : item?.name || 'Removed item',
+      category: item?.category || bundle.category,
+      quantity: c.quantity,
+      weight: (variant?.price ?? item?.price ?? 0) * c.quantity
+    };
+  });
+  const total = parts.reduce((s, p) => s + p.weight, 0);
+  return parts.map(({ weight, ...p }) => ({ ...p, share: total > 0 ? weight / total : 1 / parts.length }));
+};
+
+// Retail value of the components at their own prices, for comparing with the bundle price
+export const componentsValue = (components: BundleComponent[], products: Product[]) =>
+  components.reduce((s, c) => {
+    const item = products.find(p => p.id === c.productId);
+    const variant = item?.variants?.find(v => v.id === c.variantId);
+    return s + (variant?.price ?? item?.price ?? 0) * c.quantity;
+  }, 0);
@@ -0,0 +1,148 @@
+import { Category, Product } from '../types';
+import { DEFAULT_CATEGORIES } from '../constants';
+import { dataService } from './dataService';
+
+// What a category edit touches: categories to write, categories to remove and
+// products whose category name changed.
+export interface CategoryChange {
+  save: Category[];
+  remove: Category[];
+  products: Product[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const bySortOrder = (a: Category, b: Category) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+export const childrenOf = (categories: Category[], parentId?: string) =>
+  categories.filter(c => (c.parentId || undefined) === parentId).sort(bySortOrder);
+
+// Depth-first, siblings in their saved order. Categories whose parent has
+// gone missing are shown at the top level rather than lost.
+export const categoryTree = (categories: Category[]): { category: Category; depth: number }[] => {
+  const ids = new Set(categories.map(c => c.id));
+  const roots = categories.filter(c => !c.parentId || !ids.has(c.parentId)).sort(bySortOrder);
+  const out: { category: Category; depth: number }[] = [];
+  const walk = (c: Category, depth: number) => {
+    out.push({ category: c, depth });
+    childrenOf(categories, c.id).forEach(child => walk(child, depth + 1));
+  };
+  roots.forEach(c => walk(c, 0));
+  return out;
+};
+
+export const categoryNames = (categories: Category[]) => categoryTree(categories).map(n => n.category.name);
+
+// The category and everything nested under it
+export const subtreeIds = (categories: Category[], id: string): Set<string> => {
+  const ids = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    categories.forEach(c => {
+      if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) { ids.add(c.id); grew = true; }
+    });
+  }
+  return ids;
+};
+
+export const subtreeNames = (categories: Category[], id: string) => {
+  const ids = subtreeIds(categories, id);
+  return new Set(categories.filter(c => ids.has(c.id)).map(c => c.name));
+};
+
+const nextSortOrder = (categories: Category[], parentId?: string) =>
+  childrenOf(categories, parentId).reduce((m, c) => Math.max(m, c.sortOrder + 1), 0);
+
+export const newCategory = (name: string, categories: Category[], parentId?: string): Category => ({
+  id: `CAT-${Date.now()}`,
+  name: name.trim(),
+  parentId,
+  sortOrder: nextSortOrder(categories, parentId)
+});
+
+export const validateCategory = (c: Category, categories: Category[]): string | null => {
+  if (!c.name.trim()) return 'Please enter a category name.';
+  if (categories.some(x => x.id !== c.id && sameName(x.name, c.name))) return `There is already a category called ${c.name.trim()}.`;
+  if (c.parentId && subtreeIds(categories, c.id).has(c.parentId)) return "A category can't sit inside itself or one of its own subcategories.";
+  return null;
+};
+
+// Saves edits to a category. A new name is carried over to every product
+// filed under the old one; a new parent puts it last among its new siblings.
+export const updateCategory = (before: Category | undefined, after: Category, categories: Category[], products: Product[]): CategoryChange => {
+  const problem = validateCategory(after, categories);
+  if (problem) throw new Error(problem);
+  const next = { ...after, name: after.name.trim() };
+  if (before && (before.parentId || undefined) !== (next.parentId || undefined)) {
+    next.sortOrder = nextSortOrder(categories.filter(c => c.id !== next.id), next.parentId);
+  }
+  const renamed = before && before.name !== next.name;
+  return {
+    save: [next],
+    remove: [],
+    products: renamed ? products.filter(p => p.category === before!.name).map(p => ({ ...p, category: next.name })) : []
+  };
+};
+
+// Folds source into target: its products move over and its subcategories
+// are re-parented under target.
+export const mergeCategory = (source: Category, target: Category, categories: Category[], products: Product[]): CategoryChange => {
+  if (source.id === target.id) throw new Error('Choose a different category to merge into.');
+  if (subtreeIds(categories, source.id).has(target.id)) throw new Error(`${target.name} sits inside ${source.name}. Merge into a category outside it.`);
+  let order = nextSortOrder(categories, target.id);
+  return {
+    save: childrenOf(categories, source.id).map(c => ({ ...c, parentId: target.id, sortOrder: order++ })),
+    remove: [source],
+    products: products.filter(p => p.category === source.name).map(p => ({ ...p, category: target.name }))
+  };
+};
+
+export const deleteCategory = (c: Category, categories: Category[], products: Product[]): CategoryChange => {
+  const used = products.filter(p => p.category === c.name).length;
+  if (used > 0) throw new Error(`${used} item(s) are filed under ${c.name}. Merge it into another category instead.`);
+  if (childrenOf(categories, c.id).length > 0) throw new Error(`Move or remove the subcategories of ${c.name} first.`);
+  return { save: [], remove: [c], products: [] };
+};
+
+// Swaps a category with its neighbour among siblings.
+export const moveCategory = (c: Category, direction: -1 | 1, categories: Category[]): CategoryChange => {
+  const siblings = childrenOf(categories, c.parentId || undefined);
+  const i = siblings.findIndex(s => s.id === c.id);
+  const j = i + direction;
+  if (i < 0 || j < 0 || j >= siblings.length) return { save: [], remove: [], products: [] };
+  const reordered = [...siblings];
+  [reordered[i], reordered[j]] = [reordered[j], reordered[i]];
+  return { save: reordered.map((s, k) => ({ ...s, sortOrder: k })), remove: [], products: [] };
+};
+
+export const categoryService = {
+  async fetch(businessId: string): Promise<Category[]> {
+    return dataService.fetch<Category>('categories', 'categories', businessId);
+  },
+
+  async apply(change: CategoryChange, businessId: string): Promise<void> {
+    if (change.save.length > 0) await dataService.upsertMany('categories', 'categories', change.save.map(c => ({ ...c, businessId })));
+    for (const c of change.remove) await dataService.delete('categories', 'categories', c.id);
+    if (change.products.length > 0) await dataService.upsertMany('products', 'products', change.products.map(p => ({ ...p, businessId })));
+  },
+
+  // Businesses set up before categories were synced start from the list kept
+  // on this device (or the defaults), plus any category their items already
+  // use. Ids are derived from the name so two devices agree on them.
+  async seedMissing(businessId: string, existing: Category[], products: Product[], legacyNames: string[] = DEFAULT_CATEGORIES): Promise<Category[]> {
+    const wanted = existing.length === 0 ? [...legacyNames, ...products.map(p => p.category)] : products.map(p => p.category);
+    const created: Category[] = [];
+    wanted.filter(Boolean).forEach(name => {
+      if ([...existing, ...created].some(c => sameName(c.name, name))) return;
+      created.push({
+        id: `CAT-${businessId}-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        businessId,
+        name: name.trim(),
+        sortOrder: nextSortOrder([...existing, ...created])
+      });
+    });
+    if (created.length > 0) await dataService.upsertMany('categories', 'categories', created);
+    return created;
+  }
+};
@@ -0,0 +1,156 @@
+import { Business, ConflictPolicy } from '../types';
+import { dbService } from './dbService';
+
+// Defaults; a business can override any table in its settings
+export const CONFLICT_POLICIES: Record<string, ConflictPolicy> = {
+  products: 'MERGE_FIELDS',
+  categories: 'MERGE_FIELDS',
+  suppliers: 'MERGE_FIELDS',
+  businesses: 'MERGE_FIELDS',
+  users: 'MANUAL',
+  purchase_orders: 'MANUAL',
+  stock_counts: 'MANUAL',
+  stock_transfers: 'MANUAL',
+  orders: 'LAST_WRITER_WINS',
+  shifts: 'LAST_WRITER_WINS',
+  receipt_series: 'LAST_WRITER_WINS',
+  referrals: 'LAST_WRITER_WINS'
+};
+
+export const POLICY_LABELS: Record<ConflictPolicy, string> = {
+  LAST_WRITER_WINS: 'Latest edit wins',
+  MERGE_FIELDS: 'Merge field by field',
+  MANUAL: 'Review by hand'
+};
+
+// Rows that are only ever inserted, with ids unique to the write, can't
+// conflict and are sent without a version check.
+export const APPEND_ONLY_TABLES = new Set(['stock_movements', 'order_lines']);
+
+const businessPolicies = new Map<string, Partial<Record<string, ConflictPolicy>>>();
+
+// The business a row belongs to; a business row belongs to itself
+const ownerOf = (table: string, row: any): string | undefined => table === 'businesses' ? row?.id : row?.businessId;
+
+// The policy for a table, as overridden by the business that owns `row`
+export const policyFor = (table: string, row?: any): ConflictPolicy => {
+  const owner = ownerOf(table, row);
+  return (owner && businessPolicies.get(owner)?.[table]) || CONFLICT_POLICIES[table] || 'LAST_WRITER_WINS';
+};
+
+export interface SyncConflict {
+  id: string;
+  table: string;
+  recordId: string;
+  action: 'UPSERT' | 'DELETE';
+  // This device's copy (the deleted row for a DELETE) and the cloud's, which
+  // is null when the row has since been deleted in the cloud
+  local: any;
+  remote: any | null;
+  // The row as this device last saw it before editing, when known
+  base?: any;
+  fields: string[];
+  detectedAt: number;
+}
+
+const STORE = 'sync_conflicts';
+const SYNC_FIELDS = new Set(['version', 'updatedAt', 'syncedAt']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+export const conflictId = (table: string, recordId: string) => `${table}:${recordId}`;
+
+// Cloud rows come back with dates as Date objects and nulls for empty
+// columns; local rows hold ISO strings and leave them out.
+const normalize = (v: any): any => {
+  if (v === null || v === undefined) return undefined;
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === 'string' && ISO_DATE.test(v)) {
+    const t = Date.parse(v);
+    return isNaN(t) ? v : t;
+  }
+  return v;
+};
+
+export const sameValue = (a: any, b: any) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const changedFields = (from: any, to: any): string[] => {
+  const keys = new Set([...Object.keys(from || {}), ...Object.keys(to || {})]);
+  return [...keys].filter(k => !SYNC_FIELDS.has(k) && !sameValue(from?.[k], to?.[k]));
+};
+
+export const updatedAtOf = (row: any): number => {
+  const t = row?.updatedAt ? new Date(row.updatedAt).getTime() : 0;
+  return isNaN(t) ? 0 : t;
+};
+
+// Three-way merge against the row both sides started from. Fields only one
+// side touched are taken from that side; fields both changed differently are
+// clashes. Without a base every differing field is a clash.
+export const mergeFields = (base: any | undefined, local: any, remote: any): { merged: any; clashes: string[] } => {
+  if (!base) return { merged: remote, clashes: changedFields(remote, local) };
+  const mine = changedFields(base, local);
+  const theirs = new Set(changedFields(base, remote));
+  const clashes = mine.filter(f => theirs.has(f) && !sameValue(local[f], remote[f]));
+  const merged = { ...remote };
+  mine.filter(f => !theirs.has(f)).forEach(f => { merged[f] = local[f]; });
+  return { merged, clashes };
+};
+
+export type Settlement =
+  | { kind: 'WRITE'; row?: any }
+  | { kind: 'KEEP_REMOTE' }
+  | { kind: 'PARK' };
+
+// What to do with a write the cloud refused because its row has moved on.
+// WRITE retries against the cloud's current version (with `row` replacing
+// the local copy when given); KEEP_REMOTE drops the local edit.
+export const settleConflict = (
+  table: string,
+  action: 'UPSERT' | 'DELETE',
+  local: any,
+  base: any | undefined,
+  remote: any | null,
+  editedAt: number
+): Settlement => {
+  const policy = policyFor(table, local);
+  if (action === 'DELETE') {
+    if (!remote) return { kind: 'KEEP_REMOTE' };
+    if (policy === 'LAST_WRITER_WINS') return editedAt >= updatedAtOf(remote) ? { kind: 'WRITE' } : { kind: 'KEEP_REMOTE' };
+    return { kind: 'PARK' };
+  }
+  const restamp = (row: any) => ({ ...row, version: (remote?.version ?? 0) + 1, updatedAt: new Date().toISOString() });
+  // Deleted in the cloud since this device last saw it
+  if (!remote) return policy === 'LAST_WRITER_WINS' ? { kind: 'WRITE', row: restamp(local) } : { kind: 'PARK' };
+  if (changedFields(remote, local).length === 0) return { kind: 'KEEP_REMOTE' };
+  if (policy === 'LAST_WRITER_WINS') return updatedAtOf(local) >= updatedAtOf(remote) ? { kind: 'WRITE', row: restamp(local) } : { kind: 'KEEP_REMOTE' };
+  if (policy === 'MERGE_FIELDS') {
+    const { merged, clashes } = mergeFields(base, local, remote);
+    if (clashes.length === 0) return { kind: 'WRITE', row: restamp(merged) };
+  }
+  return { kind: 'PARK' };
+};
+
+export const conflictService = {
+  // Keeps the per-business overrides current; called whenever businesses load or change
+  setBusinessPolicies(businesses: Business[]) {
+    businessPolicies.clear();
+    businesses.forEach(b => { if (b.conflictPolicies) businessPolicies.set(b.id, b.conflictPolicies); });
+  },
+
+  async list(): Promise<SyncConflict[]> {
+    const all = await dbService.getAll<SyncConflict>(STORE);
+    return all.sort((a, b) => a.detectedAt - b.detectedAt);
+  },
+
+  async get(table: string, recordId: string): Promise<SyncConflict | undefined> {
+    return dbService.getById<SyncConflict>(STORE, conflictId(table, recordId));
+  },
+
+  async record(conflict: SyncConflict): Promise<void> {
+    await dbService.saveItems(STORE, [conflict]);
+  },
+
+  async clear(conflict: SyncConflict): Promise<void> {
+    await dbService.deleteItem(STORE, conflict.id);
+  }
+};
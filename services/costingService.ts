@@ -0,0 +1,273 @@
+import { Order, OrderLine, Product, StockMovement, ValuationMethod } from '../types';
+import { countsTowardSales } from './orderService';
+import { stockKey } from './variantService';
+import { isBundle } from './bundleService';
+
+export const VALUATION_LABELS: Record<ValuationMethod, string> = {
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  FIFO: 'First In, First Out'
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+// Running cost position of one product or variant while the ledger is replayed.
+// deficit counts units sold while the ledger said none were on hand; the next
+// goods in cover it before building a new layer.
+interface CostPosition {
+  layers: CostLayer[];
+  deficit: number;
+  lastCost: number;
+}
+
+const onHand = (p: CostPosition) => p.layers.reduce((s, l) => s + l.quantity, 0) - p.deficit;
+const valueOf = (p: CostPosition) => p.layers.reduce((s, l) => s + l.quantity * l.unitCost, 0);
+
+const averageCost = (p: CostPosition) => {
+  const qty = p.layers.reduce((s, l) => s + l.quantity, 0);
+  return qty > 0 ? valueOf(p) / qty : p.lastCost;
+};
+
+const receive = (p: CostPosition, quantity: number, unitCost: number, method: ValuationMethod) => {
+  const covered = Math.min(quantity, p.deficit);
+  p.deficit -= covered;
+  const rest = quantity - covered;
+  p.lastCost = unitCost;
+  if (rest <= 0) return;
+  if (method === 'WEIGHTED_AVERAGE' && p.layers.length > 0) {
+    // A single pooled layer re-averaged on every receipt
+    const qty = p.layers[0].quantity + rest;
+    p.layers = [{ quantity: qty, unitCost: (valueOf(p) + rest * unitCost) / qty }];
+  } else {
+    p.layers.push({ quantity: rest, unitCost });
+  }
+};
+
+// Takes units out of stock and returns what they cost.
+const issue = (p: CostPosition, quantity: number): number => {
+  let left = quantity;
+  let cost = 0;
+  while (left > 0 && p.layers.length > 0) {
+    const layer = p.layers[0];
+    const take = Math.min(left, layer.quantity);
+    cost += take * layer.unitCost;
+    p.lastCost = layer.unitCost;
+    layer.quantity -= take;
+    left -= take;
+    if (layer.quantity <= 0) p.layers.shift();
+  }
+  if (left > 0) {
+    p.deficit += left;
+    cost += left * p.lastCost;
+  }
+  return cost;
+};
+
+const standardCosts = (products: Product[]) => {
+  const costs = new Map<string, number>();
+  products.forEach(p => costs.set(p.id, p.costPrice || 0));
+  return costs;
+};
+
+const timeOf = (m: StockMovement) => new Date(m.createdAt).getTime();
+
+const apply = (positions: Map<string, CostPosition>, standard: Map<string, number>, m: StockMovement, method: ValuationMethod) => {
+  const key = stockKey(m.productId, m.variantId);
+  const p = positions.get(key) || { layers: [], deficit: 0, lastCost: standard.get(m.productId) || 0 };
+  positions.set(key, p);
+  if (m.quantity > 0) receive(p, m.quantity, m.unitCost ?? averageCost(p), method);
+  else if (m.quantity < 0) issue(p, -m.quantity);
+};
+
+// Replays the ledger oldest first, optionally stopping at asOf, and returns the
+// cost position of every product and variant it has seen.
+const replay = (products: Product[], movements: StockMovement[], method: ValuationMethod, asOf?: Date) => {
+  const standard = standardCosts(products);
+  const positions = new Map<string, CostPosition>();
+  const cutoff = asOf?.getTime() ?? Infinity;
+  movements
+    .filter(m => timeOf(m) <= cutoff)
+    .sort((a, b) => timeOf(a) - timeOf(b))
+    .forEach(m => apply(positions, standard, m, method));
+  return positions;
+};
+
+// Cost positions kept current as movements are appended to the ledger, so
+// costing a sale doesn't replay the whole ledger.
+export interface CostBook {
+  method: ValuationMethod;
+  positions: Map<string, CostPosition>;
+  ledger: StockMovement[];
+  latest: number;
+}
+
+// Applies movements added to the ledger since the book last saw it. The book
+// is rebuilt when the ledger was replaced rather than appended to, the method
+// changed, or a movement arrived dated before ones already applied.
+export const advanceCostBook = (
+  book: CostBook | null,
+  products: Product[],
+  movements: StockMovement[],
+  method: ValuationMethod = 'WEIGHTED_AVERAGE'
+): CostBook => {
+  if (book && book.ledger === movements && book.method === method) return book;
+  const seen = book?.ledger.length || 0;
+  const appended = book !== null && book.method === method && movements.length >= seen
+    && (seen === 0 || movements[seen - 1] === book.ledger[seen - 1]);
+  const added = appended ? movements.slice(seen) : [];
+  if (!appended || added.some(m => timeOf(m) < book!.latest)) {
+    return {
+      method,
+      positions: replay(products, movements, method),
+      ledger: movements,
+      latest: movements.reduce((t, m) => Math.max(t, timeOf(m)), 0)
+    };
+  }
+  const standard = standardCosts(products);
+  added.sort((a, b) => timeOf(a) - timeOf(b)).forEach(m => apply(book!.positions, standard, m, method));
+  return { ...book!, ledger: movements, latest: added.reduce((t, m) => Math.max(t, timeOf(m)), book!.latest) };
+};
+
+// Fills in unitCost and cogs on each sale line from the cost book. The book
+// itself is left alone; the sale's movements advance it once recorded. Refund
+// lines carry the cost of the line they reverse, copied by refundService.
+export const costOrderLines = (order: Order, products: Product[], book: CostBook): Order => {
+  const standard = standardCosts(products);
+  const drawn = new Map<string, CostPosition>();
+  const lines: OrderLine[] = order.lines.map(l => {
+    if (!l.productId) return l;
+    if (l.quantity < 0) {
+      const unitCost = l.unitCost ?? standard.get(l.productId) ?? 0;
+      return { ...l, unitCost, cogs: round2(unitCost * l.quantity) };
+    }
+    const draw = (productId: string, variantId: string | undefined, quantity: number) => {
+      const key = stockKey(productId, variantId);
+      let p = drawn.get(key);
+      if (!p) {
+        const held = book.positions.get(key);
+        p = held
+          ? { layers: held.layers.map(x => ({ ...x })), deficit: held.deficit, lastCost: held.lastCost }
+          : { layers: [], deficit: 0, lastCost: standard.get(productId) || 0 };
+        drawn.set(key, p);
+      }
+      return round2(issue(p, quantity));
+    };
+    // A bundle costs what its components cost
+    if (l.components?.length) {
+      const components = l.components.map(c => {
+        const units = c.quantity * l.quantity;
+        return { ...c, unitCost: units ? round2(draw(c.productId, c.variantId, units) / units) : 0 };
+      });
+      const cogs = round2(components.reduce((s, c) => s + c.unitCost * c.quantity * l.quantity, 0));
+      return { ...l, components, unitCost: l.quantity ? round2(cogs / l.quantity) : 0, cogs };
+    }
+    const cogs = draw(l.productId, l.variantId, l.quantity);
+    return { ...l, unitCost: l.quantity ? round2(cogs / l.quantity) : 0, cogs };
+  });
+  return { ...order, lines };
+};
+
+export interface ValuationRow {
+  productId: string;
+  variantId?: string;
+  name: string;
+  sku: string;
+  category: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  retailValue: number;
+}
+
+// Stock on hand and what it cost, as of the end of the given moment.
+export const valuationReport = (
+  products: Product[],
+  movements: StockMovement[],
+  method: ValuationMethod = 'WEIGHTED_AVERAGE',
+  asOf?: Date
+): ValuationRow[] => {
+  const positions = replay(products, movements, method, asOf);
+  const row = (p: Product, variantId?: string): ValuationRow => {
+    const variant = p.variants?.find(v => v.id === variantId);
+    const pos = positions.get(stockKey(p.id, variantId));
+    const quantity = pos ? onHand(pos) : 0;
+    const value = pos ? round2(valueOf(pos)) : 0;
+    return {
+      productId: p.id,
+      variantId,
+      name: variant ? `${p.name} (${variant.name})` : p.name,
+      sku: variant?.sku || p.sku,
+      category: p.category,
+      quantity,
+      unitCost: pos ? round2(averageCost(pos)) : p.costPrice || 0,
+      value,
+      retailValue: round2(Math.max(0, quantity) * (variant?.price ?? p.price))
+    };
+  };
+  return products.filter(p => !isBundle(p)).flatMap(p => p.variants?.length ? p.variants.map(v => row(p, v.id)) : [row(p)]);
+};
+
+export const VALUATION_HEADERS = ['SKU', 'Item', 'Category', 'On Hand', 'Unit Cost', 'Cost Value', 'Retail Value'];
+
+export const valuationRowToCsv = (r: ValuationRow) => [r.sku, r.name, r.category, r.quantity, r.unitCost.toFixed(2), r.value.toFixed(2), r.retailValue.toFixed(2)];
+
+export interface MarginRow {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  margin: number;
+}
+
+// Gross margin on net sales (after discounts, before VAT). Lines rung up before
+// costing existed fall back to the item's standard cost. Bundle sales are
+// credited to the items inside, split by each part's share.
+export const marginReport = (
+  orders: Order[],
+  products: Product[],
+  groupBy: 'product' | 'category',
+  from?: Date,
+  to?: Date
+): MarginRow[] => {
+  const byId = new Map(products.map(p => [p.id, p]));
+  const rows = new Map<string, MarginRow>();
+  orders
+    .filter(o => countsTowardSales(o))
+    .filter(o => (!from || new Date(o.date) >= from) && (!to || new Date(o.date) <= to))
+    .forEach(o => o.lines.forEach(l => {
+      const credit = (productId: string | undefined, name: string, category: string, quantity: number, revenue: number, cogs: number) => {
+        const product = productId ? byId.get(productId) : undefined;
+        const key = groupBy === 'product' ? (productId || name) : (product?.category || category || 'Uncategorized');
+        const label = groupBy === 'product' ? (product?.name || name) : key;
+        const r = rows.get(key) || { key, label, quantity: 0, revenue: 0, cogs: 0, grossProfit: 0, margin: 0 };
+        r.quantity += quantity;
+        r.revenue += revenue;
+        r.cogs += cogs;
+        rows.set(key, r);
+      };
+      const revenue = l.lineTotal - (l.tax || 0);
+      const cogs = l.cogs ?? ((l.productId && byId.get(l.productId)?.costPrice) || 0) * l.quantity;
+      if (l.components?.length) {
+        l.components.forEach(c => credit(
+          c.productId, c.name, c.category, c.quantity * l.quantity, revenue * c.share,
+          c.unitCost !== undefined ? c.unitCost * c.quantity * l.quantity : cogs * c.share
+        ));
+      } else {
+        credit(l.productId, l.productName, l.category, l.quantity, revenue, cogs);
+      }
+    }));
+  return [...rows.values()]
+    .map(r => {
+      const revenue = round2(r.revenue);
+      const cogs = round2(r.cogs);
+      const grossProfit = round2(revenue - cogs);
+      return { ...r, revenue, cogs, grossProfit, margin: revenue ? round2((grossProfit / revenue) * 100) : 0 };
+    })
+    .sort((a, b) => b.grossProfit - a.grossProfit);
+};
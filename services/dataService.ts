@@ -1,14 +1,11 @@
 
+import { Business } from '../types';
 import { dbService } from './dbService';
 import { supabase, isSupabaseConfigured } from './supabaseClient';
-
-interface OfflineAction {
-  id: string;
-  table: string;
-  action: 'UPSERT' | 'DELETE';
-  data: any;
-  timestamp: number;
-}
+import { APPEND_ONLY_TABLES, SyncConflict, changedFields, conflictId, conflictService, settleConflict } from './conflictService';
+import { OfflineAction, isDue, isNetworkError, queueId, syncQueue } from './syncQueue';
+import { SYNC_PAGE_SIZE, SYNC_WATERMARK_OVERLAP_MS } from '../constants';
+import { TableChange, tabService } from './tabService';
 
 export interface SyncDiagnostic {
   table: string;
@@ -16,6 +13,8 @@ export interface SyncDiagnostic {
   cloudCount: number;
   status: 'Synced' | 'Discrepancy' | 'Offline' | 'Error';
   pendingActions: number;
+  conflicts: number;
+  deadLetters: number;
 }
 
 export interface ServiceResponse<T> {
@@ -62,6 +61,250 @@ const mapFromDb = (obj: any, table?: string) => {
 
 const isOnline = () => typeof navigator !== 'undefined' && navigator.onLine;
 
+// Stamps writes with the next version and keeps the copies they replace, so a
+// replay can tell whether the cloud moved on in the meantime.
+const stampWrites = async (table: string, localStore: string, items: any[], action: 'UPSERT' | 'DELETE'): Promise<OfflineAction[]> => {
+  const versioned = !APPEND_ONLY_TABLES.has(table);
+  const prevs = versioned ? await dbService.getMany<any>(localStore, items.map(i => i.id)) : [];
+  return items.map((item, i) => {
+    const prev = prevs[i];
+    return {
+      id: queueId(),
+      table,
+      action,
+      data: versioned && action === 'UPSERT' ? { ...item, version: (prev?.version ?? 0) + 1, updatedAt: new Date().toISOString() } : item,
+      timestamp: Date.now(),
+      baseVersion: prev ? prev.version ?? 0 : undefined,
+      base: prev
+    };
+  });
+};
+
+// Lets the app's other open tabs pick up writes made in this one
+const announce = (actions: OfflineAction[]) => actions.forEach(a => tabService.broadcast({
+  table: a.table,
+  event: a.action === 'DELETE' ? 'DELETE' : a.base ? 'UPDATE' : 'INSERT',
+  data: a.data
+}));
+
+const fetchRemote = async (table: string, id: string): Promise<any | null> => {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? mapFromDb(data, table) : null;
+};
+
+// Writes the row only while the cloud still holds the version the edit was
+// based on. Returns false when it doesn't; errors are thrown.
+const pushUpsert = async (table: string, row: any, baseVersion?: number): Promise<boolean> => {
+  const dbRow = mapToDb(row, table);
+  if (APPEND_ONLY_TABLES.has(table)) {
+    const { error } = await supabase.from(table).upsert(dbRow, { onConflict: 'id' });
+    if (error) throw error;
+    return true;
+  }
+  if (baseVersion === undefined) {
+    const { error } = await supabase.from(table).insert(dbRow);
+    // Unique violation: another device created the same row first
+    if (error?.code === '23505') return false;
+    if (error) throw error;
+    return true;
+  }
+  const { data, error } = await supabase.from(table).update(dbRow).eq('id', row.id).eq('version', baseVersion).select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+const pushDelete = async (table: string, id: string, baseVersion?: number): Promise<boolean> => {
+  let query = supabase.from(table).delete().eq('id', id);
+  if (baseVersion !== undefined && !APPEND_ONLY_TABLES.has(table)) query = query.eq('version', baseVersion);
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return (data || []).length > 0 || !(await fetchRemote(table, id));
+};
+
+// Sends one write. When the cloud has moved on since the edit was made, the
+// table's conflict policy decides what happens and anything it can't settle is
+// parked for review in Settings. Network and server errors are thrown so the
+// caller can keep the write queued.
+const syncAction = async (a: OfflineAction): Promise<'SYNCED' | 'PARKED'> => {
+  const recordId = a.data.id;
+  const local = a.action === 'DELETE' ? a.base : a.data;
+  const open = await conflictService.get(a.table, recordId);
+  if (open) {
+    // Later edits to a row under review join it rather than overtaking it
+    await conflictService.record({ ...open, action: a.action, local: local ?? open.local });
+    return 'PARKED';
+  }
+
+  let row = a.data;
+  let baseVersion = a.baseVersion;
+  let remote: any | null = null;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const pushed = a.action === 'UPSERT'
+      ? await pushUpsert(a.table, row, baseVersion)
+      : await pushDelete(a.table, recordId, baseVersion);
+    if (pushed) {
+      if (row !== a.data) await dbService.saveItems(a.table, [row]);
+      return 'SYNCED';
+    }
+    remote = await fetchRemote(a.table, recordId);
+    const outcome = settleConflict(a.table, a.action, local, a.base, remote, a.timestamp);
+    if (outcome.kind === 'KEEP_REMOTE') {
+      if (remote) await dbService.saveItems(a.table, [remote]);
+      else await dbService.deleteItem(a.table, recordId);
+      return 'SYNCED';
+    }
+    if (outcome.kind === 'PARK') break;
+    row = outcome.row ?? row;
+    baseVersion = remote ? remote.version ?? 0 : undefined;
+  }
+
+  console.warn(`[DataService] Version mismatch on ${a.table}/${recordId}; parked for review.`);
+  await conflictService.record({
+    id: conflictId(a.table, recordId),
+    table: a.table,
+    recordId,
+    action: a.action,
+    local,
+    remote,
+    base: a.base,
+    fields: remote ? changedFields(remote, local) : [],
+    detectedAt: Date.now()
+  });
+  return 'PARKED';
+};
+
+// How far this device has pulled a table for one business: the last row seen
+// (by the server's `synced_at`, then id) and the last deletion applied.
+interface SyncWatermark {
+  id: string;
+  table: string;
+  rowsAt: string;
+  rowsId: string;
+  tombstonesAt: string;
+  pulledAt: number;
+}
+
+const WATERMARKS = 'sync_watermarks';
+const EPOCH = new Date(0).toISOString();
+
+const watermarkId = (table: string, businessId?: string, scopeColumn = 'business_id') => `${table}:${scopeColumn}:${businessId || '*'}`;
+
+const overlap = (at: string) => new Date(new Date(at).getTime() - SYNC_WATERMARK_OVERLAP_MS).toISOString();
+
+const inScope = (row: any, table: string, businessId?: string, scopeColumn = 'business_id') =>
+  !businessId || (table === 'businesses' ? row.id === businessId : row[toCamelCase(scopeColumn)] === businessId);
+
+// Records with offline edits still queued or parked as conflicts keep this
+// device's copy until they are settled against the cloud
+const pendingIds = async (table: string) => new Set([
+  ...(await dbService.getAllByIndex<OfflineAction>('offline_queue', 'table', table)).map(a => a.data.id),
+  ...(await conflictService.list()).filter(c => c.table === table).map(c => c.recordId)
+]);
+
+// Brings the local store up to date with the cloud. With a watermark only rows
+// changed since it are fetched and tombstones remove what was deleted; the
+// first pull pages through the whole table and drops any local rows the cloud
+// no longer has.
+const pullChanges = async (table: string, localStore: string, businessId?: string, scopeColumn = 'business_id') => {
+  const mark = await dbService.getById<SyncWatermark>(WATERMARKS, watermarkId(table, businessId, scopeColumn));
+  const pending = await pendingIds(table);
+  const seen = new Set<string>();
+  let last = mark ? { at: mark.rowsAt, id: mark.rowsId } : null;
+  let cursor = mark ? { at: overlap(mark.rowsAt), id: '' } : null;
+
+  while (true) {
+    let query = supabase.from(table).select('*');
+    if (businessId) {
+      query = table === 'businesses' ? query.eq('id', businessId) : query.eq(scopeColumn, businessId);
+    }
+    if (cursor) query = query.or(`synced_at.gt."${cursor.at}",and(synced_at.eq."${cursor.at}",id.gt."${cursor.id}")`);
+    const { data, error } = await query.order('synced_at').order('id').limit(SYNC_PAGE_SIZE);
+    if (error) throw error;
+    const rows = (data || []).map(d => mapFromDb(d, table));
+    rows.forEach(r => seen.add(r.id));
+    await dbService.saveItems(localStore, rows.filter(r => !pending.has(r.id)));
+    if (data && data.length > 0) {
+      const tail = data[data.length - 1];
+      cursor = last = { at: tail.synced_at, id: tail.id };
+    }
+    if (!data || data.length < SYNC_PAGE_SIZE) break;
+  }
+
+  let tombstonesAt = mark?.tombstonesAt || last?.at || EPOCH;
+  if (mark) {
+    for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+      let query = supabase.from('sync_tombstones').select('record_id, deleted_at').eq('table_name', table).gt('deleted_at', overlap(mark.tombstonesAt));
+      if (businessId) query = query.contains('business_ids', [businessId]);
+      const { data, error } = await query.order('deleted_at').order('id').range(from, from + SYNC_PAGE_SIZE - 1);
+      if (error) throw error;
+      // A row deleted and then re-created comes back in this pull's rows
+      await dbService.deleteItems(localStore, (data || []).map(t => t.record_id).filter(id => !pending.has(id) && !seen.has(id)));
+      if (data && data.length > 0) tombstonesAt = data[data.length - 1].deleted_at;
+      if (!data || data.length < SYNC_PAGE_SIZE) break;
+    }
+  } else {
+    const local = await dbService.getAll<any>(localStore);
+    await dbService.deleteItems(localStore, local.filter(r => inScope(r, table, businessId, scopeColumn) && !seen.has(r.id) && !pending.has(r.id)).map(r => r.id));
+  }
+
+  await dbService.saveItems(WATERMARKS, [{
+    id: watermarkId(table, businessId, scopeColumn),
+    table,
+    rowsAt: last?.at || EPOCH,
+    rowsId: last?.id || '',
+    tombstonesAt,
+    pulledAt: Date.now()
+  } as SyncWatermark]);
+};
+
+// Tables from before delta sync, without `synced_at`, are pulled whole
+const pullAll = async (table: string, localStore: string, businessId?: string, scopeColumn = 'business_id') => {
+  let query = supabase.from(table).select('*');
+  if (businessId) {
+    query = table === 'businesses' ? query.eq('id', businessId) : query.eq(scopeColumn, businessId);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  await dbService.saveItems(localStore, (data || []).map(d => mapFromDb(d, table)));
+};
+
+let replaying: Promise<void> | null = null;
+
+// Sends one table's share of the queue. New and insert-only rows go up in a
+// single request; if the server refuses it they are retried one at a time so
+// only the bad row is held back.
+const replayBatch = async (table: string, batch: OfflineAction[]) => {
+  const done: string[] = [];
+  try {
+    let rest = batch;
+    const bulk = batch.filter(a => a.action === 'UPSERT' && (APPEND_ONLY_TABLES.has(table) || a.baseVersion === undefined));
+    if (bulk.length > 1) {
+      const rows = bulk.map(a => mapToDb(a.data, table));
+      const { error } = APPEND_ONLY_TABLES.has(table)
+        ? await supabase.from(table).upsert(rows, { onConflict: 'id' })
+        : await supabase.from(table).insert(rows);
+      if (error && isNetworkError(error)) throw error;
+      if (!error) {
+        done.push(...bulk.map(a => a.id));
+        rest = batch.filter(a => !bulk.includes(a));
+      }
+    }
+    for (const a of rest) {
+      try {
+        await syncAction(a);
+        done.push(a.id);
+      } catch (e: any) {
+        if (isNetworkError(e)) throw e;
+        console.warn(`[DataService] Failed to sync ${a.table}/${a.data.id}:`, e.message || JSON.stringify(e));
+        await syncQueue.fail(a, e);
+      }
+    }
+  } finally {
+    await syncQueue.done(done);
+  }
+};
+
 export const dataService = {
   async authenticate(email: string, pass: string): Promise<ServiceResponse<{ user: any, business: any }>> {
     if (!isOnline()) return { success: false, error: "Terminal is offline. Cloud authentication unavailable.", code: 'OFFLINE' };
@@ -116,134 +359,185 @@ export const dataService = {
     }
   },
 
-  async fetch<T>(table: string, localStore: string, businessId?: string): Promise<T[]> {
+  // Pulls what changed in the cloud into the local store, then answers from
+  // it. scopeColumn picks which column holds the business, for rows shared
+  // between two businesses.
+  async fetch<T>(table: string, localStore: string, businessId?: string, scopeColumn = 'business_id'): Promise<T[]> {
     if (isOnline()) {
       try {
-        let query = supabase.from(table).select('*');
-        if (businessId) {
-            query = table === 'businesses' ? query.eq('id', businessId) : query.eq('business_id', businessId);
-        }
-        const { data, error } = await query;
-        if (data && !error) {
-          const normalized = data.map(d => mapFromDb(d, table));
-          await dbService.saveItems(localStore, normalized);
-          return normalized as T[];
+        await pullChanges(table, localStore, businessId, scopeColumn);
+      } catch (e: any) {
+        // Undefined column: the table has no synced_at yet
+        if (e?.code === '42703') {
+          await pullAll(table, localStore, businessId, scopeColumn).catch(err => console.warn(`[Supabase] Fetch failed for ${table}`, err));
+        } else {
+          console.error(`[DataService] Fetch error for ${table}:`, e?.message || JSON.stringify(e));
         }
-        if (error) console.error(`[DataService] Fetch error for ${table}:`, JSON.stringify(error));
-      } catch (e) { console.warn(`[Supabase] Fetch failed for ${table}`, e); }
+      }
     }
     const local = await dbService.getAll<T>(localStore);
     if (!businessId) return local;
-    return local.filter((i: any) => table === 'businesses' ? i.id === businessId : i.businessId === businessId);
+    return local.filter((i: any) => table === 'businesses' ? i.id === businessId : i[toCamelCase(scopeColumn)] === businessId);
   },
 
+  // Returns false when the write was queued for later or parked as a conflict
   async upsert<T extends { id: string }>(table: string, localStore: string, item: T, businessId?: string): Promise<boolean> {
     const copy = { ...item };
     if (table !== 'businesses' && businessId && !(copy as any).businessId) {
         (copy as any).businessId = businessId;
     }
+    const [action] = await stampWrites(table, localStore, [copy], 'UPSERT');
     
     // Optimistic Local Save
-    await dbService.saveItems(localStore, [copy]);
+    await dbService.saveItems(localStore, [action.data]);
+    announce([action]);
     
     if (isOnline()) {
       try {
-        const dbData = mapToDb(copy, table);
-        // Explicitly use onConflict: 'id' to ensure correct upsert behavior
-        const { error } = await supabase.from(table).upsert(dbData, { onConflict: 'id' });
-        if (!error) return true;
-        console.error(`[DataService] Upsert error for ${table}:`, JSON.stringify(error));
+        return (await syncAction(action)) === 'SYNCED';
       } catch (e: any) {
-        console.error(`[DataService] Upsert exception for ${table}:`, e.message || e);
+        console.error(`[DataService] Upsert error for ${table}:`, e.message || JSON.stringify(e));
       }
     }
     
     // Persistence Queue for offline durability
-    await dbService.saveItems('offline_queue', [{ 
-        id: `q-${Date.now()}-${Math.random()}`, 
-        table, 
-        action: 'UPSERT', 
-        data: copy, 
-        timestamp: Date.now() 
-    }]);
+    await syncQueue.enqueue([action]);
     return false;
   },
 
   async upsertMany<T extends { id: string }>(table: string, localStore: string, items: T[]) {
     if (items.length === 0) return;
-    await dbService.saveItems(localStore, items);
-    
+
+    // Insert-only rows go up in one request
+    if (APPEND_ONLY_TABLES.has(table)) {
+      await dbService.saveItems(localStore, items);
+      items.forEach(i => tabService.broadcast({ table, event: 'INSERT', data: i }));
+      if (isOnline()) {
+        try { 
+            const { error } = await supabase.from(table).upsert(items.map(i => mapToDb(i, table)), { onConflict: 'id' }); 
+            if (!error) return; 
+            console.error(`[DataService] UpsertMany error for ${table}:`, JSON.stringify(error));
+        } catch (e: any) {
+            console.error(`[DataService] UpsertMany exception for ${table}:`, e.message || e);
+        }
+      }
+      await syncQueue.enqueue(await stampWrites(table, localStore, items, 'UPSERT'));
+      return;
+    }
+
+    const actions = await stampWrites(table, localStore, items, 'UPSERT');
+    await dbService.saveItems(localStore, actions.map(a => a.data));
+    announce(actions);
+
+    let sent = 0;
     if (isOnline()) {
-      try { 
-          const dbItems = items.map(i => mapToDb(i, table));
-          const { error } = await supabase.from(table).upsert(dbItems, { onConflict: 'id' }); 
-          if (!error) return; 
-          console.error(`[DataService] UpsertMany error for ${table}:`, JSON.stringify(error));
+      try {
+        for (; sent < actions.length; sent++) await syncAction(actions[sent]);
       } catch (e: any) {
-          console.error(`[DataService] UpsertMany exception for ${table}:`, e.message || e);
+        console.error(`[DataService] UpsertMany error for ${table}:`, e.message || JSON.stringify(e));
       }
     }
-    
-    for (const i of items) {
-        await dbService.saveItems('offline_queue', [{ 
-            id: `q-${Date.now()}-${Math.random()}`, 
-            table, 
-            action: 'UPSERT', 
-            data: i, 
-            timestamp: Date.now() 
-        }]);
-    }
+    await syncQueue.enqueue(actions.slice(sent));
   },
 
   async delete(table: string, localStore: string, id: string): Promise<boolean> {
+    const [action] = await stampWrites(table, localStore, [{ id }], 'DELETE');
     await dbService.deleteItem(localStore, id);
+    announce([action]);
     if (isOnline()) {
       try {
-        const { error } = await supabase.from(table).delete().eq('id', id);
-        if (!error) return true;
-        console.error(`[DataService] Delete error for ${table}:`, JSON.stringify(error));
-      } catch (e) {}
+        return (await syncAction(action)) === 'SYNCED';
+      } catch (e: any) {
+        console.error(`[DataService] Delete error for ${table}:`, e.message || JSON.stringify(e));
+      }
     }
-    await dbService.saveItems('offline_queue', [{ 
-        id: `q-${Date.now()}-${Math.random()}`, 
-        table, 
-        action: 'DELETE', 
-        data: { id }, 
-        timestamp: Date.now() 
-    }]);
+    await syncQueue.enqueue([action]);
     return false;
   },
 
-  async syncPending() {
+  // Replays the offline queue: one write per record, table by table in the
+  // order their oldest write was made. A write the server refuses is retried
+  // later with backoff without holding up the rest; a dropped connection ends
+  // the run. Overlapping calls share the run already in progress, and tabs
+  // other than the sync leader hand the job to it.
+  async syncPending(): Promise<void> {
     if (!isOnline()) return;
-    const queue = await dbService.getAll<OfflineAction>('offline_queue');
-    if (queue.length === 0) return;
-    
-    console.log(`[DataService] Processing ${queue.length} pending actions...`);
-    
-    for (const item of queue) {
-      try {
-        const { error } = item.action === 'UPSERT' 
-          ? await supabase.from(item.table).upsert(mapToDb(item.data, item.table), { onConflict: 'id' }) 
-          : await supabase.from(item.table).delete().eq('id', item.data.id);
-        
-        if (!error) {
-          await dbService.deleteItem('offline_queue', item.id);
-        } else {
-            console.warn(`[DataService] Failed to sync ${item.id}:`, JSON.stringify(error));
-            break; 
+    if (!tabService.isLeader()) {
+      tabService.requestSync();
+      return;
+    }
+    if (replaying) return replaying;
+    replaying = (async () => {
+      const queue = (await syncQueue.load()).filter(a => isDue(a));
+      if (queue.length === 0) return;
+      
+      // Conflicts settle by the owning business's policies as saved on this device
+      conflictService.setBusinessPolicies(await dbService.getAll<Business>('businesses'));
+      
+      for (const table of new Set(queue.map(a => a.table))) {
+        try {
+          await replayBatch(table, queue.filter(a => a.table === table));
+        } catch (e: any) {
+          console.warn(`[DataService] Sync interrupted at ${table}:`, e.message || JSON.stringify(e));
+          break;
         }
-      } catch (e) { 
-          console.error(`[DataService] Sync exception:`, e);
-          break; 
       }
+    })().finally(() => { replaying = null; });
+    return replaying;
+  },
+
+
+  // Settles a parked conflict by keeping one copy. Keeping this device's copy
+  // writes it over whatever the cloud holds now, unless that changes again first.
+  async resolveConflict(conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE'): Promise<ServiceResponse<any | null>> {
+    if (keep === 'REMOTE') {
+      if (conflict.remote) await dbService.saveItems(conflict.table, [conflict.remote]);
+      else await dbService.deleteItem(conflict.table, conflict.recordId);
+      await conflictService.clear(conflict);
+      return { success: true, data: conflict.remote };
+    }
+    if (!isOnline()) return { success: false, error: 'Reconnect to the internet to keep this copy.', code: 'OFFLINE' };
+    try {
+      const remote = await fetchRemote(conflict.table, conflict.recordId);
+      const baseVersion = remote ? remote.version ?? 0 : undefined;
+      const row = conflict.action === 'UPSERT'
+        ? { ...conflict.local, version: (remote?.version ?? 0) + 1, updatedAt: new Date().toISOString() }
+        : null;
+      const pushed = row ? await pushUpsert(conflict.table, row, baseVersion) : !remote || await pushDelete(conflict.table, conflict.recordId, baseVersion);
+      if (!pushed) {
+        await conflictService.record({ ...conflict, remote: await fetchRemote(conflict.table, conflict.recordId), detectedAt: Date.now() });
+        return { success: false, error: 'The cloud copy changed again while you were reviewing it. Please check it once more.', code: 'VERSION_MISMATCH' };
+      }
+      if (row) await dbService.saveItems(conflict.table, [row]);
+      else await dbService.deleteItem(conflict.table, conflict.recordId);
+      await conflictService.clear(conflict);
+      return { success: true, data: row };
+    } catch (e: any) {
+      console.error(`[DataService] Resolve error for ${conflict.table}:`, e.message || JSON.stringify(e));
+      return { success: false, error: "We couldn't reach the cloud. Please try again.", code: 'SERVER_ERROR' };
     }
   },
 
+  // Calls a database function; errors are thrown
+  async rpc<T = void>(fn: string, args: Record<string, any>): Promise<T> {
+    const { data, error } = await supabase.rpc(fn, args);
+    if (error) throw error;
+    return data as T;
+  },
+
+  // Forgets how far a table has been pulled, so the next fetch re-reads it in
+  // full and reconciles deletions
+  async resetWatermarks(table: string): Promise<void> {
+    const marks = await dbService.getAll<SyncWatermark>(WATERMARKS);
+    await dbService.deleteItems(WATERMARKS, marks.filter(m => m.table === table).map(m => m.id));
+  },
+
   async getSyncDiagnostics(businessId: string): Promise<SyncDiagnostic[]> {
-    const tables = ['products', 'transactions', 'users', 'suppliers', 'referrals'];
+    const tables = ['products', 'orders', 'order_lines', 'shifts', 'receipt_series', 'stock_movements', 'purchase_orders', 'stock_counts', 'stock_transfers', 'categories', 'users', 'suppliers', 'referrals'];
     const diag: SyncDiagnostic[] = [];
     const queue = await dbService.getAll<OfflineAction>('offline_queue');
+    const conflicts = await conflictService.list();
+    const deadLetters = await syncQueue.deadLetters();
 
     for (const t of tables) {
       const localItems = await dbService.getAll(t);
@@ -253,10 +547,11 @@ export const dataService = {
 
       if (isOnline()) {
         try {
-          const { count, error } = await supabase
-            .from(t)
-            .select('*', { count: 'exact', head: true })
-            .eq(t === 'businesses' ? 'id' : 'business_id', businessId);
+          const query = supabase.from(t).select('*', { count: 'exact', head: true });
+          // The local store holds transfers sent and received, as transferService.fetch pulls both
+          const { count, error } = await (t === 'stock_transfers'
+            ? query.or(`business_id.eq.${businessId},to_business_id.eq.${businessId}`)
+            : query.eq(t === 'businesses' ? 'id' : 'business_id', businessId));
             
           if (!error) cloudCount = count || 0;
           if (localCount !== cloudCount) status = 'Discrepancy';
@@ -268,7 +563,9 @@ export const dataService = {
         localCount, 
         cloudCount, 
         status, 
-        pendingActions: queue.filter(q => q.table === t).length 
+        pendingActions: queue.filter(q => q.table === t).length,
+        conflicts: conflicts.filter(c => c.table === t).length,
+        deadLetters: deadLetters.filter(d => d.table === t).length
       });
     }
     return diag;
@@ -286,11 +583,12 @@ export const dataService = {
     }
   },
 
-  subscribeToChanges(tables: string[], businessId: string, callback: (change: { table: string, event: string, data: any }) => void) {
+  // Only the sync leader tab subscribes; what it hears is passed on to the others
+  subscribeToChanges(tables: string[], businessId: string, callback: (change: TableChange) => void, scopeColumn = 'business_id') {
     if (!isSupabaseConfigured()) return [];
     
     return tables.map(table => {
-      const channelName = `realtime_${table}_${businessId}`;
+      const channelName = scopeColumn === 'business_id' ? `realtime_${table}_${businessId}` : `realtime_${table}_${scopeColumn}_${businessId}`;
       const channel = supabase
         .channel(channelName)
         .on(
@@ -299,11 +597,10 @@ export const dataService = {
             event: '*', 
             schema: 'public', 
             table: table, 
-            filter: table === 'businesses' ? `id=eq.${businessId}` : `business_id=eq.${businessId}` 
+            filter: table === 'businesses' ? `id=eq.${businessId}` : `${scopeColumn}=eq.${businessId}` 
           }, 
           (payload) => {
             const normalizedData = mapFromDb(payload.new || payload.old, table);
-            console.log(`[DataService] Realtime Update [${table}]:`, payload.eventType);
             
             if (payload.eventType === 'DELETE') {
                 dbService.deleteItem(table, normalizedData.id);
@@ -311,18 +608,20 @@ export const dataService = {
                 dbService.saveItems(table, [normalizedData]);
             }
 
-            callback({
-              table,
-              event: payload.eventType,
-              data: normalizedData
-            });
+            const change = { table, event: payload.eventType, data: normalizedData };
+            tabService.broadcast(change);
+            callback(change);
           }
         )
         .subscribe((status) => {
-            console.log(`[DataService] Realtime Channel [${table}] status:`, status);
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              console.warn(`[DataService] Realtime Channel [${table}] status:`, status);
+            }
         });
         
       return channel;
     });
   }
 };
+
+tabService.onSyncRequest(() => { dataService.syncPending().catch(e => console.warn('[DataService] Sync requested by another tab failed:', e)); });
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  LATEST_VERSION, MIGRATIONS, Migration, backupDatabase, currentVersion, latestBackup, openDatabase, request, restoreBackup
+} from './dbMigrations';
+
+const NAME = 'test_db';
+
+// A database as the app left it before migrations were versioned
+const legacyDatabase = (factory: IDBFactory) =>
+  new Promise<void>((resolve, reject) => {
+    const req = factory.open(NAME, 16);
+    req.onupgradeneeded = () => {
+      const sales = req.result.createObjectStore('transactions', { keyPath: 'id' });
+      sales.put({ id: 'T1', amount: 112, quantity: 1, product: 'Soap', category: 'Home', date: '2026-01-05T02:00:00.000Z', status: 'Completed', businessId: 'B1' });
+      req.result.createObjectStore('products', { keyPath: 'id' }).put({ id: 'P1', name: 'Soap', businessId: 'B1' });
+    };
+    req.onsuccess = () => { req.result.close(); resolve(); };
+    req.onerror = () => reject(req.error);
+  });
+
+const readStore = async (factory: IDBFactory, store: string) => {
+  const db = await openDatabase(factory, NAME);
+  try {
+    return await request(db.transaction(store, 'readonly').objectStore(store).getAll());
+  } finally {
+    db.close();
+  }
+};
+
+const failing: Migration = { version: LATEST_VERSION + 1, description: 'Always fails', up: () => { throw new Error('boom'); } };
+
+describe('openDatabase', () => {
+  it('upgrades a legacy database to the latest version', async () => {
+    const factory = new IDBFactory();
+    await legacyDatabase(factory);
+
+    (await openDatabase(factory, NAME, LATEST_VERSION)).close();
+
+    expect(await currentVersion(factory, NAME)).toBe(LATEST_VERSION);
+    expect(await readStore(factory, 'transactions')).toEqual([]);
+    const [order] = await readStore(factory, 'orders');
+    expect(order).toMatchObject({ id: 'T1', businessId: 'B1', total: 112, version: 1 });
+    expect((await readStore(factory, 'order_lines')).map(l => l.orderId)).toEqual(['T1']);
+    expect((await readStore(factory, 'offline_queue')).map(q => q.table).sort()).toEqual(['order_lines', 'orders']);
+  });
+
+  it('creates every store on a fresh install', async () => {
+    const factory = new IDBFactory();
+    const db = await openDatabase(factory, NAME, LATEST_VERSION);
+    expect(db.version).toBe(LATEST_VERSION);
+    expect(Array.from(db.objectStoreNames)).toEqual(expect.arrayContaining(['products', 'orders', 'offline_queue', 'device']));
+    db.close();
+  });
+
+  it('rolls a failing upgrade back and keeps the backup', async () => {
+    const factory = new IDBFactory();
+    await legacyDatabase(factory);
+    await backupDatabase(factory, NAME);
+
+    await expect(openDatabase(factory, NAME, failing.version, [...MIGRATIONS, failing]))
+      .rejects.toThrow(`Local database upgrade to v${failing.version} (Always fails) failed: boom`);
+
+    expect(await currentVersion(factory, NAME)).toBe(16);
+    expect((await readStore(factory, 'transactions')).map(t => t.id)).toEqual(['T1']);
+    expect(await latestBackup(factory, NAME)).toEqual({ name: `${NAME}_backup_v16`, version: 16 });
+  });
+});
+
+describe('restoreBackup', () => {
+  it('puts the data back at the version the backup was taken at', async () => {
+    const factory = new IDBFactory();
+    await legacyDatabase(factory);
+    await backupDatabase(factory, NAME);
+    (await openDatabase(factory, NAME, LATEST_VERSION)).close();
+
+    expect(await restoreBackup(factory, NAME)).toBe(16);
+
+    expect(await currentVersion(factory, NAME)).toBe(16);
+    expect((await readStore(factory, 'transactions')).map(t => t.id)).toEqual(['T1']);
+    expect(await readStore(factory, 'orders')).toEqual([]);
+
+    // The next open upgrades the restored data again
+    (await openDatabase(factory, NAME, LATEST_VERSION)).close();
+    expect((await readStore(factory, 'orders')).map(o => o.id)).toEqual(['T1']);
+  });
+
+  it('fails when there is no backup', async () => {
+    const factory = new IDBFactory();
+    await legacyDatabase(factory);
+    await expect(restoreBackup(factory, NAME)).rejects.toThrow('There is no backup of the local data to restore.');
+  });
+});
@@ -0,0 +1,242 @@
+import { Transaction } from '../types';
+import { ordersFromTransactions } from './orderLines';
+
+// Schema and data changes to the local database, one step per version. A
+// step runs inside the upgrade transaction, so it should only wait on
+// requests made through `tx`; if any step throws, the whole upgrade is
+// aborted and the database stays as it was. Everything takes the IDBFactory
+// as a parameter so it can run against fake-indexeddb.
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: IDBDatabase, tx: IDBTransaction) => void | Promise<void>;
+}
+
+export const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// An upload for the offline queue, shaped like syncQueue's entries. Built here
+// because syncQueue sits on top of dbService, which runs these migrations.
+const queuedUpsert = (table: string, data: any) =>
+  ({ id: `q-${Date.now()}-${Math.random()}`, table, action: 'UPSERT', data, timestamp: Date.now() });
+
+const ensureIndex = (store: IDBObjectStore, name: string, keyPath: string) => {
+  if (!store.indexNames.contains(name)) store.createIndex(name, keyPath, { unique: false });
+};
+
+// Stores as they stood before migrations were versioned
+const BASE_STORES = ['products', 'transactions', 'users', 'suppliers', 'offline_queue', 'businesses', 'referrals', 'orders', 'order_lines', 'shifts', 'receipt_series', 'held_orders', 'stock_movements', 'purchase_orders', 'stock_counts', 'stock_transfers', 'categories', 'sync_conflicts', 'sync_dead_letters', 'sync_watermarks'];
+// Stores that hold sync bookkeeping rather than business records
+const UNSCOPED_STORES = ['offline_queue', 'businesses', 'sync_conflicts', 'sync_dead_letters', 'sync_watermarks'];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Databases from before this list were built up store by store; this
+    // brings any of them, or a fresh one, to the same starting point.
+    version: 17,
+    description: 'Create base stores and indices',
+    up: (db, tx) => {
+      BASE_STORES.forEach(name => {
+        const store = db.objectStoreNames.contains(name) ? tx.objectStore(name) : db.createObjectStore(name, { keyPath: 'id' });
+        if (!UNSCOPED_STORES.includes(name)) ensureIndex(store, 'business_id', 'businessId');
+        if (name === 'transactions' || name === 'orders') ensureIndex(store, 'date', 'date');
+        if (name === 'order_lines') ensureIndex(store, 'order_id', 'orderId');
+        if (name === 'stock_movements') ensureIndex(store, 'product_id', 'productId');
+      });
+    }
+  },
+  {
+    version: 18,
+    description: 'Index queued writes by table',
+    up: (db, tx) => {
+      ensureIndex(tx.objectStore('offline_queue'), 'table', 'table');
+    }
+  },
+  {
+    version: 19,
+    description: 'Backfill businessId on order lines from their order',
+    up: async (db, tx) => {
+      const orders = await request(tx.objectStore('orders').getAll());
+      const owner = new Map<string, string>(orders.filter(o => o.businessId).map(o => [o.id, o.businessId]));
+      const lines = tx.objectStore('order_lines');
+      const all = await request(lines.getAll());
+      all.filter(l => !l.businessId && owner.has(l.orderId)).forEach(l => lines.put({ ...l, businessId: owner.get(l.orderId) }));
+    }
+  },
+  {
+    // Legacy sale rows still on this device become orders and lines, queued
+    // for upload. Rows the cloud already has come back through
+    // orderService.migrateLegacyTransactions under the same ids.
+    version: 20,
+    description: 'Split local transactions into orders and order lines',
+    up: async (db, tx) => {
+      const legacy = tx.objectStore('transactions');
+      const rows = await request(legacy.getAll()) as Transaction[];
+      if (rows.length === 0) return;
+      const orders = tx.objectStore('orders');
+      const orderLines = tx.objectStore('order_lines');
+      const queue = tx.objectStore('offline_queue');
+      const known = new Set(await request(orders.getAllKeys()));
+      const now = new Date().toISOString();
+      ordersFromTransactions(rows).filter(o => !known.has(o.id)).forEach(({ lines, ...header }) => {
+        const stamped = { ...header, version: 1, updatedAt: now };
+        orders.put(stamped);
+        queue.put(queuedUpsert('orders', stamped));
+        lines.forEach(l => {
+          orderLines.put(l);
+          queue.put(queuedUpsert('order_lines', l));
+        });
+      });
+      legacy.clear();
+    }
+  },
+  {
+    version: 21,
+    description: 'Keep the device identity outside localStorage',
+    up: (db) => {
+      if (!db.objectStoreNames.contains('device')) db.createObjectStore('device', { keyPath: 'id' });
+    }
+  }
+];
+
+export const LATEST_VERSION = Math.max(...MIGRATIONS.map(m => m.version));
+
+// Runs every step newer than the version the database is upgrading from, in order
+export const runMigrations = async (db: IDBDatabase, tx: IDBTransaction, fromVersion: number, migrations = MIGRATIONS) => {
+  const pending = migrations.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+  for (const m of pending) {
+    try {
+      await m.up(db, tx);
+    } catch (e: any) {
+      throw new Error(`Local database upgrade to v${m.version} (${m.description}) failed: ${e?.message || e}`);
+    }
+  }
+};
+
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('AutoMate is open in another tab that is still using the old local data. Close the other tabs, then try again.');
+  }
+}
+
+// Opens the database, migrating it when it is behind. Without a version the
+// database opens as it is. Connections close as soon as another tab wants
+// to upgrade or delete the database, so they never hold it up; an upgrade
+// held up by a connection that doesn't (an older copy of the app) rejects
+// with DatabaseBlockedError.
+export const openDatabase = (factory: IDBFactory, name: string, version?: number, migrations = MIGRATIONS): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = version === undefined ? factory.open(name) : factory.open(name, version);
+    let failure: Error | null = null;
+    let settled = false;
+
+    req.onupgradeneeded = (event) => {
+      const tx = req.transaction!;
+      runMigrations(req.result, tx, event.oldVersion, migrations).catch(e => {
+        failure = e;
+        // The transaction may already have finished or aborted on its own
+        try { tx.abort(); } catch (abortError) { /* already over */ }
+      });
+    };
+    req.onblocked = () => {
+      settled = true;
+      reject(new DatabaseBlockedError());
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      db.onversionchange = () => db.close();
+      // Opened after the caller gave up waiting on a blocked upgrade
+      if (settled) db.close();
+      else resolve(db);
+    };
+    req.onerror = () => reject(failure || req.error);
+  });
+
+export const currentVersion = async (factory: IDBFactory, name: string): Promise<number | undefined> => {
+  if (!factory.databases) return undefined;
+  const all = await factory.databases();
+  return all.find(d => d.name === name)?.version;
+};
+
+const backupName = (name: string, version: number) => `${name}_backup_v${version}`;
+
+const deleteDatabase = (factory: IDBFactory, name: string) =>
+  new Promise<void>((resolve, reject) => {
+    const req = factory.deleteDatabase(name);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new DatabaseBlockedError());
+  });
+
+const readAll = async (db: IDBDatabase): Promise<Record<string, any[]>> => {
+  const storeNames = Array.from(db.objectStoreNames);
+  const contents: Record<string, any[]> = {};
+  if (storeNames.length === 0) return contents;
+  const tx = db.transaction(storeNames, 'readonly');
+  const rows = await Promise.all(storeNames.map(s => request(tx.objectStore(s).getAll())));
+  storeNames.forEach((s, i) => { contents[s] = rows[i]; });
+  return contents;
+};
+
+const writeAll = (db: IDBDatabase, contents: Record<string, any[]>) =>
+  new Promise<void>((resolve, reject) => {
+    const storeNames = Object.keys(contents).filter(s => db.objectStoreNames.contains(s));
+    if (storeNames.length === 0) return resolve();
+    const tx = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(s => contents[s].forEach(row => tx.objectStore(s).put(row)));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+// Copies every store of the database as it is into `<name>_backup_v<version>`,
+// replacing any older backup, so data survives a step that misbehaves
+// without failing.
+export const backupDatabase = async (factory: IDBFactory, name: string): Promise<string | null> => {
+  const version = await currentVersion(factory, name);
+  if (!version) return null;
+
+  const source = await openDatabase(factory, name);
+  const contents = await readAll(source).finally(() => source.close());
+
+  const old = ((await factory.databases?.()) || []).filter(d => d.name?.startsWith(`${name}_backup_v`));
+  await Promise.all(old.map(d => deleteDatabase(factory, d.name!)));
+
+  const target = backupName(name, version);
+  const backup = await new Promise<IDBDatabase>((resolve, reject) => {
+    const req = factory.open(target, 1);
+    req.onupgradeneeded = () => Object.keys(contents).forEach(s => req.result.createObjectStore(s, { keyPath: 'id' }));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  await writeAll(backup, contents).finally(() => backup.close());
+  return target;
+};
+
+// The backup taken before the last upgrade, and the version it was taken at
+export const latestBackup = async (factory: IDBFactory, name: string): Promise<{ name: string; version: number } | null> => {
+  const backups = ((await factory.databases?.()) || [])
+    .map(d => ({ name: d.name || '', version: Number((d.name || '').slice(`${name}_backup_v`.length)) }))
+    .filter(b => b.name.startsWith(`${name}_backup_v`) && b.version > 0)
+    .sort((a, b) => b.version - a.version);
+  return backups[0] || null;
+};
+
+// Puts the database back as it was when the backup was taken: it is deleted,
+// rebuilt at the backup's version (older versions get the baseline stores)
+// and refilled. The next open upgrades it again. Returns that version.
+export const restoreBackup = async (factory: IDBFactory, name: string, migrations = MIGRATIONS): Promise<number> => {
+  const backup = await latestBackup(factory, name);
+  if (!backup) throw new Error('There is no backup of the local data to restore.');
+  const source = await openDatabase(factory, backup.name);
+  const contents = await readAll(source).finally(() => source.close());
+
+  await deleteDatabase(factory, name);
+  const baseline = Math.min(...migrations.map(m => m.version));
+  const upTo = Math.max(backup.version, baseline);
+  const restored = await openDatabase(factory, name, backup.version, migrations.filter(m => m.version <= upTo));
+  await writeAll(restored, contents).finally(() => restored.close());
+  return backup.version;
+};
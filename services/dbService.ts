@@ -1,52 +1,46 @@
 
+import { LATEST_VERSION, backupDatabase, currentVersion, latestBackup, openDatabase, restoreBackup } from './dbMigrations';
+
 // IndexedDB Wrapper for handling large datasets (Images, Products) that exceed LocalStorage quotas.
 const DB_NAME = 'AutoMate_v3_DB';
-const DB_VERSION = 5; // Incremented for referrals store addition
-const STORES = ['products', 'transactions', 'users', 'suppliers', 'offline_queue', 'businesses', 'referrals'];
+// Schema changes are steps in services/dbMigrations.ts; the database version
+// is the latest of them (LATEST_VERSION)
 
-export const dbService = {
-  // Initialize Database
-  open: (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      if (!window.indexedDB) {
-        reject(new Error("IndexedDB not supported in this environment"));
-        return;
-      }
+// Upgrades run once per page load, after a backup of the data as it was. If
+// a step fails the upgrade rolls back, nothing opens the database at its old
+// version, and the app stops at the recovery screen (dbService.ready).
+let upgrade: Promise<void> | null = null;
 
-      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+const upgradeOnce = (factory: IDBFactory) => upgrade = upgrade || (async () => {
+  const version = await currentVersion(factory, DB_NAME);
+  if (version && version < LATEST_VERSION) {
+    await backupDatabase(factory, DB_NAME).catch(e => console.warn('[LocalDB] Backup before upgrade failed', e));
+  }
+  (await openDatabase(factory, DB_NAME, LATEST_VERSION)).close();
+})();
 
-      request.onerror = (event) => {
-        console.error("IndexedDB error:", (event.target as any).error);
-        reject((event.target as any).error);
-      };
+const factoryOrThrow = (): IDBFactory => {
+  if (!window.indexedDB) throw new Error("IndexedDB not supported in this environment");
+  return window.indexedDB;
+};
 
-      request.onsuccess = () => resolve(request.result);
+export const dbService = {
+  // Resolves once the database is on the latest version; rejects if the
+  // upgrade failed or is blocked by another tab
+  ready: async (): Promise<void> => upgradeOnce(factoryOrThrow()),
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        STORES.forEach(storeName => {
-          if (!db.objectStoreNames.contains(storeName)) {
-            const store = db.createObjectStore(storeName, { keyPath: 'id' });
-            
-            // Create Indices for faster local querying
-            if (storeName !== 'offline_queue' && storeName !== 'businesses') {
-              store.createIndex('business_id', 'businessId', { unique: false });
-            }
-            if (storeName === 'transactions') {
-              store.createIndex('date', 'date', { unique: false });
-            }
-          } else {
-             const store = (event.target as IDBOpenDBRequest).transaction?.objectStore(storeName);
-             if (store && storeName !== 'offline_queue' && storeName !== 'businesses' && !store.indexNames.contains('business_id')) {
-                store.createIndex('business_id', 'businessId', { unique: false });
-             }
-          }
-        });
-      };
-    });
+  // Initialize Database
+  open: async (): Promise<IDBDatabase> => {
+    await dbService.ready();
+    return openDatabase(factoryOrThrow(), DB_NAME, LATEST_VERSION);
   },
 
+  // The backup taken before the last upgrade, if any
+  backupVersion: async (): Promise<number | null> => (await latestBackup(factoryOrThrow(), DB_NAME))?.version ?? null,
+
+  // Replaces the local data with the backup; reload afterwards to upgrade it again
+  restoreBackup: async (): Promise<number> => restoreBackup(factoryOrThrow(), DB_NAME),
+
   // Generic Get All
   getAll: async <T>(storeName: string): Promise<T[]> => {
     try {
@@ -65,6 +59,23 @@ export const dbService = {
     }
   },
 
+  // All rows whose index matches a value
+  getAllByIndex: async <T>(storeName: string, indexName: string, value: IDBValidKey): Promise<T[]> => {
+    try {
+      const db = await dbService.open();
+      return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readonly');
+        const request = tx.objectStore(storeName).index(indexName).getAll(value);
+        
+        request.onsuccess = () => resolve(request.result as T[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (e) {
+      console.warn(`[LocalDB] Failed to load ${storeName} by ${indexName}`, e);
+      return [];
+    }
+  },
+
   // Get by ID
   getById: async <T>(storeName: string, id: string): Promise<T | undefined> => {
     try {
@@ -82,6 +93,28 @@ export const dbService = {
     }
   },
 
+  // Several by ID in one transaction; missing ones come back undefined
+  getMany: async <T>(storeName: string, ids: string[]): Promise<(T | undefined)[]> => {
+    if (!ids.length) return [];
+    try {
+      const db = await dbService.open();
+      return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readonly');
+        const store = tx.objectStore(storeName);
+        const results: (T | undefined)[] = [];
+        ids.forEach((id, i) => {
+          const request = store.get(id);
+          request.onsuccess = () => { results[i] = request.result as T; };
+        });
+        
+        tx.oncomplete = () => resolve(results);
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch (e) {
+      return ids.map(() => undefined);
+    }
+  },
+
   // Generic Save (Bulk)
   saveItems: async (storeName: string, items: any[]) => {
     if (!items.length) return;
@@ -120,6 +153,26 @@ export const dbService = {
     }
   },
 
+  // Delete several in one transaction
+  deleteItems: async (storeName: string, ids: string[]) => {
+    if (!ids.length) return;
+    try {
+      const db = await dbService.open();
+      return new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        
+        ids.forEach(id => store.delete(id));
+        
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch (e) {
+      console.error(`[LocalDB] Failed to delete from ${storeName}`, e);
+      throw e;
+    }
+  },
+
   // Clear specific store
   clearStore: async (storeName: string) => {
     const db = await dbService.open();
@@ -0,0 +1,39 @@
+import { HeldOrder } from '../types';
+import { dbService } from './dbService';
+import { stockDemand } from './bundleService';
+import { tabService } from './tabService';
+
+// Parked carts belong to the device they were parked on, so they live only in
+// IndexedDB and are never pushed to the cloud. Other tabs on the device are
+// told, so their reservations stay in step.
+const STORE = 'held_orders';
+
+// Quantities held back from sale by parked carts that asked to reserve stock,
+// keyed like variantService.stockKey. Parked bundles reserve their components.
+export const reservedQuantities = (held: HeldOrder[]): Record<string, number> => {
+  const reserved: Record<string, number> = {};
+  held.filter(h => h.reserveStock).forEach(h => Object.entries(stockDemand(h.items)).forEach(([key, d]) => {
+    reserved[key] = (reserved[key] || 0) + d.quantity;
+  }));
+  return reserved;
+};
+
+export const heldOrderService = {
+  async fetch(businessId: string): Promise<HeldOrder[]> {
+    const all = await dbService.getAll<HeldOrder>(STORE);
+    return all
+      .filter(h => h.businessId === businessId)
+      .map(h => ({ ...h, timestamp: new Date(h.timestamp) }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  },
+
+  async save(held: HeldOrder): Promise<void> {
+    await dbService.saveItems(STORE, [held]);
+    tabService.broadcast({ table: STORE, event: 'UPDATE', data: held });
+  },
+
+  async remove(id: string): Promise<void> {
+    await dbService.deleteItem(STORE, id);
+    tabService.broadcast({ table: STORE, event: 'DELETE', data: { id } });
+  }
+};
@@ -0,0 +1,173 @@
+import * as XLSX from 'xlsx';
+import { Product, TaxType } from '../types';
+
+// Product fields an import can fill, by the kind of value they take
+type NumericField = 'price' | 'costPrice' | 'stock' | 'reorderPoint' | 'reorderQuantity';
+type TextField = 'sku' | 'name' | 'category' | 'barcode' | 'taxType';
+
+interface ImportFieldInfo {
+  label: string;
+  required?: boolean;
+  // Header names other systems commonly use for this column
+  aliases: string[];
+}
+
+export type ImportField = ImportFieldInfo & ({ key: NumericField; numeric: true } | { key: TextField; numeric?: false });
+
+const setField = <K extends NumericField | TextField>(patch: Partial<Product>, key: K, value: Product[K]) => {
+  patch[key] = value;
+};
+
+export const PRODUCT_FIELDS: ImportField[] = [
+  { key: 'sku', label: 'SKU', required: true, aliases: ['sku', 'item code', 'code', 'product code', 'itemcode'] },
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'item', 'item name', 'product', 'product name'] },
+  { key: 'category', label: 'Category', required: true, aliases: ['category', 'group', 'department', 'type'] },
+  { key: 'price', label: 'Sell Price', required: true, numeric: true, aliases: ['price', 'sell price', 'selling price', 'srp', 'retail price', 'unit price'] },
+  { key: 'costPrice', label: 'Cost Price', numeric: true, aliases: ['cost', 'cost price', 'unit cost', 'purchase price'] },
+  { key: 'stock', label: 'Stock', numeric: true, aliases: ['stock', 'qty', 'quantity', 'on hand', 'inventory', 'stock on hand'] },
+  { key: 'barcode', label: 'Barcode', aliases: ['barcode', 'upc', 'ean', 'gtin'] },
+  { key: 'taxType', label: 'Tax Treatment', aliases: ['tax', 'tax type', 'vat', 'tax treatment'] },
+  { key: 'reorderPoint', label: 'Reorder At', numeric: true, aliases: ['reorder point', 'reorder at', 'min stock', 'minimum'] },
+  { key: 'reorderQuantity', label: 'Reorder Qty', numeric: true, aliases: ['reorder qty', 'reorder quantity', 'order qty'] }
+];
+
+export type ColumnMapping = Partial<Record<keyof Product, number>>;
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  // As read from the file, so rows with problems can still be recognised
+  sku: string;
+  name: string;
+  action: ImportAction;
+  product?: Product;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Reads the first sheet of a CSV, XLS or XLSX file as rows of text.
+export const readSheet = async (file: File): Promise<SheetData> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('That file has no sheets to read.');
+  const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '' })
+    .map(r => r.map(c => String(c ?? '').trim()));
+  const [headers = [], ...rows] = table;
+  if (headers.length === 0) throw new Error('The first row should hold the column names.');
+  return { headers, rows: rows.filter(r => r.some(c => c !== '')) };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  PRODUCT_FIELDS.forEach(f => {
+    const idx = normalized.findIndex((h, i) => !taken.has(i) && f.aliases.includes(h));
+    if (idx >= 0) { mapping[f.key] = idx; taken.add(idx); }
+  });
+  return mapping;
+};
+
+const parseTaxType = (v: string): TaxType | null => {
+  const n = normalize(v);
+  if (!n || n === 'vat' || n === 'vatable') return 'VAT';
+  if (n.includes('exempt')) return 'VAT_EXEMPT';
+  if (n.includes('zero')) return 'ZERO_RATED';
+  return null;
+};
+
+const parseNumber = (v: string) => Number(v.replace(/[₱,\s]/g, ''));
+
+const show = (v: unknown) => v === undefined || v === null ? '' : String(v);
+
+// Checks every row against the mapping and works out what committing would do,
+// without changing anything. Existing items are matched by SKU.
+export const previewImport = (
+  sheet: SheetData,
+  mapping: ColumnMapping,
+  existing: Product[],
+  categories: string[]
+): ImportRow[] => {
+  const bySku = new Map(existing.map(p => [p.sku.trim().toLowerCase(), p]));
+  const knownCategories = new Map(categories.map(c => [c.toLowerCase(), c]));
+  const seen = new Map<string, number>();
+
+  return sheet.rows.map((cells, i) => {
+    const rowNumber = i + 2;
+    const errors: string[] = [];
+    const cell = (key: keyof Product) => mapping[key] !== undefined ? (cells[mapping[key]!] ?? '').trim() : '';
+    const patch: Partial<Product> = {};
+
+    PRODUCT_FIELDS.forEach(f => {
+      const raw = cell(f.key);
+      if (!raw) {
+        if (f.required) errors.push(`${f.label} is missing.`);
+        return;
+      }
+      if (f.numeric) {
+        const n = parseNumber(raw);
+        if (!Number.isFinite(n) || n < 0) errors.push(`${f.label} "${raw}" is not a valid amount.`);
+        else setField(patch, f.key, f.key === 'price' || f.key === 'costPrice' ? Math.round(n * 100) / 100 : Math.round(n));
+      } else if (f.key === 'taxType') {
+        const t = parseTaxType(raw);
+        if (!t) errors.push(`Tax treatment "${raw}" should be VAT, Exempt or Zero-rated.`);
+        else patch.taxType = t;
+      } else if (f.key === 'category') {
+        const c = knownCategories.get(raw.toLowerCase());
+        if (!c) errors.push(`Category "${raw}" doesn't exist yet.`);
+        else patch.category = c;
+      } else {
+        setField(patch, f.key, raw);
+      }
+    });
+
+    const sku = (patch.sku || '').toLowerCase();
+    if (sku) {
+      if (seen.has(sku)) errors.push(`SKU ${patch.sku} is also on row ${seen.get(sku)}.`);
+      else seen.set(sku, rowNumber);
+    }
+    const current = sku ? bySku.get(sku) : undefined;
+    if (current?.variants?.length) errors.push(`${current.name} has variants; update it from Inventory instead.`);
+    const label = { sku: cell('sku'), name: cell('name') };
+    if (errors.length > 0) return { rowNumber, ...label, action: 'error', changes: [], errors };
+
+    if (!current) {
+      const product: Product = { taxType: 'VAT', stock: 0, ...patch, id: `ID-${Date.now()}-${i}` } as Product;
+      return { rowNumber, ...label, action: 'create', product, changes: [], errors };
+    }
+    const changes = PRODUCT_FIELDS
+      .filter(f => patch[f.key] !== undefined && show(patch[f.key]) !== show(current[f.key]))
+      .map(f => ({ field: f.label, from: show(current[f.key]), to: show(patch[f.key]) }));
+    return {
+      rowNumber,
+      ...label,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      product: { ...current, ...patch, sku: current.sku },
+      changes,
+      errors
+    };
+  });
+};
+
+// Same columns the import understands, so an export can be edited and re-imported.
+export const exportProducts = (products: Product[], format: 'csv' | 'xlsx') => {
+  const rows = products.map(p => PRODUCT_FIELDS.map(f => p[f.key] ?? ''));
+  const sheet = XLSX.utils.aoa_to_sheet([PRODUCT_FIELDS.map(f => f.label), ...rows]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Products');
+  XLSX.writeFile(workbook, `Products_${new Date().toISOString().split('T')[0]}.${format}`, { bookType: format });
+};
@@ -0,0 +1,125 @@
+import { Order, ReceiptSeries } from '../types';
+import { countsTowardSales, isSale } from './orderService';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const byDate = (a: Order, b: Order) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+export const SALES_JOURNAL_HEADERS = [
+  "Date", "Receipt No", "Terminal", "Type", "Original Ref", "Customer", "SC/PWD ID",
+  "VATable Sales", "VAT", "VAT-Exempt Sales", "Zero-Rated Sales", "SC/PWD Discount", "Total", "Status"
+];
+
+// One row per issued document in issue order, refunds and voids as negative rows.
+export const buildSalesJournal = (orders: Order[], from?: Date, to?: Date): (string | number)[][] =>
+  orders
+    .filter(o => countsTowardSales(o))
+    .filter(o => (!from || new Date(o.date) >= from) && (!to || new Date(o.date) <= to))
+    .sort(byDate)
+    .map(o => [
+      new Date(o.date).toISOString(),
+      o.receiptNo || o.id,
+      o.terminalId || "",
+      o.kind || "Sale",
+      o.refundOf || "",
+      o.statutoryDiscount?.holderName || o.customerName || "",
+      o.statutoryDiscount ? `${o.statutoryDiscount.type} ${o.statutoryDiscount.idNumber}` : "",
+      o.taxBreakdown.vatableSales,
+      o.taxBreakdown.vatAmount,
+      o.taxBreakdown.exemptSales,
+      o.taxBreakdown.zeroRatedSales,
+      o.taxBreakdown.statutoryDiscount,
+      o.total,
+      o.status
+    ]);
+
+export interface ESalesRow {
+  tin: string;
+  terminalId: string;
+  period: string;
+  beginningReceipt: string;
+  endingReceipt: string;
+  beginningGrandTotal: number;
+  endingGrandTotal: number;
+  grossSales: number;
+  vatableSales: number;
+  vatAmount: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  statutoryDiscount: number;
+  returns: number;
+  netSales: number;
+}
+
+export const E_SALES_HEADERS = [
+  "TIN", "Terminal", "Period", "Beginning SI", "Ending SI", "Beginning Grand Total", "Ending Grand Total",
+  "Gross Sales", "VATable Sales", "VAT", "VAT-Exempt Sales", "Zero-Rated Sales", "SC/PWD Discount", "Returns", "Net Sales"
+];
+
+// Monthly e-sales summary per terminal. period is 'YYYY-MM'. The beginning
+// grand total is the terminal's SI counter less the sales issued since the
+// month began, since this device rarely holds every order the terminal ever
+// rang up. Terminals without a counter fall back to the orders on hand.
+export const buildESalesReport = (orders: Order[], period: string, tin = '', series: ReceiptSeries[] = []): ESalesRow[] => {
+  const [year, month] = period.split('-').map(Number);
+  const start = new Date(year, month - 1, 1);
+  const end = new Date(year, month, 1);
+  const valid = orders.filter(countsTowardSales);
+  const terminals = Array.from(new Set(valid.map(o => o.terminalId || 'UNASSIGNED')));
+
+  return terminals.map(terminalId => {
+    const own = valid.filter(o => (o.terminalId || 'UNASSIGNED') === terminalId).sort(byDate);
+    const before = own.filter(o => new Date(o.date) < start);
+    const within = own.filter(o => new Date(o.date) >= start && new Date(o.date) < end);
+    const sales = within.filter(isSale);
+    const returns = within.filter(o => !isSale(o));
+    const sum = (list: Order[], pick: (o: Order) => number) => round2(list.reduce((s, o) => s + pick(o), 0));
+
+    const counter = series.find(s => s.terminalId === terminalId && s.docType === 'SI');
+    const beginningGrandTotal = counter
+      ? round2(counter.grandTotal - sum(own.filter(o => isSale(o) && new Date(o.date) >= start), o => o.total))
+      : sum(before.filter(isSale), o => o.total);
+    const grossSales = sum(sales, o => o.total);
+    return {
+      tin,
+      terminalId,
+      period,
+      beginningReceipt: sales[0]?.receiptNo || '',
+      endingReceipt: sales[sales.length - 1]?.receiptNo || '',
+      beginningGrandTotal,
+      endingGrandTotal: round2(beginningGrandTotal + grossSales),
+      grossSales,
+      vatableSales: sum(within, o => o.taxBreakdown.vatableSales),
+      vatAmount: sum(within, o => o.taxBreakdown.vatAmount),
+      exemptSales: sum(within, o => o.taxBreakdown.exemptSales),
+      zeroRatedSales: sum(within, o => o.taxBreakdown.zeroRatedSales),
+      statutoryDiscount: sum(within, o => o.taxBreakdown.statutoryDiscount),
+      returns: sum(returns, o => -o.total),
+      netSales: sum(within, o => o.total)
+    };
+  }).filter(r => r.grossSales !== 0 || r.returns !== 0);
+};
+
+export const eSalesRowToCsv = (r: ESalesRow) => [
+  r.tin, r.terminalId, r.period, r.beginningReceipt, r.endingReceipt, r.beginningGrandTotal, r.endingGrandTotal,
+  r.grossSales, r.vatableSales, r.vatAmount, r.exemptSales, r.zeroRatedSales, r.statutoryDiscount, r.returns, r.netSales
+];
+
+export const toCsv = (headers: string[], rows: (string | number)[][]) => {
+  const cell = (v: string | number) => {
+    const s = String(v ?? '');
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [headers, ...rows].map(r => r.map(cell).join(',')).join('\n');
+};
+
+export const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,200 @@
+import { Order, Product, StockLot, StockMovement, SystemUser } from '../types';
+import { EXPIRY_WARNING_DAYS } from '../constants';
+import { newMovement } from './stockService';
+import { stockKey } from './variantService';
+
+// Reason stamped on write-offs of expired stock, which Reporting totals as expiry loss.
+export const EXPIRED_REASON = 'Expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Expiry dates are whole days. Synced rows come back as Date objects, so
+// everything is brought back to YYYY-MM-DD before it is compared or stored.
+// A bare date is kept as is; anything with a time is read in local time, so
+// the day doesn't slip around midnight UTC.
+export const expiryDay = (v: string | Date) => {
+  if (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)) return v;
+  const d = new Date(v);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+};
+
+// Both days are taken as UTC midnights, so a daylight-saving shift can't
+// round the difference off by one.
+const dayNumber = (v: string | Date) => {
+  const [y, m, d] = expiryDay(v).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+};
+
+export const daysUntilExpiry = (expiresAt: string | Date, now = new Date()) =>
+  dayNumber(expiresAt) - dayNumber(now);
+
+// Lot number used when a delivery has an expiry date but no printed lot code.
+export const defaultLotNumber = (expiresAt: string) => `EXP-${expiryDay(expiresAt)}`;
+
+// What is left of every lot, built from the ledger. Goods in with a lot number
+// open the lot; outbound movements tagged with that lot draw it down.
+export const lotBalances = (movements: StockMovement[]): StockLot[] => {
+  const lots = new Map<string, StockLot>();
+  [...movements]
+    .filter(m => m.lotNumber)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(m => {
+      const key = `${stockKey(m.productId, m.variantId)}#${m.lotNumber}`;
+      const lot = lots.get(key) || {
+        key,
+        productId: m.productId,
+        variantId: m.variantId,
+        lotNumber: m.lotNumber!,
+        quantity: 0,
+        receivedAt: new Date(m.createdAt).toISOString()
+      };
+      if (m.quantity > 0) {
+        if (m.expiresAt && !lot.expiresAt) lot.expiresAt = expiryDay(m.expiresAt);
+        if (m.unitCost !== undefined && lot.unitCost === undefined) lot.unitCost = m.unitCost;
+      }
+      lot.quantity += m.quantity;
+      lots.set(key, lot);
+    });
+  return [...lots.values()].filter(l => l.quantity > 0);
+};
+
+// First expiring first; lots with no expiry date go last, oldest delivery first.
+export const fefoOrder = (lots: StockLot[]) => [...lots].sort((a, b) => {
+  if (a.expiresAt !== b.expiresAt) {
+    if (!a.expiresAt) return 1;
+    if (!b.expiresAt) return -1;
+    return a.expiresAt < b.expiresAt ? -1 : 1;
+  }
+  return a.receivedAt < b.receivedAt ? -1 : 1;
+});
+
+// Splits outbound sale and transfer movements across the open lots of each
+// item, first expiring first. Anything beyond the tracked lots stays untagged.
+export const allocateLots = (movements: StockMovement[], lots: StockLot[]): StockMovement[] => {
+  const remaining = new Map(lots.map(l => [l.key, l.quantity]));
+  return movements.flatMap(m => {
+    if ((m.type !== 'SALE' && m.type !== 'TRANSFER') || m.quantity >= 0 || m.lotNumber) return [m];
+    const key = stockKey(m.productId, m.variantId);
+    let left = -m.quantity;
+    const parts: StockMovement[] = [];
+    fefoOrder(lots.filter(l => stockKey(l.productId, l.variantId) === key)).forEach(lot => {
+      const take = Math.min(left, remaining.get(lot.key) || 0);
+      if (take <= 0) return;
+      remaining.set(lot.key, (remaining.get(lot.key) || 0) - take);
+      left -= take;
+      parts.push({ ...m, quantity: -take, lotNumber: lot.lotNumber, expiresAt: lot.expiresAt });
+    });
+    if (parts.length === 0) return [m];
+    if (left > 0) parts.push({ ...m, quantity: -left });
+    // The first part keeps the original id so a retried sale still lands once
+    return parts.map((p, i) => i === 0 ? p : { ...p, id: `${m.id}-${i}` });
+  });
+};
+
+// Puts returned units back into the lots the original sale drew them from,
+// less whatever earlier returns of that sale already put back. Units the sale
+// took from untracked stock come back untagged.
+export const returnToLots = (movements: StockMovement[], refund: Order, orders: Order[], ledger: StockMovement[]): StockMovement[] => {
+  const original = orders.find(o => o.id === refund.refundOf);
+  if (!original) return movements;
+  const saleRef = original.receiptNo || original.id;
+  const earlierRefs = new Set(orders.filter(o => o.refundOf === original.id && o.id !== refund.id).map(o => o.receiptNo || o.id));
+
+  // Units per lot still out with the customer, in the order the sale drew them
+  const out = new Map<string, { lotNumber: string; expiresAt?: string; quantity: number }>();
+  ledger.filter(m => m.lotNumber && m.type === 'SALE' && m.reference === saleRef).forEach(m => {
+    const key = `${stockKey(m.productId, m.variantId)}#${m.lotNumber}`;
+    const lot = out.get(key) || { lotNumber: m.lotNumber!, expiresAt: m.expiresAt, quantity: 0 };
+    lot.quantity -= m.quantity;
+    out.set(key, lot);
+  });
+  ledger.filter(m => m.lotNumber && m.type === 'REFUND' && m.reference && earlierRefs.has(m.reference)).forEach(m => {
+    const lot = out.get(`${stockKey(m.productId, m.variantId)}#${m.lotNumber}`);
+    if (lot) lot.quantity -= m.quantity;
+  });
+
+  return movements.flatMap(m => {
+    if (m.type !== 'REFUND' || m.quantity <= 0 || m.lotNumber) return [m];
+    const prefix = `${stockKey(m.productId, m.variantId)}#`;
+    let left = m.quantity;
+    const parts: StockMovement[] = [];
+    out.forEach((lot, key) => {
+      if (!key.startsWith(prefix)) return;
+      const put = Math.min(left, lot.quantity);
+      if (put <= 0) return;
+      lot.quantity -= put;
+      left -= put;
+      parts.push({ ...m, quantity: put, lotNumber: lot.lotNumber, expiresAt: lot.expiresAt });
+    });
+    if (parts.length === 0) return [m];
+    if (left > 0) parts.push({ ...m, quantity: left });
+    return parts.map((p, i) => i === 0 ? p : { ...p, id: `${m.id}-${i}` });
+  });
+};
+
+export interface ExpiringLot extends StockLot {
+  product: Product;
+  daysLeft: number;
+  value: number;
+}
+
+// Lots that have expired or will within the warning window, soonest first.
+export const expiringLots = (
+  lots: StockLot[],
+  products: Product[],
+  withinDays = EXPIRY_WARNING_DAYS,
+  now = new Date()
+): ExpiringLot[] => {
+  const byId = new Map(products.map(p => [p.id, p]));
+  return fefoOrder(lots)
+    .filter(l => l.expiresAt && byId.has(l.productId))
+    .map(l => {
+      const product = byId.get(l.productId)!;
+      return {
+        ...l,
+        product,
+        daysLeft: daysUntilExpiry(l.expiresAt!, now),
+        value: Math.round(l.quantity * (l.unitCost ?? product.costPrice ?? 0) * 100) / 100
+      };
+    })
+    .filter(l => l.daysLeft <= withinDays);
+};
+
+// Removes what is left of a lot from stock at the cost it came in at.
+export const writeOffLot = (lot: StockLot, user?: SystemUser | null, reason = EXPIRED_REASON): StockMovement =>
+  newMovement(lot.productId, 'WASTAGE', -lot.quantity, reason, user, {
+    variantId: lot.variantId,
+    lotNumber: lot.lotNumber,
+    expiresAt: lot.expiresAt,
+    unitCost: lot.unitCost,
+    reference: lot.lotNumber
+  });
+
+export interface ExpiryLossRow {
+  productId: string;
+  name: string;
+  quantity: number;
+  value: number;
+}
+
+// Stock written off as expired within the period, valued at its lot cost.
+export const expiryLoss = (movements: StockMovement[], products: Product[], from?: Date, to?: Date) => {
+  const byId = new Map(products.map(p => [p.id, p]));
+  const rows = new Map<string, ExpiryLossRow>();
+  movements
+    .filter(m => m.type === 'WASTAGE' && m.reason === EXPIRED_REASON)
+    .filter(m => (!from || new Date(m.createdAt) >= from) && (!to || new Date(m.createdAt) <= to))
+    .forEach(m => {
+      const product = byId.get(m.productId);
+      const r = rows.get(m.productId) || { productId: m.productId, name: product?.name || m.productId, quantity: 0, value: 0 };
+      r.quantity += -m.quantity;
+      r.value += -m.quantity * (m.unitCost ?? product?.costPrice ?? 0);
+      rows.set(m.productId, r);
+    });
+  const list = [...rows.values()]
+    .map(r => ({ ...r, value: Math.round(r.value * 100) / 100 }))
+    .sort((a, b) => b.value - a.value);
+  return { rows: list, total: Math.round(list.reduce((s, r) => s + r.value, 0) * 100) / 100 };
+};
@@ -0,0 +1,59 @@
+import { Order, OrderLine, Transaction } from '../types';
+import { computeLineTax, summarizeTax } from './taxService';
+
+// Building orders out of their lines. Nothing here touches storage, so the
+// local database migrations can use it too.
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const byNewest = (a: { date: string }, b: { date: string }) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+export const summarizeLines = (lines: OrderLine[]) => {
+  const subtotal = lines.reduce((s, l) => s + l.unitPrice * l.quantity, 0);
+  const discountTotal = lines.reduce((s, l) => s + l.discount + (l.vatExemption || 0), 0);
+  const taxTotal = lines.reduce((s, l) => s + l.tax, 0);
+  const total = lines.reduce((s, l) => s + l.lineTotal, 0);
+  return { subtotal: round2(subtotal), discountTotal: round2(discountTotal), taxTotal: round2(taxTotal), total: round2(total) };
+};
+
+// Rebuilds orders from legacy `transactions` rows. Rows that shared an id were
+// meant to be lines of one sale, so they are grouped back together.
+export const ordersFromTransactions = (rows: Transaction[]): Order[] => {
+  const grouped = new Map<string, Transaction[]>();
+  rows.forEach(t => {
+    const bucket = grouped.get(t.id);
+    if (bucket) bucket.push(t);
+    else grouped.set(t.id, [t]);
+  });
+
+  return Array.from(grouped.entries()).map(([id, group]) => {
+    const first = group[0];
+    const lines: OrderLine[] = group.map((t, idx) => {
+      const quantity = t.quantity || 1;
+      const unitPrice = round2(t.amount / quantity);
+      return {
+        id: `${id}-L${idx + 1}`,
+        orderId: id,
+        businessId: t.businessId,
+        productId: t.productId,
+        productName: t.product,
+        category: t.category,
+        unitPrice,
+        quantity,
+        ...computeLineTax(unitPrice, quantity)
+      };
+    });
+    const totals = summarizeLines(lines);
+    return {
+      id,
+      businessId: first.businessId,
+      date: new Date(first.date).toISOString(),
+      location: first.location,
+      status: first.status,
+      ...totals,
+      taxBreakdown: summarizeTax(lines),
+      payments: [{ method: first.paymentMethod || 'Cash', amount: totals.total }],
+      lines
+    };
+  }).sort(byNewest);
+};
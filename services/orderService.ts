@@ -0,0 +1,80 @@
+import { Order, OrderLine, Transaction } from '../types';
+import { dataService } from './dataService';
+import { summarizeTax } from './taxService';
+import { byNewest, ordersFromTransactions } from './orderLines';
+
+export { ordersFromTransactions, summarizeLines } from './orderLines';
+
+const MIGRATION_FLAG_PREFIX = 'automate_v3_orders_migrated_';
+
+type OrderHeader = Omit<Order, 'lines'>;
+
+// Lines live in their own table; the header row never carries them.
+const toHeader = (order: Order): OrderHeader => {
+  const { lines, ...header } = order;
+  return header;
+};
+
+export const attachLines = (headers: OrderHeader[], lines: OrderLine[]): Order[] => {
+  const grouped = new Map<string, OrderLine[]>();
+  lines.forEach(l => {
+    const bucket = grouped.get(l.orderId);
+    if (bucket) bucket.push(l);
+    else grouped.set(l.orderId, [l]);
+  });
+  return headers
+    .map(h => {
+      const lines = grouped.get(h.id) || [];
+      return { ...h, payments: h.payments || [], taxBreakdown: h.taxBreakdown || summarizeTax(lines), lines };
+    })
+    .sort(byNewest);
+};
+
+export const isSale = (order: Order) => !order.kind || order.kind === 'Sale';
+
+// A sale keeps counting at its original value after a refund; the refund order
+// carries the negative amounts, so net figures come from summing both.
+export const countsTowardSales = (order: Order) => order.status !== 'Processing';
+
+export const orderService = {
+  async fetch(businessId: string): Promise<Order[]> {
+    const [headers, lines] = await Promise.all([
+      dataService.fetch<OrderHeader>('orders', 'orders', businessId),
+      dataService.fetch<OrderLine>('order_lines', 'order_lines', businessId)
+    ]);
+    return attachLines(headers, lines);
+  },
+
+  async save(order: Order, businessId?: string): Promise<boolean> {
+    const bizId = order.businessId || businessId;
+    const lines = order.lines.map(l => ({ ...l, orderId: order.id, businessId: l.businessId || bizId }));
+    const saved = await dataService.upsert('orders', 'orders', { ...toHeader(order), businessId: bizId }, bizId);
+    await dataService.upsertMany('order_lines', 'order_lines', lines);
+    return saved;
+  },
+
+  async updateStatus(order: Order, status: Order['status']): Promise<Order> {
+    const updated = { ...order, status };
+    await dataService.upsert('orders', 'orders', toHeader(updated), order.businessId);
+    return updated;
+  },
+
+  // One-off copy of legacy `transactions` rows into orders/order_lines. Orders that
+  // already exist are left untouched so the step is safe to repeat.
+  async migrateLegacyTransactions(businessId: string, existing: Order[]): Promise<Order[]> {
+    const flag = `${MIGRATION_FLAG_PREFIX}${businessId}`;
+    if (localStorage.getItem(flag) === 'true') return [];
+
+    const legacy = await dataService.fetch<Transaction>('transactions', 'transactions', businessId);
+    const known = new Set(existing.map(o => o.id));
+    const migrated = ordersFromTransactions(legacy)
+      .filter(o => !known.has(o.id))
+      .map(o => ({ ...o, businessId: o.businessId || businessId }));
+
+    for (const order of migrated) {
+      await orderService.save(order, businessId);
+    }
+    localStorage.setItem(flag, 'true');
+    return migrated;
+  }
+};
@@ -0,0 +1,77 @@
+import { Order, OrderPayment, PaymentMethod } from '../types';
+import { PAYMENT_METHODS } from '../constants';
+import { countsTowardSales } from './orderService';
+
+export interface TenderDraft {
+  id: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface TenderSettlement {
+  payments: OrderPayment[];
+  paid: number;
+  balance: number;
+  change: number;
+  error?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const requiresReference = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find(m => m.id === method)?.requiresReference ?? false;
+
+// Non-cash tenders are charged at face value; cash covers whatever is left and
+// any excess becomes change. Only cash may overpay.
+export const settleTenders = (total: number, drafts: TenderDraft[]): TenderSettlement => {
+  const due = round2(total);
+  const nonCash = drafts.filter(d => d.method !== 'Cash');
+  const cashTendered = round2(drafts.filter(d => d.method === 'Cash').reduce((s, d) => s + d.amount, 0));
+  const nonCashTotal = round2(nonCash.reduce((s, d) => s + d.amount, 0));
+
+  const missingRef = nonCash.find(d => requiresReference(d.method) && !d.reference?.trim());
+  if (missingRef) {
+    return { payments: [], paid: 0, balance: due, change: 0, error: `${missingRef.method} needs a reference number.` };
+  }
+  if (nonCashTotal > due) {
+    return { payments: [], paid: 0, balance: due, change: 0, error: 'Non-cash payments are more than the amount due.' };
+  }
+
+  const cashApplied = round2(Math.min(cashTendered, due - nonCashTotal));
+  const payments: OrderPayment[] = nonCash.map(d => ({
+    method: d.method,
+    amount: round2(d.amount),
+    reference: d.reference?.trim()
+  }));
+  if (cashTendered > 0) {
+    payments.unshift({
+      method: 'Cash',
+      amount: cashApplied,
+      tendered: cashTendered,
+      change: round2(cashTendered - cashApplied)
+    });
+  }
+
+  const paid = round2(nonCashTotal + cashApplied);
+  return {
+    payments,
+    paid,
+    balance: round2(due - paid),
+    change: round2(cashTendered - cashApplied)
+  };
+};
+
+// Net totals per payment method (refunds included), for end-of-day reconciliation.
+export const summarizeByMethod = (orders: Order[]) => {
+  const summary = new Map<PaymentMethod, { method: PaymentMethod; amount: number; count: number }>();
+  orders.filter(countsTowardSales).forEach(o => {
+    o.payments.forEach(p => {
+      const row = summary.get(p.method) || { method: p.method, amount: 0, count: 0 };
+      row.amount = round2(row.amount + p.amount);
+      row.count += 1;
+      summary.set(p.method, row);
+    });
+  });
+  return Array.from(summary.values()).sort((a, b) => b.amount - a.amount);
+};
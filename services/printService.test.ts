@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderLine } from '../types';
+import { ReceiptBusiness, renderEscPos } from './printService';
+import { computeLineTax, summarizeTax } from './taxService';
+import { summarizeLines } from './orderLines';
+
+// Receipt dates print in local time
+process.env.TZ = 'Asia/Manila';
+
+const CONTROL: Record<number, string> = { 0x0a: '\n', 0x1b: '<ESC>', 0x1d: '<GS>' };
+
+// The bytes as text: printable ASCII as is, control codes by name and their
+// parameters in hex, so a snapshot shows exactly what reaches the printer.
+const dump = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (b === 0x1b || b === 0x1d) {
+      // ESC @ takes no argument and GS V two; everything else here takes one
+      const params = bytes[i + 1] === 0x40 ? 1 : bytes[i + 1] === 0x56 ? 3 : 2;
+      out += CONTROL[b] + Array.from(bytes.slice(i + 1, i + 1 + params), p => ` ${p.toString(16).padStart(2, '0')}`).join('') + ' ';
+      i += params;
+    } else {
+      out += CONTROL[b] ?? String.fromCharCode(b);
+    }
+  }
+  return out;
+};
+
+const line = (id: string, productName: string, unitPrice: number, quantity: number, statutory = false): OrderLine => ({
+  id,
+  orderId: 'ORDER-T0001-1',
+  productName,
+  category: 'Grocery',
+  unitPrice,
+  quantity,
+  ...computeLineTax(unitPrice, quantity, 'VAT', statutory)
+});
+
+const order = (lines: OrderLine[], extra: Partial<Order> = {}): Order => ({
+  id: 'ORDER-T0001-1',
+  date: '2026-03-14T06:05:00.000Z',
+  location: 'Main Shop',
+  operatorName: 'Ana Cruz',
+  receiptNo: 'SI-T0001-00000042',
+  terminalId: 'T0001',
+  status: 'Completed',
+  ...summarizeLines(lines),
+  taxBreakdown: summarizeTax(lines),
+  payments: [{ method: 'Cash', amount: summarizeLines(lines).total, tendered: 500, change: Math.round((500 - summarizeLines(lines).total) * 100) / 100 }],
+  lines,
+  ...extra
+});
+
+const business = (paperWidth: 58 | 80): ReceiptBusiness => ({
+  name: 'Sari-Sari ni Aling Nena',
+  address: '12 Mabini St., Quezon City',
+  contact: '0917 555 0101',
+  footerMessage: 'Salamat po!',
+  tin: '123-456-789-00000',
+  vatRegistered: true,
+  template: { paperWidth, showOperator: true, showTaxBreakdown: true }
+});
+
+const vatSale = order([line('L1', 'Lucky Me Pancit Canton', 15, 4), line('L2', 'Bear Brand 320g', 185.5, 1)]);
+const statutorySale = order(
+  [line('L1', 'Biogesic 500mg', 5.5, 10, true), line('L2', 'Alaxan FR', 9, 4, true)],
+  { statutoryDiscount: { type: 'SC', idNumber: 'QC-SC-000123', holderName: 'Jose Rizal' } }
+);
+
+describe('renderEscPos', () => {
+  it.each([58, 80] as const)('prints a VAT sale on %imm paper', paper => {
+    expect(dump(renderEscPos(vatSale, business(paper)))).toMatchSnapshot();
+  });
+
+  it.each([58, 80] as const)('prints a Senior Citizen sale on %imm paper', paper => {
+    expect(dump(renderEscPos(statutorySale, business(paper)))).toMatchSnapshot();
+  });
+
+  it.each([58, 80] as const)('marks a reprint on %imm paper', paper => {
+    expect(dump(renderEscPos(vatSale, business(paper), true))).toMatchSnapshot();
+  });
+
+  it('starts by resetting the printer and ends with a partial cut', () => {
+    const bytes = Array.from(renderEscPos(vatSale, business(58)));
+    expect(bytes.slice(0, 2)).toEqual([0x1b, 0x40]);
+    expect(bytes.slice(-7)).toEqual([0x1b, 0x64, 4, 0x1d, 0x56, 0x41, 0x03]);
+  });
+});
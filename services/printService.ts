@@ -0,0 +1,242 @@
+import { Business, Order, ReceiptTemplate } from '../types';
+import { DEFAULT_RECEIPT_TEMPLATE } from '../constants';
+
+// What the receipt needs to know about the shop issuing it.
+export interface ReceiptBusiness {
+  name: string;
+  address: string;
+  contact?: string;
+  footerMessage: string;
+  tin?: string;
+  vatRegistered?: boolean;
+  template?: ReceiptTemplate;
+}
+
+export const receiptBusinessFrom = (business: Business | undefined, fallbackName: string, contact?: string): ReceiptBusiness => ({
+  name: business?.name || fallbackName,
+  address: business?.address || '',
+  contact: business?.phone || business?.contactEmail || contact,
+  footerMessage: business?.receiptFooter || 'Thank you for shopping!',
+  tin: business?.tin,
+  vatRegistered: business?.vatRegistered,
+  template: business?.receiptTemplate
+});
+
+type Align = 'left' | 'center' | 'right';
+
+// Paper-independent receipt layout; every renderer below works from these rows.
+export type ReceiptRow =
+  | { kind: 'text'; text: string; align: Align; bold?: boolean; tall?: boolean }
+  | { kind: 'pair'; left: string; right: string; bold?: boolean }
+  | { kind: 'rule' };
+
+// Characters per line in the printer's default font (Font A)
+export const columnsFor = (paperWidth: 58 | 80) => paperWidth === 80 ? 48 : 32;
+
+const money = (n: number) => {
+  const [int, dec] = Math.abs(n).toFixed(2).split('.');
+  return `${n < 0 ? '-' : ''}${int.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${dec}`;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+const stamp = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+};
+
+const title = (order: Order) =>
+  order.kind === 'Void' ? 'VOID SLIP' : order.kind === 'Refund' ? 'RETURN SLIP' : 'SALES INVOICE';
+
+export const layoutReceipt = (order: Order, business: ReceiptBusiness, reprint = false): ReceiptRow[] => {
+  const t = business.template || DEFAULT_RECEIPT_TEMPLATE;
+  const center = (text: string, bold = false, tall = false): ReceiptRow => ({ kind: 'text', text, align: 'center', bold, tall });
+  const pair = (left: string, right: string, bold = false): ReceiptRow => ({ kind: 'pair', left, right, bold });
+  const rows: ReceiptRow[] = [center(business.name, true, true)];
+
+  if (business.address) rows.push(center(business.address));
+  if (business.tin) rows.push(center(`${business.vatRegistered === false ? 'NON-VAT' : 'VAT'} REG TIN: ${business.tin}`));
+  if (business.contact) rows.push(center(business.contact));
+  if (t.headerNote) rows.push(center(t.headerNote));
+  rows.push({ kind: 'rule' }, center(title(order), true));
+  if (reprint) rows.push(center('*** REPRINT ***', true));
+  rows.push({ kind: 'rule' });
+
+  rows.push(pair(order.kind && order.kind !== 'Sale' ? 'Slip No' : 'SI No', order.receiptNo || order.id));
+  rows.push(pair('Date', stamp(order.date)));
+  if (t.showOperator && order.operatorName) rows.push(pair('Cashier', order.operatorName));
+  if (order.terminalId) rows.push(pair('Terminal', order.terminalId));
+  if (order.refundOf) rows.push(pair('Ref', order.refundOf));
+  rows.push({ kind: 'rule' });
+
+  order.lines.forEach(l => {
+    rows.push({ kind: 'text', text: l.productName, align: 'left' });
+    (l.modifiers || []).forEach(m => rows.push({ kind: 'text', text: `  + ${m.name}`, align: 'left' }));
+    rows.push(pair(`  ${l.quantity} x ${money(l.unitPrice)}${l.taxType && l.taxType !== 'VAT' ? (l.taxType === 'ZERO_RATED' ? ' Z' : ' E') : ''}`, money(l.unitPrice * l.quantity)));
+  });
+  rows.push({ kind: 'rule' });
+
+  const tb = order.taxBreakdown;
+  rows.push(pair('Subtotal', money(order.subtotal)));
+  if (tb.vatExemption) rows.push(pair('Less VAT', money(-tb.vatExemption)));
+  if (tb.statutoryDiscount) rows.push(pair(`${order.statutoryDiscount?.type || 'SC/PWD'} Discount`, money(-tb.statutoryDiscount)));
+  rows.push(pair('TOTAL', money(order.total), true));
+  order.payments.forEach(p => {
+    rows.push(pair(p.reference ? `${p.method} #${p.reference}` : p.method, money(p.tendered ?? p.amount)));
+    if (p.change) rows.push(pair('Change', money(p.change)));
+  });
+
+  if (t.showTaxBreakdown) {
+    rows.push({ kind: 'rule' });
+    rows.push(pair('VATable Sales', money(tb.vatableSales)));
+    rows.push(pair('VAT 12%', money(tb.vatAmount)));
+    rows.push(pair('VAT-Exempt Sales', money(tb.exemptSales)));
+    rows.push(pair('Zero-Rated Sales', money(tb.zeroRatedSales)));
+  }
+
+  if (order.statutoryDiscount) {
+    rows.push({ kind: 'rule' });
+    rows.push(pair(`${order.statutoryDiscount.type} ID`, order.statutoryDiscount.idNumber));
+    rows.push(pair('Name', order.statutoryDiscount.holderName));
+    rows.push(pair('Signature', '______________'));
+  }
+  if (order.refundReason) rows.push(pair('Reason', order.refundReason));
+
+  rows.push({ kind: 'rule' });
+  if (business.vatRegistered === false) rows.push(center('THIS DOCUMENT IS NOT VALID FOR CLAIM OF INPUT TAX'));
+  rows.push(center(business.footerMessage));
+  return rows;
+};
+
+const wrap = (text: string, width: number): string[] => {
+  const out: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (line) { out.push(line); line = ''; }
+      out.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+    else { out.push(line); line = word; }
+  });
+  if (line) out.push(line);
+  return out.length ? out : [''];
+};
+
+const alignTo = (text: string, width: number, align: Align) => {
+  if (align === 'left') return text;
+  const gap = Math.max(0, width - text.length);
+  return align === 'right' ? ' '.repeat(gap) + text : ' '.repeat(Math.floor(gap / 2)) + text;
+};
+
+const pairLines = (left: string, right: string, width: number): string[] => {
+  if (left.length + 1 + right.length <= width) return [left + ' '.repeat(width - left.length - right.length) + right];
+  return [...wrap(left, width), alignTo(right, width, 'right')];
+};
+
+// Each row as the fixed-width lines it prints on.
+const rowLines = (row: ReceiptRow, width: number): string[] => {
+  if (row.kind === 'rule') return ['-'.repeat(width)];
+  if (row.kind === 'pair') return pairLines(row.left, row.right, width);
+  return wrap(row.text, width).map(l => alignTo(l, width, row.align));
+};
+
+export const renderText = (order: Order, business: ReceiptBusiness, reprint = false): string => {
+  const width = columnsFor((business.template || DEFAULT_RECEIPT_TEMPLATE).paperWidth);
+  return layoutReceipt(order, business, reprint).flatMap(r => rowLines(r, width)).join('\n');
+};
+
+// Thermal printers only know single-byte code pages; fold accents (ñ -> n)
+// and replace anything else outside printable ASCII.
+const toAscii = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/₱/g, 'P').replace(/[^\x20-\x7E]/g, '?');
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export const renderEscPos = (order: Order, business: ReceiptBusiness, reprint = false): Uint8Array => {
+  const width = columnsFor((business.template || DEFAULT_RECEIPT_TEMPLATE).paperWidth);
+  const bytes: number[] = [ESC, 0x40];
+  const push = (text: string) => { for (const ch of toAscii(text)) bytes.push(ch.charCodeAt(0)); bytes.push(LF); };
+
+  layoutReceipt(order, business, reprint).forEach(row => {
+    const bold = row.kind !== 'rule' && !!row.bold;
+    const tall = row.kind === 'text' && !!row.tall;
+    // Alignment is baked into the padded lines, so the printer stays left-aligned
+    bytes.push(ESC, 0x45, bold ? 1 : 0);
+    bytes.push(GS, 0x21, tall ? 0x01 : 0x00);
+    rowLines(row, width).forEach(push);
+  });
+
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0x00);
+  bytes.push(ESC, 0x64, 4); // feed past the cutter
+  bytes.push(GS, 0x56, 0x41, 0x03); // partial cut
+  return new Uint8Array(bytes);
+};
+
+export const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+export const renderHtml = (order: Order, business: ReceiptBusiness, reprint = false): string => {
+  const paper = (business.template || DEFAULT_RECEIPT_TEMPLATE).paperWidth;
+  const body = layoutReceipt(order, business, reprint).map(row => {
+    if (row.kind === 'rule') return '<hr/>';
+    const weight = row.bold ? ' style="font-weight:700"' : '';
+    if (row.kind === 'pair') return `<div class="pair"${weight}><span>${escapeHtml(row.left)}</span><span>${escapeHtml(row.right)}</span></div>`;
+    return `<div class="${row.align}${row.tall ? ' tall' : ''}"${weight}>${escapeHtml(row.text)}</div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"/><title>${escapeHtml(order.receiptNo || order.id)}</title><style>
+@page { size: ${paper}mm auto; margin: 0; }
+body { width: ${paper - 6}mm; margin: 0 auto; padding: 3mm 0; font: 11px/1.35 'Courier New', monospace; color: #000; }
+.center { text-align: center; } .right { text-align: right; } .tall { font-size: 15px; }
+.pair { display: flex; justify-content: space-between; gap: 8px; }
+hr { border: 0; border-top: 1px dashed #000; margin: 4px 0; }
+</style></head><body>
+${body}
+</body></html>`;
+};
+
+export const printService = {
+  // Prints through the browser's own dialog using a throwaway iframe.
+  printHtml(html: string) {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+    const doc = frame.contentWindow?.document;
+    if (!doc || !frame.contentWindow) {
+      document.body.removeChild(frame);
+      throw new Error("The print view couldn't be opened.");
+    }
+    doc.open();
+    doc.write(html);
+    doc.close();
+    frame.contentWindow.focus();
+    frame.contentWindow.print();
+    setTimeout(() => document.body.removeChild(frame), 1000);
+  },
+
+  // Sends raw ESC/POS bytes to a USB/serial thermal printer via Web Serial.
+  async printEscPos(bytes: Uint8Array) {
+    const serial = (navigator as any).serial;
+    if (!serial) throw new Error("This browser can't reach a receipt printer directly. Use Print instead.");
+    const granted = await serial.getPorts();
+    const port = granted[0] || await serial.requestPort();
+    await port.open({ baudRate: 9600 });
+    try {
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(bytes);
+      } finally {
+        // A port can't close while its stream is locked
+        writer.releaseLock();
+      }
+    } finally {
+      await port.close();
+    }
+  }
+};
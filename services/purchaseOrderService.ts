@@ -0,0 +1,180 @@
+import { Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, StockMovement, Supplier, SystemUser } from '../types';
+import { formatCurrency } from '../constants';
+import { dataService } from './dataService';
+import { newMovement } from './stockService';
+import { defaultLotNumber, expiryDay } from './lotService';
+import { toCsv } from './journalService';
+import { ReceiptBusiness, escapeHtml } from './printService';
+import { stockKey } from './variantService';
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  PARTIALLY_RECEIVED: 'Partially Received',
+  RECEIVED: 'Received',
+  CANCELLED: 'Cancelled'
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const outstandingQty = (line: PurchaseOrderLine) => Math.max(0, line.quantityOrdered - line.quantityReceived);
+
+export const poTotal = (po: PurchaseOrder) => round2(po.lines.reduce((s, l) => s + l.quantityOrdered * l.unitCost, 0));
+
+// Sent orders still waiting on some or all of their goods.
+export const isOutstanding = (po: PurchaseOrder) => po.status === 'SENT' || po.status === 'PARTIALLY_RECEIVED';
+
+export const outstandingValue = (po: PurchaseOrder) =>
+  round2(po.lines.reduce((s, l) => s + outstandingQty(l) * l.unitCost, 0));
+
+// PO-YYYYMMDD-NN, counting the orders already raised that day.
+export const nextPoNumber = (existing: PurchaseOrder[], now = new Date()) => {
+  const day = now.toISOString().slice(0, 10).replace(/-/g, '');
+  const prefix = `PO-${day}-`;
+  const taken = existing.filter(p => p.poNumber.startsWith(prefix)).length;
+  return `${prefix}${String(taken + 1).padStart(2, '0')}`;
+};
+
+export const newPurchaseOrder = (supplierId: string, existing: PurchaseOrder[]): PurchaseOrder => ({
+  id: `PO-${Date.now()}`,
+  poNumber: nextPoNumber(existing),
+  supplierId,
+  status: 'DRAFT',
+  lines: [],
+  receipts: [],
+  createdAt: new Date().toISOString()
+});
+
+export const lineFor = (product: Product, variantId?: string, quantity = 1): PurchaseOrderLine => {
+  const variant = product.variants?.find(v => v.id === variantId);
+  return {
+    productId: product.id,
+    variantId: variant?.id,
+    name: variant ? `${product.name} (${variant.name})` : product.name,
+    sku: variant?.sku || product.sku,
+    quantityOrdered: quantity,
+    quantityReceived: 0,
+    unitCost: 0
+  };
+};
+
+export const lineKey = (line: { productId: string; variantId?: string }) => stockKey(line.productId, line.variantId);
+
+// Returns a message when a draft isn't ready to be sent, otherwise null.
+export const validatePurchaseOrder = (po: PurchaseOrder): string | null => {
+  if (!po.supplierId) return 'Choose a supplier for this order.';
+  if (po.lines.length === 0) return 'Add at least one item to the order.';
+  if (po.lines.some(l => l.quantityOrdered <= 0)) return 'Every item needs a quantity above zero.';
+  if (po.lines.some(l => l.unitCost < 0)) return 'Unit costs cannot be negative.';
+  if (new Set(po.lines.map(lineKey)).size !== po.lines.length) return 'The same item is listed twice.';
+  return null;
+};
+
+export interface ReceiveEntry {
+  quantity: number;
+  unitCost: number;
+  lotNumber?: string;
+  expiresAt?: string;
+}
+
+// Books a delivery against the order. Returns the updated order and the
+// RECEIPT movements that put the goods into stock, one lot per line.
+export const receiveGoods = (
+  po: PurchaseOrder,
+  entries: Record<string, ReceiveEntry>,
+  user?: SystemUser | null,
+  products: Product[] = []
+): { po: PurchaseOrder; movements: StockMovement[] } => {
+  const received = po.lines
+    .map(l => ({ line: l, entry: entries[lineKey(l)] }))
+    .filter(r => r.entry && r.entry.quantity > 0);
+  if (received.length === 0) throw new Error('Enter the quantity received for at least one item.');
+  const over = received.find(r => r.entry.quantity > outstandingQty(r.line));
+  if (over) throw new Error(`${over.line.name} is over the ordered quantity. Only ${outstandingQty(over.line)} left to receive.`);
+  const undated = received.find(r => !r.entry.expiresAt && products.find(p => p.id === r.line.productId)?.tracksExpiry);
+  if (undated) throw new Error(`${undated.line.name} tracks expiry. Enter the expiry date printed on this delivery.`);
+  const lotOf = (e: ReceiveEntry) => e.expiresAt
+    ? { lotNumber: e.lotNumber?.trim() || defaultLotNumber(e.expiresAt), expiresAt: expiryDay(e.expiresAt) }
+    : e.lotNumber?.trim() ? { lotNumber: e.lotNumber.trim() } : {};
+
+  const receivedAt = new Date().toISOString();
+  const lines = po.lines.map(l => {
+    const entry = entries[lineKey(l)];
+    return entry && entry.quantity > 0 ? { ...l, quantityReceived: l.quantityReceived + entry.quantity, unitCost: entry.unitCost } : l;
+  });
+  const complete = lines.every(l => outstandingQty(l) === 0);
+  const updated: PurchaseOrder = {
+    ...po,
+    lines,
+    status: complete ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+    closedAt: complete ? receivedAt : po.closedAt,
+    receipts: [...(po.receipts || []), {
+      id: `GRN-${Date.now()}`,
+      receivedAt,
+      userName: user?.name,
+      lines: received.map(r => ({ productId: r.line.productId, variantId: r.line.variantId, quantity: r.entry.quantity, unitCost: r.entry.unitCost, ...lotOf(r.entry) }))
+    }]
+  };
+  const movements = received.map(r => newMovement(
+    r.line.productId, 'RECEIPT', r.entry.quantity, `Received on ${po.poNumber}`, user,
+    { variantId: r.line.variantId, reference: po.poNumber, unitCost: r.entry.unitCost, ...lotOf(r.entry) }
+  ));
+  return { po: updated, movements };
+};
+
+export const PO_CSV_HEADERS = ['PO Number', 'Supplier', 'Status', 'SKU', 'Item', 'Ordered', 'Received', 'Outstanding', 'Unit Cost', 'Line Total'];
+
+export const purchaseOrderToCsv = (po: PurchaseOrder, supplier?: Supplier) =>
+  toCsv(PO_CSV_HEADERS, po.lines.map(l => [
+    po.poNumber,
+    supplier?.name || '',
+    PO_STATUS_LABELS[po.status],
+    l.sku,
+    l.name,
+    l.quantityOrdered,
+    l.quantityReceived,
+    outstandingQty(l),
+    l.unitCost.toFixed(2),
+    (l.quantityOrdered * l.unitCost).toFixed(2)
+  ]));
+
+// A4 purchase order for printing or saving as PDF from the print dialog.
+export const renderPurchaseOrderHtml = (po: PurchaseOrder, supplier: Supplier | undefined, business: ReceiptBusiness): string => {
+  const rows = po.lines.map(l => `<tr><td>${escapeHtml(l.sku)}</td><td>${escapeHtml(l.name)}</td><td class="num">${l.quantityOrdered}</td><td class="num">${formatCurrency(l.unitCost)}</td><td class="num">${formatCurrency(l.quantityOrdered * l.unitCost)}</td></tr>`).join('\n');
+  const supplierBlock = supplier
+    ? [supplier.name, supplier.contactPerson, supplier.address, supplier.phone, supplier.email].filter(Boolean).map(escapeHtml).join('<br/>')
+    : 'Unknown supplier';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"/><title>${escapeHtml(po.poNumber)}</title><style>
+@page { size: A4; margin: 15mm; }
+body { font: 12px/1.45 Helvetica, Arial, sans-serif; color: #0f172a; }
+h1 { font-size: 20px; margin: 0 0 4px; } .muted { color: #64748b; }
+.head { display: flex; justify-content: space-between; margin-bottom: 24px; }
+table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 4px; text-align: left; }
+th { font-size: 10px; text-transform: uppercase; color: #64748b; } .num { text-align: right; }
+tfoot td { font-weight: 700; border-bottom: 0; }
+</style></head><body>
+<div class="head"><div><h1>${escapeHtml(business.name)}</h1><div class="muted">${escapeHtml(business.address)}${business.tin ? `<br/>TIN ${escapeHtml(business.tin)}` : ''}</div></div>
+<div style="text-align:right"><h1>PURCHASE ORDER</h1><div>${escapeHtml(po.poNumber)}</div><div class="muted">${new Date(po.createdAt).toLocaleDateString()}${po.expectedAt ? `<br/>Expected ${new Date(po.expectedAt).toLocaleDateString()}` : ''}</div></div></div>
+<div><strong>Supplier</strong><br/>${supplierBlock}</div>
+<table><thead><tr><th>SKU</th><th>Item</th><th class="num">Qty</th><th class="num">Unit Cost</th><th class="num">Amount</th></tr></thead>
+<tbody>${rows}</tbody>
+<tfoot><tr><td colspan="4" class="num">Total</td><td class="num">${formatCurrency(poTotal(po))}</td></tr></tfoot></table>
+${po.notes ? `<p><strong>Notes</strong><br/>${escapeHtml(po.notes)}</p>` : ''}
+</body></html>`;
+};
+
+export const purchaseOrderService = {
+  async fetch(businessId: string): Promise<PurchaseOrder[]> {
+    const orders = await dataService.fetch<PurchaseOrder>('purchase_orders', 'purchase_orders', businessId);
+    return orders
+      .map(po => ({ ...po, lines: po.lines || [], receipts: po.receipts || [] }))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
+
+  async save(po: PurchaseOrder, businessId: string): Promise<PurchaseOrder> {
+    const tagged = { ...po, businessId };
+    await dataService.upsert('purchase_orders', 'purchase_orders', tagged, businessId);
+    return tagged;
+  }
+};
@@ -0,0 +1,186 @@
+import { Order, ReceiptDocType, ReceiptSeries } from '../types';
+import { RECEIPT_BLOCK_REFILL_AT, RECEIPT_BLOCK_SIZE } from '../constants';
+import { dataService } from './dataService';
+import { dbService } from './dbService';
+import { isSale } from './orderService';
+import { queueId, syncQueue } from './syncQueue';
+
+const TERMINAL_KEY = 'automate_v3_terminal';
+const SERIES_PREFIX = 'automate_v3_series_';
+const DEVICE_STORE = 'device';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// The server names each device once (register_terminal), so no two terminals
+// share a code. The code and the random key it was issued against are kept in
+// both localStorage and IndexedDB, so clearing one still leaves the other.
+// Series a device numbered under the id it used to pick for itself are closed;
+// its server-assigned code starts new ones.
+interface TerminalIdentity {
+  id: 'terminal';
+  deviceKey: string;
+  code?: string;
+}
+
+const readIdentity = (): TerminalIdentity | null => {
+  try {
+    const raw = localStorage.getItem(TERMINAL_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) { /* fall through */ }
+  return null;
+};
+
+const saveIdentity = async (identity: TerminalIdentity) => {
+  localStorage.setItem(TERMINAL_KEY, JSON.stringify(identity));
+  await dbService.saveItems(DEVICE_STORE, [identity]);
+};
+
+// Undefined until this device has been registered with the cloud
+export const getTerminalId = (): string | undefined => readIdentity()?.code;
+
+const seriesId = (businessId: string, terminalId: string, docType: ReceiptDocType) =>
+  `${businessId}:${terminalId}:${docType}`;
+
+export const formatReceiptNo = (docType: ReceiptDocType, terminalId: string, n: number) =>
+  `${docType}-${terminalId}-${String(n).padStart(8, '0')}`;
+
+const readLocal = (businessId: string, terminalId: string, docType: ReceiptDocType): ReceiptSeries => {
+  const id = seriesId(businessId, terminalId, docType);
+  try {
+    const raw = localStorage.getItem(SERIES_PREFIX + id);
+    if (raw) return JSON.parse(raw);
+  } catch (e) { /* fall through to a fresh series */ }
+  return { id, businessId, terminalId, docType, lastIssued: 0, grandTotal: 0, blocks: [], updatedAt: new Date().toISOString() };
+};
+
+const writeLocal = (series: ReceiptSeries) =>
+  localStorage.setItem(SERIES_PREFIX + series.id, JSON.stringify(series));
+
+// The next number inside a reserved block, or undefined when none is left
+export const nextNumber = (series: ReceiptSeries): number | undefined => {
+  const block = (series.blocks || []).find(b => b.end > series.lastIssued);
+  return block ? Math.max(series.lastIssued + 1, block.start) : undefined;
+};
+
+export const numbersLeft = (series: ReceiptSeries) =>
+  (series.blocks || []).reduce((n, b) => n + Math.max(0, b.end - Math.max(series.lastIssued, b.start - 1)), 0);
+
+const DOC_TYPES: ReceiptDocType[] = ['SI', 'RT'];
+const refilling = new Map<string, Promise<void>>();
+
+export const receiptService = {
+  // Makes sure this device has a server-assigned terminal code, asking the
+  // browser to keep its storage through cleanups. Needs a connection the
+  // first time; afterwards the saved code is used.
+  async register(): Promise<string | undefined> {
+    let identity = readIdentity() || await dbService.getById<TerminalIdentity>(DEVICE_STORE, 'terminal') || null;
+    if (!identity) identity = { id: 'terminal', deviceKey: crypto.randomUUID() };
+    navigator.storage?.persist?.().catch(() => undefined);
+    if (!identity.code && navigator.onLine) {
+      identity = { ...identity, code: await dataService.rpc<string>('register_terminal', { p_device_key: identity.deviceKey }) };
+    }
+    await saveIdentity(identity);
+    return identity.code;
+  },
+
+  // Unbinds the code of a terminal whose device was wiped or lost. Returns the
+  // one-time secret the replacement device claims the code with.
+  async release(code: string): Promise<string> {
+    const identity = readIdentity();
+    if (!identity?.code) throw new Error("This terminal isn't registered yet, so it can't release another one.");
+    return dataService.rpc<string>('release_terminal', { p_code: code.trim().toUpperCase(), p_device_key: identity.deviceKey });
+  },
+
+  // Takes over a released code with the secret release() returned. The old
+  // device can't reserve any more numbers, and this one continues after
+  // every block the code ever reserved.
+  async claim(code: string, secret: string, businessId: string): Promise<void> {
+    const terminalId = code.trim().toUpperCase();
+    const identity: TerminalIdentity = readIdentity() || { id: 'terminal', deviceKey: crypto.randomUUID() };
+    await dataService.rpc('claim_terminal', { p_code: terminalId, p_device_key: identity.deviceKey, p_proof: secret.trim().toUpperCase() });
+    await saveIdentity({ ...identity, code: terminalId });
+    DOC_TYPES.forEach(d => writeLocal({ ...readLocal(businessId, terminalId, d), blocks: [] }));
+    await receiptService.restore(businessId);
+  },
+
+  // Reserves another block from the server once fewer than
+  // RECEIPT_BLOCK_REFILL_AT numbers are left. One request per series at a time.
+  async refill(businessId: string, docType: ReceiptDocType): Promise<void> {
+    const terminalId = getTerminalId();
+    const identity = readIdentity();
+    if (!terminalId || !identity || !navigator.onLine) return;
+    const key = seriesId(businessId, terminalId, docType);
+    if (numbersLeft(readLocal(businessId, terminalId, docType)) >= RECEIPT_BLOCK_REFILL_AT) return;
+    if (!refilling.has(key)) {
+      refilling.set(key, (async () => {
+        const [block] = await dataService.rpc<{ first_no: number; last_no: number }[]>('reserve_receipt_block', {
+          p_device_key: identity.deviceKey,
+          p_business_id: businessId,
+          p_doc_type: docType,
+          p_size: RECEIPT_BLOCK_SIZE,
+          p_floor: readLocal(businessId, terminalId, docType).lastIssued
+        });
+        // Read again: sales may have been rung up while the request was out
+        const current = readLocal(businessId, terminalId, docType);
+        writeLocal({ ...current, blocks: [...(current.blocks || []).filter(b => b.end > current.lastIssued), { start: block.first_no, end: block.last_no }] });
+      })().finally(() => refilling.delete(key)));
+    }
+    return refilling.get(key);
+  },
+
+  // Numbers are taken synchronously from the reserved blocks in localStorage
+  // so that no await can interleave two sales; the cloud copy of the series
+  // is a backup of the counter and the grand total.
+  issue(order: Order, businessId: string): Order {
+    const terminalId = getTerminalId();
+    if (!terminalId) throw new Error("This terminal isn't set up for receipts yet. Connect to the internet once so it can be registered.");
+    const docType: ReceiptDocType = isSale(order) ? 'SI' : 'RT';
+    const current = readLocal(businessId, terminalId, docType);
+    const n = nextNumber(current);
+    if (n === undefined) throw new Error('This terminal has used up its reserved receipt numbers. Connect to the internet to reserve more.');
+    const next: ReceiptSeries = {
+      ...current,
+      lastIssued: n,
+      grandTotal: round2(current.grandTotal + Math.abs(order.total)),
+      blocks: (current.blocks || []).filter(b => b.end > n),
+      updatedAt: new Date().toISOString()
+    };
+    writeLocal(next);
+    dataService.upsert('receipt_series', 'receipt_series', next, businessId).catch(e => {
+      console.error('[Receipts] Saving the series failed; queued for sync.', e);
+      syncQueue.enqueue([{ id: queueId(), table: 'receipt_series', action: 'UPSERT', data: next, timestamp: Date.now() }])
+        .catch(err => console.error('[Receipts] Queueing the series failed', err));
+    });
+    receiptService.refill(businessId, docType).catch(e => console.warn('[Receipts] Reserving more numbers failed', e));
+    return { ...order, terminalId, receiptNo: formatReceiptNo(docType, terminalId, n) };
+  },
+
+  // The saved counters of every terminal of the business, with this
+  // terminal's taken from the device when it is ahead of the cloud copy.
+  async series(businessId: string): Promise<ReceiptSeries[]> {
+    const saved = await dataService.fetch<ReceiptSeries>('receipt_series', 'receipt_series', businessId);
+    const terminalId = getTerminalId();
+    if (!terminalId) return saved;
+    const local = DOC_TYPES.map(d => readLocal(businessId, terminalId, d));
+    return [
+      ...saved.filter(s => !local.some(l => l.id === s.id && l.lastIssued >= s.lastIssued)),
+      ...local.filter(l => !saved.some(s => s.id === l.id && s.lastIssued > l.lastIssued))
+    ];
+  },
+
+  // Registers the device if needed, lifts the local counters back to what
+  // this terminal had already issued according to the saved series (after a
+  // cache wipe or a claim), and reserves numbers to sell with offline.
+  async restore(businessId: string): Promise<void> {
+    const terminalId = getTerminalId() || await receiptService.register();
+    if (!terminalId) return;
+    const saved = await dataService.fetch<ReceiptSeries>('receipt_series', 'receipt_series', businessId);
+    saved.filter(s => s.terminalId === terminalId).forEach(s => {
+      const local = readLocal(businessId, terminalId, s.docType);
+      if (s.lastIssued > local.lastIssued) {
+        writeLocal({ ...local, lastIssued: s.lastIssued, grandTotal: Math.max(local.grandTotal, s.grandTotal) });
+      }
+    });
+    await Promise.all(DOC_TYPES.map(d => receiptService.refill(businessId, d)));
+  }
+};
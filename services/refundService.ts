@@ -0,0 +1,108 @@
+import { Order, OrderLine, OrderStatus, PaymentMethod, SystemUser, UserRole } from '../types';
+import { isSale, summarizeLines } from './orderService';
+import { summarizeTax } from './taxService';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const APPROVER_ROLES = [UserRole.SUPERUSER, UserRole.ADMIN_PRO, UserRole.ADMIN];
+
+export const canApproveRefunds = (user?: SystemUser | null) => !!user && APPROVER_ROLES.includes(user.role);
+
+export const findOrderByReceipt = (orders: Order[], receipt: string): Order | undefined => {
+  const q = receipt.trim().toLowerCase();
+  if (!q) return undefined;
+  return orders.find(o => isSale(o) && (o.id.toLowerCase() === q || o.receiptNo?.toLowerCase() === q));
+};
+
+// Quantity still returnable per original line, after any earlier refunds.
+export const refundableQuantities = (original: Order, orders: Order[]): Record<string, number> => {
+  const remaining: Record<string, number> = {};
+  original.lines.forEach(l => { remaining[l.id] = l.quantity; });
+  orders
+    .filter(o => o.refundOf === original.id)
+    .forEach(o => o.lines.forEach(l => {
+      if (l.refundOfLineId && remaining[l.refundOfLineId] !== undefined) {
+        remaining[l.refundOfLineId] -= Math.abs(l.quantity);
+      }
+    }));
+  return remaining;
+};
+
+export interface RefundRequest {
+  kind: 'Refund' | 'Void';
+  quantities: Record<string, number>;
+  reason: string;
+  method: PaymentMethod;
+  approver: SystemUser;
+  operator?: SystemUser;
+  shiftId?: string;
+}
+
+// Builds the negative order for a refund or void and the status the original
+// sale should move to. Throws with a cashier-facing message when invalid.
+export const buildRefund = (original: Order, orders: Order[], req: RefundRequest): { refund: Order; originalStatus: OrderStatus } => {
+  if (!isSale(original)) throw new Error('Only sales can be refunded.');
+  if (original.status === 'Refunded' || original.status === 'Voided') throw new Error('This sale has already been fully reversed.');
+  if (!req.reason.trim()) throw new Error('Please give a reason for the return.');
+  if (!canApproveRefunds(req.approver)) throw new Error('A manager must approve this return.');
+
+  const remaining = refundableQuantities(original, orders);
+  if (req.kind === 'Void' && !original.lines.every(l => remaining[l.id] === l.quantity)) {
+    throw new Error('A sale with earlier returns cannot be voided. Refund the rest instead.');
+  }
+  // A void always reverses the whole sale
+  const quantities: Record<string, number> = req.kind === 'Void'
+    ? Object.fromEntries(original.lines.map(l => [l.id, l.quantity]))
+    : req.quantities;
+
+  const refundId = `${req.kind === 'Void' ? 'VOID' : 'RFND'}-${Date.now()}`;
+  const lines: OrderLine[] = [];
+  original.lines.forEach(l => {
+    const qty = quantities[l.id] || 0;
+    if (qty <= 0) return;
+    if (qty > remaining[l.id]) throw new Error(`Only ${remaining[l.id]} of ${l.productName} can still be returned.`);
+    const ratio = qty / l.quantity;
+    lines.push({
+      ...l,
+      id: `${refundId}-L${lines.length + 1}`,
+      orderId: refundId,
+      quantity: -qty,
+      discount: -round2(l.discount * ratio),
+      tax: -round2(l.tax * ratio),
+      lineTotal: -round2(l.lineTotal * ratio),
+      vatableSales: -round2((l.vatableSales || 0) * ratio),
+      exemptSales: -round2((l.exemptSales || 0) * ratio),
+      zeroRatedSales: -round2((l.zeroRatedSales || 0) * ratio),
+      vatExemption: -round2((l.vatExemption || 0) * ratio),
+      refundOfLineId: l.id
+    });
+  });
+  if (lines.length === 0) throw new Error('Choose at least one item to return.');
+
+  const totals = summarizeLines(lines);
+  const refund: Order = {
+    id: refundId,
+    businessId: original.businessId,
+    date: new Date().toISOString(),
+    location: original.location,
+    operatorId: req.operator?.id,
+    operatorName: req.operator?.name,
+    shiftId: req.shiftId,
+    customerName: original.customerName,
+    statutoryDiscount: original.statutoryDiscount,
+    kind: req.kind,
+    status: 'Completed',
+    refundOf: original.id,
+    refundReason: req.reason.trim(),
+    approvedById: req.approver.id,
+    approvedByName: req.approver.name,
+    ...totals,
+    taxBreakdown: summarizeTax(lines),
+    payments: [{ method: req.method, amount: totals.total }],
+    lines
+  };
+
+  const fullyReturned = original.lines.every(l => remaining[l.id] - (quantities[l.id] || 0) <= 0);
+  const originalStatus: OrderStatus = req.kind === 'Void' ? 'Voided' : fullyReturned ? 'Refunded' : 'Partially Refunded';
+  return { refund, originalStatus };
+};
@@ -0,0 +1,87 @@
+import { Product, ProductVariant, PurchaseOrder } from '../types';
+import { DEFAULT_REORDER_POINT } from '../constants';
+import { isOutstanding, lineFor, lineKey, newPurchaseOrder, outstandingQty } from './purchaseOrderService';
+import { stockKey } from './variantService';
+import { isBundle } from './bundleService';
+
+export const reorderPointOf = (p: Product) => p.reorderPoint ?? DEFAULT_REORDER_POINT;
+
+export const isLowOn = (p: Product, onHand: number) => onHand <= reorderPointOf(p);
+
+// Variant items are low when any one of their variants is.
+export const isLowStock = (p: Product) =>
+  p.variants?.length ? p.variants.some(v => isLowOn(p, v.stock)) : isLowOn(p, p.stock);
+
+export interface StockAlert {
+  key: string;
+  product: Product;
+  variant?: ProductVariant;
+  onHand: number;
+  onOrder: number;
+  reorderPoint: number;
+  suggestedQty: number;
+}
+
+// Units already on sent purchase orders, keyed like variantService.stockKey.
+export const onOrderQuantities = (purchaseOrders: PurchaseOrder[]): Record<string, number> => {
+  const onOrder: Record<string, number> = {};
+  purchaseOrders.filter(isOutstanding).forEach(po => po.lines.forEach(l => {
+    onOrder[lineKey(l)] = (onOrder[lineKey(l)] || 0) + outstandingQty(l);
+  }));
+  return onOrder;
+};
+
+// Everything at or below its reorder point. Stock already on order counts
+// toward the suggestion, so an item that is covered suggests nothing.
+export const lowStockAlerts = (products: Product[], purchaseOrders: PurchaseOrder[]): StockAlert[] => {
+  const onOrder = onOrderQuantities(purchaseOrders);
+  const alerts: StockAlert[] = [];
+  // Bundles are never bought in; their components raise their own alerts
+  products.filter(p => !isBundle(p)).forEach(product => {
+    const point = reorderPointOf(product);
+    const entries = product.variants?.length
+      ? product.variants.map(v => ({ variant: v as ProductVariant | undefined, onHand: v.stock }))
+      : [{ variant: undefined, onHand: product.stock }];
+    entries.filter(e => e.onHand <= point).forEach(({ variant, onHand }) => {
+      const key = stockKey(product.id, variant?.id);
+      const incoming = onOrder[key] || 0;
+      const target = product.reorderQuantity || Math.max(point * 2 - onHand, 1);
+      alerts.push({
+        key,
+        product,
+        variant,
+        onHand,
+        onOrder: incoming,
+        reorderPoint: point,
+        suggestedQty: onHand + incoming > point ? 0 : Math.max(target - incoming, 0)
+      });
+    });
+  });
+  return alerts.sort((a, b) => a.onHand - b.onHand);
+};
+
+// One draft per preferred supplier covering its uncovered alerts, skipping
+// items already sitting on a draft. Items with no preferred supplier are
+// returned separately so the caller can say so.
+export const draftReorders = (alerts: StockAlert[], existing: PurchaseOrder[]) => {
+  const drafted = new Set(existing.filter(po => po.status === 'DRAFT').flatMap(po => po.lines.map(lineKey)));
+  const bySupplier = new Map<string, StockAlert[]>();
+  const unassigned: StockAlert[] = [];
+  alerts.filter(a => a.suggestedQty > 0 && !drafted.has(a.key)).forEach(a => {
+    const supplierId = a.product.preferredSupplierId;
+    if (!supplierId) { unassigned.push(a); return; }
+    bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), a]);
+  });
+
+  const drafts: PurchaseOrder[] = [];
+  bySupplier.forEach((items, supplierId) => {
+    const po = newPurchaseOrder(supplierId, [...existing, ...drafts]);
+    drafts.push({
+      ...po,
+      id: `${po.id}-${drafts.length + 1}`,
+      notes: 'Raised from low-stock alerts',
+      lines: items.map(a => ({ ...lineFor(a.product, a.variant?.id, a.suggestedQty), unitCost: a.product.costPrice || 0 }))
+    });
+  });
+  return { drafts, unassigned };
+};
@@ -0,0 +1,92 @@
+import { CashMovement, Order, PaymentMethod, Shift, ShiftMethodTotal, ShiftReading, SystemUser } from '../types';
+import { dataService } from './dataService';
+import { countsTowardSales, isSale } from './orderService';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const findOpenShift = (shifts: Shift[], userId?: string) =>
+  shifts.find(s => s.status === 'Open' && s.userId === userId);
+
+// X-readings are taken mid-shift and change nothing; the Z-reading is the same
+// computation frozen onto the shift at close, with the drawer count applied.
+export const computeReading = (
+  kind: 'X' | 'Z',
+  shift: Shift,
+  orders: Order[],
+  counted: Partial<Record<PaymentMethod, number>> = {}
+): ShiftReading => {
+  const shiftOrders = orders.filter(o => o.shiftId === shift.id && countsTowardSales(o));
+  const cashIn = round2(shift.movements.filter(m => m.type === 'IN').reduce((s, m) => s + m.amount, 0));
+  const cashOut = round2(shift.movements.filter(m => m.type === 'OUT').reduce((s, m) => s + m.amount, 0));
+
+  const totals = new Map<PaymentMethod, number>([['Cash', 0]]);
+  shiftOrders.forEach(o => o.payments.forEach(p => totals.set(p.method, (totals.get(p.method) || 0) + p.amount)));
+
+  const byMethod: ShiftMethodTotal[] = Array.from(totals.entries()).map(([method, sales]) => {
+    const expected = round2(method === 'Cash' ? shift.openingFloat + sales + cashIn - cashOut : sales);
+    const count = counted[method];
+    return count === undefined
+      ? { method, expected }
+      : { method, expected, counted: round2(count), variance: round2(count - expected) };
+  });
+
+  const sales = shiftOrders.filter(isSale).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return {
+    kind,
+    generatedAt: new Date().toISOString(),
+    orderCount: sales.length,
+    grossSales: round2(sales.reduce((s, o) => s + o.total, 0)),
+    refundTotal: round2(-shiftOrders.filter(o => !isSale(o)).reduce((s, o) => s + o.total, 0)),
+    beginningReceipt: sales[0]?.receiptNo,
+    endingReceipt: sales[sales.length - 1]?.receiptNo,
+    openingFloat: shift.openingFloat,
+    cashIn,
+    cashOut,
+    byMethod
+  };
+};
+
+export const shiftService = {
+  async fetch(businessId: string): Promise<Shift[]> {
+    const shifts = await dataService.fetch<Shift>('shifts', 'shifts', businessId);
+    return shifts
+      .map(s => ({ ...s, movements: s.movements || [] }))
+      .sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime());
+  },
+
+  async open(user: SystemUser, openingFloat: number, businessId: string): Promise<Shift> {
+    const shift: Shift = {
+      id: `SHIFT-${Date.now()}`,
+      businessId,
+      userId: user.id,
+      userName: user.name,
+      status: 'Open',
+      openedAt: new Date().toISOString(),
+      openingFloat: round2(openingFloat),
+      movements: []
+    };
+    await dataService.upsert('shifts', 'shifts', shift, businessId);
+    return shift;
+  },
+
+  async recordMovement(shift: Shift, movement: Omit<CashMovement, 'id' | 'timestamp'>): Promise<Shift> {
+    const updated: Shift = {
+      ...shift,
+      movements: [...shift.movements, { ...movement, amount: round2(movement.amount), id: `CM-${Date.now()}`, timestamp: new Date().toISOString() }]
+    };
+    await dataService.upsert('shifts', 'shifts', updated, shift.businessId);
+    return updated;
+  },
+
+  async close(shift: Shift, orders: Order[], counted: Partial<Record<PaymentMethod, number>>): Promise<Shift> {
+    const closed: Shift = {
+      ...shift,
+      status: 'Closed',
+      closedAt: new Date().toISOString(),
+      zReading: computeReading('Z', shift, orders, counted)
+    };
+    await dataService.upsert('shifts', 'shifts', closed, shift.businessId);
+    return closed;
+  }
+};
@@ -0,0 +1,170 @@
+import { Product, StockCount, StockCountLine, StockCountStatus, StockMovement, SystemUser } from '../types';
+import { dataService } from './dataService';
+import { newMovement } from './stockService';
+import { stockKey } from './variantService';
+import { isBundle } from './bundleService';
+
+export const COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  OPEN: 'Counting',
+  SUBMITTED: 'Awaiting Approval',
+  APPROVED: 'Approved',
+  CANCELLED: 'Cancelled'
+};
+
+export const countLineKey = (l: { productId: string; variantId?: string }) => stockKey(l.productId, l.variantId);
+
+// SC-YYYYMMDD-NN, numbered per day like purchase orders
+export const nextCountNumber = (existing: StockCount[], now = new Date()) => {
+  const prefix = `SC-${now.toISOString().slice(0, 10).replace(/-/g, '')}-`;
+  const taken = existing.filter(c => c.countNumber.startsWith(prefix)).length;
+  return `${prefix}${String(taken + 1).padStart(2, '0')}`;
+};
+
+const event = (action: string, user?: SystemUser | null) => ({ at: new Date().toISOString(), userName: user?.name, action });
+
+// Freezes the current on-hand of every item in scope as the expected figure.
+export const startCount = (
+  products: Product[],
+  existing: StockCount[],
+  user?: SystemUser | null,
+  category?: string
+): StockCount => {
+  const lines: StockCountLine[] = products
+    .filter(p => (!category || p.category === category) && !isBundle(p))
+    .flatMap(p => {
+      const base = { productId: p.id, category: p.category, unitCost: p.costPrice || 0 };
+      return p.variants?.length
+        ? p.variants.map(v => ({ ...base, variantId: v.id, name: `${p.name} (${v.name})`, sku: v.sku || p.sku, expected: v.stock }))
+        : [{ ...base, name: p.name, sku: p.sku, expected: p.stock }];
+    })
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  if (lines.length === 0) throw new Error(category ? `There are no items in ${category} to count.` : 'There are no items to count yet.');
+  return {
+    id: `SC-${Date.now()}`,
+    countNumber: nextCountNumber(existing),
+    category,
+    status: 'OPEN',
+    lines,
+    history: [event(category ? `Started counting ${category}` : 'Started a full count', user)],
+    createdAt: new Date().toISOString()
+  };
+};
+
+export const varianceOf = (l: StockCountLine) => l.counted === undefined ? undefined : l.counted - l.expected;
+
+export const countProgress = (count: StockCount) => ({
+  counted: count.lines.filter(l => l.counted !== undefined).length,
+  total: count.lines.length
+});
+
+// Records what the counter saw on the shelf. Expected figures are untouched.
+export const enterCounts = (count: StockCount, counts: Record<string, number | undefined>, user?: SystemUser | null): StockCount => {
+  if (count.status !== 'OPEN') throw new Error('This count has already been handed in.');
+  return {
+    ...count,
+    lines: count.lines.map(l => {
+      const key = countLineKey(l);
+      if (!(key in counts) || counts[key] === l.counted) return l;
+      const counted = counts[key];
+      if (counted !== undefined && (!Number.isInteger(counted) || counted < 0)) throw new Error(`Enter a whole number of units for ${l.name}.`);
+      return { ...l, counted, countedBy: counted === undefined ? undefined : user?.name };
+    })
+  };
+};
+
+export const submitCount = (count: StockCount, user?: SystemUser | null): StockCount => {
+  const { counted, total } = countProgress(count);
+  if (counted === 0) throw new Error('Count at least one item before handing the count in.');
+  return {
+    ...count,
+    status: 'SUBMITTED',
+    submittedAt: new Date().toISOString(),
+    history: [...count.history, event(`Handed in with ${counted} of ${total} items counted`, user)]
+  };
+};
+
+// Sends a count back to the counters, e.g. when a variance looks like a miscount.
+export const reopenCount = (count: StockCount, user?: SystemUser | null, reason = 'Sent back for recount'): StockCount => ({
+  ...count,
+  status: 'OPEN',
+  submittedAt: undefined,
+  history: [...count.history, event(reason, user)]
+});
+
+export const cancelCount = (count: StockCount, user?: SystemUser | null): StockCount => ({
+  ...count,
+  status: 'CANCELLED',
+  history: [...count.history, event('Cancelled', user)]
+});
+
+// Approves the count and returns one adjustment per counted line that differs.
+// Only the variance is posted, so sales made while counting are kept.
+export const approveCount = (count: StockCount, user?: SystemUser | null): { count: StockCount; movements: StockMovement[] } => {
+  if (count.status !== 'SUBMITTED') throw new Error('Only counts that have been handed in can be approved.');
+  const movements = count.lines
+    .filter(l => (varianceOf(l) || 0) !== 0)
+    .map(l => newMovement(l.productId, 'ADJUSTMENT', varianceOf(l)!, `Stock count ${count.countNumber}`, user, {
+      variantId: l.variantId,
+      reference: count.countNumber,
+      unitCost: l.unitCost
+    }));
+  const approvedAt = new Date().toISOString();
+  return {
+    count: {
+      ...count,
+      status: 'APPROVED',
+      approvedAt,
+      approvedBy: user?.name,
+      history: [...count.history, event(`Approved; ${movements.length} adjustment(s) posted`, user)]
+    },
+    movements
+  };
+};
+
+export interface ShrinkageRow {
+  key: string;
+  name: string;
+  sku: string;
+  category: string;
+  shortUnits: number;
+  overUnits: number;
+  netValue: number;
+}
+
+// Net loss found by approved counts within the period, at the cost frozen on
+// each count line. Positive netValue is shrinkage, negative is found stock.
+export const shrinkageReport = (counts: StockCount[], from?: Date, to?: Date) => {
+  const rows = new Map<string, ShrinkageRow>();
+  counts
+    .filter(c => c.status === 'APPROVED' && c.approvedAt)
+    .filter(c => (!from || new Date(c.approvedAt!) >= from) && (!to || new Date(c.approvedAt!) <= to))
+    .forEach(c => c.lines.forEach(l => {
+      const variance = varianceOf(l) || 0;
+      if (variance === 0) return;
+      const key = countLineKey(l);
+      const r = rows.get(key) || { key, name: l.name, sku: l.sku, category: l.category, shortUnits: 0, overUnits: 0, netValue: 0 };
+      if (variance < 0) r.shortUnits += -variance;
+      else r.overUnits += variance;
+      r.netValue += -variance * l.unitCost;
+      rows.set(key, r);
+    }));
+  const list = [...rows.values()]
+    .map(r => ({ ...r, netValue: Math.round(r.netValue * 100) / 100 }))
+    .sort((a, b) => b.netValue - a.netValue);
+  return { rows: list, total: Math.round(list.reduce((s, r) => s + r.netValue, 0) * 100) / 100 };
+};
+
+export const stockCountService = {
+  async fetch(businessId: string): Promise<StockCount[]> {
+    const counts = await dataService.fetch<StockCount>('stock_counts', 'stock_counts', businessId);
+    return counts
+      .map(c => ({ ...c, lines: c.lines || [], history: c.history || [] }))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
+
+  async save(count: StockCount, businessId: string): Promise<StockCount> {
+    const tagged = { ...count, businessId };
+    await dataService.upsert('stock_counts', 'stock_counts', tagged, businessId);
+    return tagged;
+  }
+};
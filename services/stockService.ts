@@ -0,0 +1,128 @@
+import { Order, Product, StockMovement, StockMovementType, SystemUser } from '../types';
+import { dataService } from './dataService';
+import { isSale } from './orderService';
+import { stockKey, variantStockTotal } from './variantService';
+import { isBundle } from './bundleService';
+
+// Manual entries are typed as plain counts; receipts always add stock,
+// wastage always removes it and adjustments keep the sign they were given.
+export const signedQuantity = (type: StockMovementType, quantity: number) => {
+  if (type === 'RECEIPT') return Math.abs(quantity);
+  if (type === 'WASTAGE') return -Math.abs(quantity);
+  return quantity;
+};
+
+const movementId = () => `MOV-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const newMovement = (
+  productId: string,
+  type: StockMovementType,
+  quantity: number,
+  reason: string,
+  user?: SystemUser | null,
+  extra: Partial<StockMovement> = {}
+): StockMovement => ({
+  id: movementId(),
+  productId,
+  type,
+  quantity,
+  reason,
+  userId: user?.id,
+  userName: user?.name,
+  createdAt: new Date().toISOString(),
+  ...extra
+});
+
+// Sum of movements per stockKey, i.e. per product or per product variant.
+export const onHandFrom = (movements: StockMovement[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  movements.forEach(m => {
+    const key = stockKey(m.productId, m.variantId);
+    totals.set(key, (totals.get(key) || 0) + m.quantity);
+  });
+  return totals;
+};
+
+// Replaces the cached stock on each product with what the ledger says. Items
+// the ledger has never seen keep their stored figure until they are opened.
+export const withLedgerStock = (products: Product[], movements: StockMovement[]): Product[] => {
+  const totals = onHandFrom(movements);
+  const seen = new Set(movements.map(m => m.productId));
+  return products.map(p => {
+    if (!seen.has(p.id)) return p;
+    if (p.variants?.length) {
+      const variants = p.variants.map(v => ({ ...v, stock: totals.get(stockKey(p.id, v.id)) ?? v.stock }));
+      return { ...p, variants, stock: variantStockTotal(variants) };
+    }
+    return { ...p, stock: totals.get(p.id) || 0 };
+  });
+};
+
+// Bundle lines move their components, never the bundle itself.
+// Entry ids are derived from the order id, so saving the same order twice
+// writes the same entries rather than taking stock out again.
+export const movementsForOrder = (order: Order, user?: SystemUser | null): StockMovement[] => {
+  const type: StockMovementType = isSale(order) ? 'SALE' : 'REFUND';
+  const reason = isSale(order) ? 'Sold' : (order.refundReason || order.kind || 'Returned');
+  const extra = { reference: order.receiptNo || order.id, businessId: order.businessId };
+  return order.lines
+    .filter(l => l.productId && l.quantity !== 0)
+    .flatMap(l => l.components?.length
+      ? l.components.map(c => newMovement(c.productId, type, -l.quantity * c.quantity, `${reason} in ${l.productName}`, user, { ...extra, variantId: c.variantId, unitCost: c.unitCost }))
+      : [newMovement(l.productId!, type, -l.quantity, reason, user, { ...extra, variantId: l.variantId, unitCost: l.unitCost })]
+    )
+    .map((m, i) => ({ ...m, id: `${order.id}-M${i + 1}` }));
+};
+
+// Ledger entries for a product edited by hand in Inventory: an opening balance
+// for anything new, an adjustment for any changed count.
+export const movementsForEdit = (before: Product | undefined, after: Product, user?: SystemUser | null): StockMovement[] => {
+  const out: StockMovement[] = [];
+  if (isBundle(after)) return out;
+  const diff = (current: number | undefined, next: number, variantId?: string) => {
+    if (current === undefined) {
+      if (next !== 0) out.push(newMovement(after.id, 'OPENING', next, 'Opening stock', user, { variantId, unitCost: after.costPrice }));
+    } else if (next !== current) {
+      out.push(newMovement(after.id, 'ADJUSTMENT', next - current, 'Edited in Inventory', user, { variantId }));
+    }
+  };
+  if (after.variants?.length) {
+    after.variants.forEach(v => diff(before?.variants?.find(b => b.id === v.id)?.stock, v.stock, v.id));
+  } else {
+    diff(before && !before.variants?.length ? before.stock : undefined, after.stock);
+  }
+  return out;
+};
+
+export const stockService = {
+  async fetch(businessId: string): Promise<StockMovement[]> {
+    const movements = await dataService.fetch<StockMovement>('stock_movements', 'stock_movements', businessId);
+    return movements.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  },
+
+  // Movements are only ever inserted; ids are unique so replays are harmless.
+  async record(movements: StockMovement[], businessId: string): Promise<StockMovement[]> {
+    const tagged = movements.map(m => ({ ...m, businessId }));
+    await dataService.upsertMany('stock_movements', 'stock_movements', tagged);
+    return tagged;
+  },
+
+  // Items stocked before the ledger existed get one opening entry carrying
+  // their stored count. The id is fixed per item so two devices agree on it.
+  async openMissingBalances(businessId: string, products: Product[], movements: StockMovement[]): Promise<StockMovement[]> {
+    const seen = new Set(movements.map(m => m.productId));
+    const openings: StockMovement[] = [];
+    products.filter(p => !seen.has(p.id) && !isBundle(p)).forEach(p => {
+      const entries = p.variants?.length
+        ? p.variants.map(v => ({ variantId: v.id as string | undefined, qty: v.stock }))
+        : [{ variantId: undefined, qty: p.stock }];
+      entries.filter(e => e.qty !== 0).forEach(e => openings.push({
+        ...newMovement(p.id, 'OPENING', e.qty, 'Opening stock', null, { unitCost: p.costPrice }),
+        id: `OPEN-${stockKey(p.id, e.variantId)}`,
+        variantId: e.variantId
+      }));
+    });
+    if (openings.length === 0) return [];
+    return stockService.record(openings, businessId);
+  }
+};
@@ -0,0 +1,119 @@
+import { dbService } from './dbService';
+import { SYNC_MAX_ATTEMPTS, SYNC_RETRY_BASE_MS, SYNC_RETRY_MAX_MS } from '../constants';
+
+export interface OfflineAction {
+  id: string;
+  table: string;
+  action: 'UPSERT' | 'DELETE';
+  data: any;
+  timestamp: number;
+  // The cloud version this edit was made against (unset for rows never
+  // synced) and this device's copy before the edit
+  baseVersion?: number;
+  base?: any;
+  // Failed replays so far, when the next one is due and why the last failed
+  attempts?: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+}
+
+// A write that kept failing and was taken out of the queue so it stops
+// holding up the rest
+export interface DeadLetter extends OfflineAction {
+  failedAt: number;
+}
+
+const QUEUE = 'offline_queue';
+const DEAD = 'sync_dead_letters';
+
+export const queueId = () => `q-${Date.now()}-${Math.random()}`;
+
+// Collapses the queue to one write per record: the newest edit's data,
+// checked against the version the oldest edit started from. A row created
+// and deleted while offline drops out entirely. Oldest first.
+export const compactQueue = (queue: OfflineAction[]): { action: OfflineAction | null; replaces: string[] }[] => {
+  const groups = new Map<string, OfflineAction[]>();
+  [...queue].sort((a, b) => a.timestamp - b.timestamp).forEach(a => {
+    const key = `${a.table}:${a.data.id}`;
+    groups.set(key, [...(groups.get(key) || []), a]);
+  });
+  return [...groups.values()].map(entries => {
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const replaces = entries.map(e => e.id);
+    if (entries.length === 1) return { action: first, replaces: [] };
+    if (first.action === 'UPSERT' && first.baseVersion === undefined && last.action === 'DELETE') return { action: null, replaces };
+    return {
+      action: {
+        ...last,
+        baseVersion: first.baseVersion,
+        base: first.base,
+        attempts: Math.max(...entries.map(e => e.attempts || 0)),
+        nextAttemptAt: last.nextAttemptAt
+      },
+      replaces: replaces.filter(id => id !== last.id)
+    };
+  });
+};
+
+// Doubles with each failure, with some jitter so terminals that went offline
+// together don't all retry at the same moment
+export const backoffDelay = (attempts: number) =>
+  Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)) * (0.8 + Math.random() * 0.4);
+
+export const isDue = (a: OfflineAction, now = Date.now()) => !a.nextAttemptAt || a.nextAttemptAt <= now;
+
+// Dropped connections are worth waiting out; anything else the server said no to
+export const isNetworkError = (e: any) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) || e instanceof TypeError || /fetch|network|timeout/i.test(e?.message || '');
+
+export const syncQueue = {
+  async enqueue(actions: OfflineAction[]): Promise<void> {
+    await dbService.saveItems(QUEUE, actions);
+  },
+
+  // Compacts the stored queue in place and returns what is left, oldest first
+  async load(): Promise<OfflineAction[]> {
+    const compacted = compactQueue(await dbService.getAll<OfflineAction>(QUEUE));
+    const superseded = compacted.flatMap(c => c.replaces);
+    const merged = compacted.filter(c => c.action && c.replaces.length > 0).map(c => c.action!);
+    if (superseded.length > 0) {
+      await dbService.saveItems(QUEUE, merged);
+      await dbService.deleteItems(QUEUE, superseded);
+    }
+    return compacted.map(c => c.action).filter((a): a is OfflineAction => !!a);
+  },
+
+  async done(ids: string[]): Promise<void> {
+    await dbService.deleteItems(QUEUE, ids);
+  },
+
+  // Schedules the next try, or moves the write to the dead-letter store once
+  // it has used up its attempts
+  async fail(action: OfflineAction, error: any): Promise<void> {
+    const attempts = (action.attempts || 0) + 1;
+    const lastError = error?.message || JSON.stringify(error);
+    if (attempts >= SYNC_MAX_ATTEMPTS) {
+      await dbService.saveItems(DEAD, [{ ...action, attempts, lastError, nextAttemptAt: undefined, failedAt: Date.now() }]);
+      await dbService.deleteItem(QUEUE, action.id);
+      return;
+    }
+    await dbService.saveItems(QUEUE, [{ ...action, attempts, lastError, nextAttemptAt: Date.now() + backoffDelay(attempts) }]);
+  },
+
+  async deadLetters(): Promise<DeadLetter[]> {
+    const all = await dbService.getAll<DeadLetter>(DEAD);
+    return all.sort((a, b) => b.failedAt - a.failedAt);
+  },
+
+  // Puts a dead letter back in the queue with a fresh set of attempts
+  async retry(letter: DeadLetter): Promise<void> {
+    const { failedAt, ...action } = letter;
+    await dbService.saveItems(QUEUE, [{ ...action, attempts: 0, nextAttemptAt: undefined }]);
+    await dbService.deleteItem(DEAD, letter.id);
+  },
+
+  async discard(letter: DeadLetter): Promise<void> {
+    await dbService.deleteItem(DEAD, letter.id);
+  }
+};
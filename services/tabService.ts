@@ -0,0 +1,84 @@
+// Coordinates copies of the app open in several tabs of the same browser.
+// One tab at a time is the sync leader: it replays the offline queue and
+// holds the realtime subscriptions, passing what it hears on to the others.
+// Every tab announces its own local writes so the rest stay current.
+
+export interface TableChange {
+  table: string;
+  event: 'INSERT' | 'UPDATE' | 'DELETE' | string;
+  data: any;
+}
+
+type TabMessage =
+  | { type: 'CHANGE'; change: TableChange }
+  | { type: 'SYNC_REQUEST' };
+
+const CHANNEL = 'automate_tabs';
+const LEADER_LOCK = 'automate_sync_leader';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL) : null;
+
+let leader = false;
+let started = false;
+const leaderListeners = new Set<(isLeader: boolean) => void>();
+const changeListeners = new Set<(change: TableChange) => void>();
+const syncListeners = new Set<() => void>();
+
+const setLeader = (value: boolean) => {
+  leader = value;
+  leaderListeners.forEach(cb => cb(value));
+};
+
+channel?.addEventListener('message', (e: MessageEvent<TabMessage>) => {
+  const msg = e.data;
+  if (msg.type === 'CHANGE') changeListeners.forEach(cb => cb(msg.change));
+  if (msg.type === 'SYNC_REQUEST' && leader) syncListeners.forEach(cb => cb());
+});
+
+export const tabService = {
+  // Joins the election. The lock is held until the tab closes, when the
+  // browser hands it to the next waiting tab. Without Web Locks every tab
+  // leads, as before.
+  start() {
+    if (started) return;
+    started = true;
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) {
+      setLeader(true);
+      return;
+    }
+    locks.request(LEADER_LOCK, () => {
+      setLeader(true);
+      return new Promise(() => {});
+    });
+  },
+
+  isLeader(): boolean {
+    return leader;
+  },
+
+  onLeaderChange(cb: (isLeader: boolean) => void): () => void {
+    leaderListeners.add(cb);
+    return () => { leaderListeners.delete(cb); };
+  },
+
+  // Tells the other tabs about a change this one made or heard from the cloud
+  broadcast(change: TableChange) {
+    channel?.postMessage({ type: 'CHANGE', change } as TabMessage);
+  },
+
+  onChange(cb: (change: TableChange) => void): () => void {
+    changeListeners.add(cb);
+    return () => { changeListeners.delete(cb); };
+  },
+
+  // Asks the leader to replay the offline queue now
+  requestSync() {
+    channel?.postMessage({ type: 'SYNC_REQUEST' } as TabMessage);
+  },
+
+  onSyncRequest(cb: () => void): () => void {
+    syncListeners.add(cb);
+    return () => { syncListeners.delete(cb); };
+  }
+};
@@ -0,0 +1,54 @@
+import { OrderLine, StatutoryDiscount, TaxBreakdown, TaxType } from '../types';
+
+export const VAT_RATE = 0.12;
+export const STATUTORY_DISCOUNT_RATE = 0.20;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type LineTax = Pick<OrderLine, 'taxType' | 'vatableSales' | 'tax' | 'exemptSales' | 'zeroRatedSales' | 'vatExemption' | 'discount' | 'lineTotal'>;
+
+// Shelf prices are VAT-inclusive. A Senior/PWD sale is VAT-exempt, so VAT is
+// first stripped out and the 20% discount is taken on the VAT-exclusive price.
+// Non-VAT-registered businesses issue every line as VAT-exempt.
+export const computeLineTax = (
+  unitPrice: number,
+  quantity: number,
+  taxType: TaxType = 'VAT',
+  statutory = false,
+  vatRegistered = true
+): LineTax => {
+  const effectiveType: TaxType = vatRegistered ? taxType : 'VAT_EXEMPT';
+  const gross = round2(unitPrice * quantity);
+  const empty = { taxType: effectiveType, vatableSales: 0, tax: 0, exemptSales: 0, zeroRatedSales: 0, vatExemption: 0, discount: 0 };
+
+  if (effectiveType === 'VAT' && !statutory) {
+    const vatableSales = round2(gross / (1 + VAT_RATE));
+    return { ...empty, vatableSales, tax: round2(gross - vatableSales), lineTotal: gross };
+  }
+
+  if (effectiveType === 'VAT') {
+    const net = round2(gross / (1 + VAT_RATE));
+    const discount = round2(net * STATUTORY_DISCOUNT_RATE);
+    return { ...empty, exemptSales: net, vatExemption: round2(gross - net), discount, lineTotal: round2(net - discount) };
+  }
+
+  const discount = statutory ? round2(gross * STATUTORY_DISCOUNT_RATE) : 0;
+  return effectiveType === 'ZERO_RATED'
+    ? { ...empty, zeroRatedSales: gross, discount, lineTotal: round2(gross - discount) }
+    : { ...empty, exemptSales: gross, discount, lineTotal: round2(gross - discount) };
+};
+
+export const summarizeTax = (lines: Partial<OrderLine>[]): TaxBreakdown => {
+  const sum = (pick: (l: Partial<OrderLine>) => number | undefined) => round2(lines.reduce((s, l) => s + (pick(l) || 0), 0));
+  return {
+    vatableSales: sum(l => l.vatableSales),
+    vatAmount: sum(l => l.tax),
+    exemptSales: sum(l => l.exemptSales),
+    zeroRatedSales: sum(l => l.zeroRatedSales),
+    vatExemption: sum(l => l.vatExemption),
+    statutoryDiscount: sum(l => l.discount)
+  };
+};
+
+export const isValidStatutoryDiscount = (d?: StatutoryDiscount | null) =>
+  !!d && d.idNumber.trim().length > 0 && d.holderName.trim().length > 0;
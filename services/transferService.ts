@@ -0,0 +1,181 @@
+import { Product, ProductVariant, StockLot, StockMovement, StockTransfer, StockTransferLine, SystemUser, TransferStatus } from '../types';
+import { dataService } from './dataService';
+import { newMovement } from './stockService';
+import { allocateLots } from './lotService';
+import { stockKey } from './variantService';
+import { isBundle } from './bundleService';
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  DRAFT: 'Draft',
+  IN_TRANSIT: 'In Transit',
+  RECEIVED: 'Received',
+  CANCELLED: 'Cancelled'
+};
+
+export const transferLineKey = (l: { productId: string; variantId?: string }) => stockKey(l.productId, l.variantId);
+
+// TR-YYYYMMDD-NN, numbered per day like purchase orders
+export const nextTransferNumber = (existing: StockTransfer[], now = new Date()) => {
+  const prefix = `TR-${now.toISOString().slice(0, 10).replace(/-/g, '')}-`;
+  const taken = existing.filter(t => t.transferNumber.startsWith(prefix)).length;
+  return `${prefix}${String(taken + 1).padStart(2, '0')}`;
+};
+
+export const newTransfer = (fromBusinessId: string, toBusinessId: string, existing: StockTransfer[]): StockTransfer => ({
+  id: `TR-${Date.now()}`,
+  transferNumber: nextTransferNumber(existing),
+  fromBusinessId,
+  toBusinessId,
+  status: 'DRAFT',
+  lines: [],
+  createdAt: new Date().toISOString()
+});
+
+export const transferLineFor = (product: Product, variantId?: string, quantity = 1): StockTransferLine => {
+  const variant = product.variants?.find(v => v.id === variantId);
+  return {
+    productId: product.id,
+    variantId: variant?.id,
+    sku: variant?.sku || product.sku,
+    name: variant ? `${product.name} (${variant.name})` : product.name,
+    category: product.category,
+    price: variant?.price ?? product.price,
+    unitCost: product.costPrice || 0,
+    quantity,
+    quantityReceived: 0
+  };
+};
+
+export const findBySku = (products: Product[], sku: string): { product: Product; variant?: ProductVariant } | undefined => {
+  const s = sku.trim().toLowerCase();
+  if (!s) return undefined;
+  for (const product of products) {
+    const variant = product.variants?.find(v => v.sku?.toLowerCase() === s);
+    if (variant) return { product, variant };
+    if (!product.variants?.length && product.sku.toLowerCase() === s) return { product };
+  }
+  return undefined;
+};
+
+// Checks a draft against what the sending business has on hand.
+export const validateTransfer = (t: StockTransfer, products: Product[]): string | null => {
+  if (t.fromBusinessId === t.toBusinessId) return 'Choose a different business to send the stock to.';
+  if (t.lines.length === 0) return 'Add at least one item to send.';
+  for (const l of t.lines) {
+    if (!Number.isInteger(l.quantity) || l.quantity <= 0) return `Enter how many ${l.name} to send.`;
+    const product = products.find(p => p.id === l.productId);
+    const onHand = l.variantId ? product?.variants?.find(v => v.id === l.variantId)?.stock : product?.stock;
+    if (onHand === undefined) return `${l.name} is no longer in this shop.`;
+    if (isBundle(product!)) return `${l.name} is a bundle. Send the items inside it instead.`;
+    if (l.quantity > onHand) return `Only ${onHand} of ${l.name} on hand to send.`;
+  }
+  return null;
+};
+
+// Takes the stock out of the sending shop, first-expiring lots first, and
+// records which lots went so the receiver can book them back in.
+export const dispatchTransfer = (
+  t: StockTransfer,
+  products: Product[],
+  lots: StockLot[],
+  user?: SystemUser | null
+): { transfer: StockTransfer; movements: StockMovement[] } => {
+  if (t.status !== 'DRAFT') throw new Error('This transfer has already been sent.');
+  const problem = validateTransfer(t, products);
+  if (problem) throw new Error(problem);
+  const movements = allocateLots(t.lines.map(l => newMovement(
+    l.productId, 'TRANSFER', -l.quantity, `Sent on ${t.transferNumber}`, user,
+    { variantId: l.variantId, reference: t.transferNumber, unitCost: l.unitCost }
+  )), lots);
+  const lines = t.lines.map(l => {
+    const sent = movements.filter(m => m.lotNumber && transferLineKey(m) === transferLineKey(l));
+    return sent.length > 0
+      ? { ...l, lots: sent.map(m => ({ lotNumber: m.lotNumber!, expiresAt: m.expiresAt, quantity: -m.quantity })) }
+      : l;
+  });
+  return {
+    transfer: { ...t, lines, status: 'IN_TRANSIT', dispatchedAt: new Date().toISOString(), dispatchedBy: user?.name },
+    movements
+  };
+};
+
+export interface TransferMatch {
+  line: StockTransferLine;
+  product?: Product;
+  variant?: ProductVariant;
+}
+
+export const matchTransferLines = (t: StockTransfer, products: Product[]): TransferMatch[] =>
+  t.lines.map(line => ({ line, ...findBySku(products, line.sku) }));
+
+// Books the delivery into the receiving shop. Items it doesn't stock yet are
+// created from the line; variants have to exist already since their options
+// can't be guessed from a SKU.
+export const receiveTransfer = (
+  t: StockTransfer,
+  received: Record<string, number>,
+  products: Product[],
+  user?: SystemUser | null
+): { transfer: StockTransfer; movements: StockMovement[]; created: Product[] } => {
+  if (t.status !== 'IN_TRANSIT') throw new Error('Only transfers in transit can be received.');
+  const created: Product[] = [];
+  const movements: StockMovement[] = [];
+  const lines = matchTransferLines(t, products).map(({ line, product, variant }, i) => {
+    const qty = received[transferLineKey(line)] ?? line.quantity;
+    if (!Number.isInteger(qty) || qty < 0) throw new Error(`Enter a whole number received for ${line.name}.`);
+    if (qty > line.quantity) throw new Error(`${line.name}: only ${line.quantity} were sent.`);
+    if (!product && line.variantId) throw new Error(`${line.name}: no variant here has SKU ${line.sku}. Add it in Inventory first.`);
+    let target = product;
+    if (!target) {
+      target = {
+        id: `ID-${Date.now()}-${i}`,
+        name: line.name,
+        sku: line.sku,
+        category: line.category,
+        price: line.price,
+        costPrice: line.unitCost,
+        stock: 0,
+        taxType: 'VAT'
+      };
+      created.push(target);
+    }
+    let left = qty;
+    const base = { variantId: variant?.id, reference: t.transferNumber, unitCost: line.unitCost };
+    (line.lots || []).forEach(lot => {
+      const take = Math.min(left, lot.quantity);
+      if (take <= 0) return;
+      left -= take;
+      movements.push(newMovement(target!.id, 'TRANSFER', take, `Received on ${t.transferNumber}`, user, { ...base, lotNumber: lot.lotNumber, expiresAt: lot.expiresAt }));
+    });
+    if (left > 0) movements.push(newMovement(target.id, 'TRANSFER', left, `Received on ${t.transferNumber}`, user, base));
+    return { ...line, quantityReceived: qty };
+  });
+  return {
+    transfer: { ...t, lines, status: 'RECEIVED', receivedAt: new Date().toISOString(), receivedBy: user?.name },
+    movements,
+    created
+  };
+};
+
+// Units sent but not booked in at the other end
+export const transferShortfall = (t: StockTransfer) =>
+  t.status === 'RECEIVED' ? t.lines.reduce((s, l) => s + (l.quantity - l.quantityReceived), 0) : 0;
+
+export const transferService = {
+  // Outgoing transfers are stored under this business; incoming ones are
+  // found by their destination.
+  async fetch(businessId: string): Promise<StockTransfer[]> {
+    const [outgoing, incoming] = await Promise.all([
+      dataService.fetch<StockTransfer>('stock_transfers', 'stock_transfers', businessId),
+      dataService.fetch<StockTransfer>('stock_transfers', 'stock_transfers', businessId, 'to_business_id')
+    ]);
+    const byId = new Map([...outgoing, ...incoming].map(t => [t.id, { ...t, lines: t.lines || [] }]));
+    return [...byId.values()].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
+
+  async save(t: StockTransfer): Promise<StockTransfer> {
+    const tagged = { ...t, businessId: t.fromBusinessId };
+    await dataService.upsert('stock_transfers', 'stock_transfers', tagged, t.fromBusinessId);
+    return tagged;
+  }
+};
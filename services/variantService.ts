@@ -0,0 +1,89 @@
+import { CartItem, ModifierGroup, OptionGroup, Product, ProductVariant, SelectedModifier } from '../types';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const hasVariants = (p: Product) => (p.variants?.length || 0) > 0;
+
+export const needsPicker = (p: Product) => hasVariants(p) || (p.modifierGroups?.length || 0) > 0;
+
+export const variantStockTotal = (variants: ProductVariant[]) => variants.reduce((s, v) => s + v.stock, 0);
+
+const comboName = (options: Record<string, string>) => Object.values(options).join(' / ');
+
+// Every combination of the option groups. Existing variants keep their sku,
+// price and stock when their combination survives an edit.
+export const generateVariants = (product: Partial<Product>, groups: OptionGroup[]): ProductVariant[] => {
+  const usable = groups.filter(g => g.name.trim() && g.values.length > 0);
+  if (usable.length === 0) return [];
+  const combos = usable.reduce<Record<string, string>[]>(
+    (acc, g) => acc.flatMap(c => g.values.map(v => ({ ...c, [g.name]: v }))),
+    [{}]
+  );
+  const baseSku = product.sku || 'ITEM';
+  return combos.map((options, idx) => {
+    const name = comboName(options);
+    const existing = product.variants?.find(v => v.name === name);
+    return existing || {
+      id: `VAR-${Date.now()}-${idx}`,
+      name,
+      options,
+      sku: `${baseSku}-${Object.values(options).map(v => v.replace(/\s+/g, '').slice(0, 3).toUpperCase()).join('-')}`,
+      price: product.price || 0,
+      stock: 0
+    };
+  });
+};
+
+// Returns a cashier-facing message when a pick breaks a group's min/max rule.
+export const validateModifiers = (groups: ModifierGroup[], picked: Record<string, string[]>): string | null => {
+  for (const g of groups) {
+    const count = (picked[g.id] || []).length;
+    if (count < g.min) return g.min === 1 ? `Please choose a ${g.name}.` : `Please choose at least ${g.min} for ${g.name}.`;
+    if (g.max > 0 && count > g.max) return `${g.name} allows up to ${g.max}.`;
+  }
+  return null;
+};
+
+export const resolveModifiers = (groups: ModifierGroup[], picked: Record<string, string[]>): SelectedModifier[] =>
+  groups.flatMap(g => g.options
+    .filter(o => (picked[g.id] || []).includes(o.id))
+    .map(o => ({ groupName: g.name, name: o.name, price: o.price })));
+
+// The basket line for a product picked with a variant and/or modifiers.
+export const buildCartItem = (product: Product, variant: ProductVariant | undefined, modifiers: SelectedModifier[]): CartItem => {
+  const base = variant ? variant.price : product.price;
+  const key = [product.id, variant?.id || '', ...modifiers.map(m => `${m.groupName}:${m.name}`)].join('|');
+  return {
+    ...product,
+    sku: variant?.sku || product.sku,
+    price: round2(base + modifiers.reduce((s, m) => s + m.price, 0)),
+    stock: variant ? variant.stock : product.stock,
+    quantity: 1,
+    key,
+    variantId: variant?.id,
+    variantName: variant?.name,
+    modifiers: modifiers.length > 0 ? modifiers : undefined
+  };
+};
+
+export const cartKey = (item: CartItem) => item.key || item.id;
+
+// Stock is counted per variant when the item has them, otherwise per product.
+export const stockKey = (productId: string, variantId?: string) => variantId ? `${productId}:${variantId}` : productId;
+
+export const lineDescription = (item: { variantName?: string; modifiers?: SelectedModifier[] }) =>
+  [item.variantName, ...(item.modifiers || []).map(m => `+${m.name}`)].filter(Boolean).join(', ');
+
+// Checks the variant and add-on setup of an item before it is saved.
+export const validateProductOptions = (item: Partial<Product>): string | null => {
+  const skus = (item.variants || []).map(v => v.sku.trim().toLowerCase());
+  if (skus.some(s => !s)) return 'Every variant needs a SKU.';
+  if (new Set(skus).size !== skus.length) return 'Two variants share the same SKU.';
+  for (const g of item.modifierGroups || []) {
+    if (!g.name.trim()) return 'Give each add-on group a name.';
+    if (g.options.some(o => !o.name.trim())) return `Every choice in ${g.name} needs a name.`;
+    if (g.max > 0 && g.min > g.max) return `${g.name} asks for more choices than it allows.`;
+    if (g.min > g.options.length) return `${g.name} needs at least ${g.min} choices to pick from.`;
+  }
+  return null;
+};
@@ -1 +1,385 @@
-��.���䲲צ
\ No newline at end of file
+-- Tables added since the original products/users/suppliers/referrals/businesses
+-- set. Nested lists (payments, lines, receipts, history, ...) are stored as
+-- jsonb, as the client writes them. The version, updated_at and synced_at
+-- columns come from the blocks further down.
+create table if not exists orders (
+  id text primary key,
+  business_id text,
+  date timestamptz not null default now(),
+  location text,
+  operator_id text,
+  operator_name text,
+  shift_id text,
+  customer_name text,
+  kind text,
+  status text not null,
+  refund_of text,
+  refund_reason text,
+  approved_by_id text,
+  approved_by_name text,
+  receipt_no text,
+  terminal_id text,
+  subtotal numeric not null default 0,
+  discount_total numeric not null default 0,
+  tax_total numeric not null default 0,
+  total numeric not null default 0,
+  tax_breakdown jsonb,
+  statutory_discount jsonb,
+  payments jsonb not null default '[]'
+);
+create index if not exists orders_business_date on orders (business_id, date);
+
+create table if not exists order_lines (
+  id text primary key,
+  order_id text not null references orders (id) on delete cascade,
+  business_id text,
+  product_id text,
+  product_name text not null,
+  sku text,
+  category text,
+  unit_price numeric not null default 0,
+  quantity numeric not null,
+  discount numeric not null default 0,
+  tax numeric not null default 0,
+  line_total numeric not null default 0,
+  tax_type text,
+  vatable_sales numeric not null default 0,
+  exempt_sales numeric not null default 0,
+  zero_rated_sales numeric not null default 0,
+  vat_exemption numeric not null default 0,
+  refund_of_line_id text,
+  variant_id text,
+  variant_name text,
+  modifiers jsonb,
+  unit_cost numeric,
+  cogs numeric,
+  components jsonb
+);
+create index if not exists order_lines_order on order_lines (order_id);
+
+create table if not exists shifts (
+  id text primary key,
+  business_id text,
+  user_id text not null,
+  user_name text,
+  status text not null,
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  opening_float numeric not null default 0,
+  movements jsonb not null default '[]',
+  z_reading jsonb
+);
+
+create table if not exists receipt_series (
+  id text primary key,
+  business_id text,
+  terminal_id text not null,
+  doc_type text not null,
+  last_issued bigint not null default 0,
+  grand_total numeric not null default 0,
+  blocks jsonb
+);
+
+create table if not exists stock_movements (
+  id text primary key,
+  business_id text,
+  product_id text not null,
+  variant_id text,
+  type text not null,
+  quantity numeric not null,
+  reason text,
+  reference text,
+  unit_cost numeric,
+  lot_number text,
+  expires_at date,
+  user_id text,
+  user_name text,
+  created_at timestamptz not null default now()
+);
+create index if not exists stock_movements_product on stock_movements (business_id, product_id);
+
+create table if not exists purchase_orders (
+  id text primary key,
+  business_id text,
+  po_number text not null,
+  supplier_id text not null,
+  status text not null,
+  lines jsonb not null default '[]',
+  receipts jsonb not null default '[]',
+  notes text,
+  expected_at timestamptz,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  closed_at timestamptz
+);
+
+create table if not exists stock_counts (
+  id text primary key,
+  business_id text,
+  count_number text not null,
+  category text,
+  status text not null,
+  lines jsonb not null default '[]',
+  history jsonb not null default '[]',
+  notes text,
+  created_at timestamptz not null default now(),
+  submitted_at timestamptz,
+  approved_at timestamptz,
+  approved_by text
+);
+
+create table if not exists stock_transfers (
+  id text primary key,
+  business_id text,
+  transfer_number text not null,
+  from_business_id text not null,
+  to_business_id text not null,
+  status text not null,
+  lines jsonb not null default '[]',
+  notes text,
+  created_at timestamptz not null default now(),
+  dispatched_at timestamptz,
+  dispatched_by text,
+  received_at timestamptz,
+  received_by text
+);
+
+create table if not exists categories (
+  id text primary key,
+  business_id text,
+  name text not null,
+  parent_id text,
+  sort_order integer not null default 0,
+  color text,
+  icon text
+);
+
+-- Row level security. The app signs people in against its own users table,
+-- not Supabase Auth, so every request arrives with the anon key; these
+-- policies let that key through and the client scopes rows by business_id.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'orders', 'order_lines', 'shifts', 'receipt_series', 'stock_movements',
+    'purchase_orders', 'stock_counts', 'stock_transfers', 'categories'
+  ] loop
+    execute format('alter table %I enable row level security', t);
+    execute format('drop policy if exists app_access on %I', t);
+    execute format('create policy app_access on %I for all to anon, authenticated using (true) with check (true)', t);
+  end loop;
+end $$;
+
+-- Optimistic concurrency for offline sync. Every editable table carries a
+-- version the client bumps on each write; updates only apply while the row
+-- still holds the version the edit was based on (see services/dataService.ts).
+-- Insert-only tables (stock_movements, order_lines) are left out.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'products', 'orders', 'shifts', 'users', 'suppliers', 'referrals', 'businesses',
+    'receipt_series', 'purchase_orders', 'stock_counts', 'stock_transfers', 'categories'
+  ] loop
+    execute format('alter table %I add column if not exists version integer not null default 0', t);
+    execute format('alter table %I add column if not exists updated_at timestamptz not null default now()', t);
+  end loop;
+end $$;
+
+-- Delta sync. `synced_at` is stamped by the server on every insert and
+-- update so clients can pull only what changed since their last pull, and
+-- deletes leave a tombstone naming the businesses that held the row.
+create table if not exists sync_tombstones (
+  id bigserial primary key,
+  table_name text not null,
+  record_id text not null,
+  business_ids text[] not null default '{}',
+  deleted_at timestamptz not null default now()
+);
+create index if not exists sync_tombstones_lookup on sync_tombstones (table_name, deleted_at);
+-- Written only by the trigger below, so clients may just read
+alter table sync_tombstones enable row level security;
+drop policy if exists app_read on sync_tombstones;
+create policy app_read on sync_tombstones for select to anon, authenticated using (true);
+
+create or replace function touch_synced_at() returns trigger as $$
+begin
+  new.synced_at := now();
+  return new;
+end $$ language plpgsql;
+
+create or replace function record_tombstone() returns trigger as $$
+declare
+  r jsonb := to_jsonb(old);
+begin
+  insert into sync_tombstones (table_name, record_id, business_ids)
+  values (tg_table_name, r->>'id', array_remove(array[
+    r->>'business_id',
+    r->>'to_business_id',
+    case when tg_table_name = 'businesses' then r->>'id' end
+  ], null));
+  return old;
+end $$ language plpgsql security definer set search_path = public;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'products', 'orders', 'order_lines', 'shifts', 'users', 'suppliers', 'referrals', 'businesses',
+    'receipt_series', 'stock_movements', 'purchase_orders', 'stock_counts', 'stock_transfers', 'categories'
+  ] loop
+    execute format('alter table %I add column if not exists synced_at timestamptz not null default now()', t);
+    execute format('create index if not exists %I on %I (synced_at, id)', t || '_synced_at', t);
+    execute format('drop trigger if exists touch_synced_at on %I', t);
+    execute format('create trigger touch_synced_at before insert or update on %I for each row execute function touch_synced_at()', t);
+    execute format('drop trigger if exists record_tombstone on %I', t);
+    execute format('create trigger record_tombstone after delete on %I for each row execute function record_tombstone()', t);
+  end loop;
+end $$;
+
+-- Receipt terminals and number blocks (see services/receiptService.ts). The
+-- server hands out terminal codes, so no two devices share one, and reserves
+-- the receipt numbers each terminal issues in blocks, so numbers stay unique
+-- even when a wiped device takes its old code back. A code only moves to
+-- another device with the key of the device holding it, or with a one-time
+-- secret another terminal of the business got by releasing it.
+create sequence if not exists receipt_terminal_seq;
+
+create table if not exists receipt_terminals (
+  id text primary key,
+  device_key text unique,
+  claim_secret_hash text,
+  claim_expires_at timestamptz,
+  registered_at timestamptz not null default now()
+);
+alter table receipt_terminals alter column device_key drop not null;
+alter table receipt_terminals add column if not exists claim_secret_hash text;
+alter table receipt_terminals add column if not exists claim_expires_at timestamptz;
+
+create table if not exists receipt_blocks (
+  id bigserial primary key,
+  business_id text not null,
+  terminal_id text not null references receipt_terminals (id),
+  doc_type text not null,
+  first_no bigint not null,
+  last_no bigint not null,
+  reserved_at timestamptz not null default now()
+);
+create index if not exists receipt_blocks_series on receipt_blocks (business_id, terminal_id, doc_type, last_no);
+
+alter table receipt_series add column if not exists blocks jsonb;
+
+-- Only reached through the functions below
+alter table receipt_terminals enable row level security;
+alter table receipt_blocks enable row level security;
+
+create or replace function register_terminal(p_device_key text) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  code text;
+begin
+  select id into code from receipt_terminals where device_key = p_device_key;
+  if found then return code; end if;
+  code := 'T' || lpad(nextval('receipt_terminal_seq')::text, 4, '0');
+  insert into receipt_terminals (id, device_key) values (code, p_device_key);
+  return code;
+end $$;
+
+-- Unbinds a terminal whose device was wiped or lost, called from another
+-- terminal that has reserved numbers for the same business. Returns the
+-- one-time secret that lets a device claim the code within a day.
+create or replace function release_terminal(p_code text, p_device_key text) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  caller text;
+  secret text;
+begin
+  select id into caller from receipt_terminals where device_key = p_device_key;
+  if caller is null then raise exception 'This device is not a registered terminal'; end if;
+  if caller = p_code then raise exception 'A terminal cannot release itself'; end if;
+  if not exists (
+    select 1 from receipt_blocks mine join receipt_blocks theirs using (business_id)
+    where mine.terminal_id = caller and theirs.terminal_id = p_code
+  ) then
+    raise exception 'Terminal % does not issue receipts for a business this device serves', p_code;
+  end if;
+  secret := upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 10));
+  update receipt_terminals
+    set device_key = null,
+        claim_secret_hash = encode(sha256(convert_to(secret, 'UTF8')), 'hex'),
+        claim_expires_at = now() + interval '1 day'
+    where id = p_code;
+  return secret;
+end $$;
+
+-- Binds a code to this device. p_proof is the key of the device that holds
+-- the code now, or the secret from release_terminal once it was released.
+drop function if exists claim_terminal(text, text);
+create or replace function claim_terminal(p_code text, p_device_key text, p_proof text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  t receipt_terminals;
+begin
+  select * into t from receipt_terminals where id = p_code for update;
+  if not found then raise exception 'No terminal has the code %', p_code; end if;
+  if t.device_key is not null then
+    if t.device_key is distinct from p_proof then
+      raise exception 'Terminal % is still bound to another device. Release it from another terminal first.', p_code;
+    end if;
+  elsif t.claim_secret_hash is null or t.claim_expires_at < now()
+     or t.claim_secret_hash <> encode(sha256(convert_to(coalesce(p_proof, ''), 'UTF8')), 'hex') then
+    raise exception 'That claim secret is wrong or has expired';
+  end if;
+  update receipt_terminals
+    set device_key = p_device_key, claim_secret_hash = null, claim_expires_at = null
+    where id = p_code;
+end $$;
+
+create or replace function reserve_receipt_block(p_device_key text, p_business_id text, p_doc_type text, p_size int, p_floor bigint default 0)
+returns table (first_no bigint, last_no bigint)
+language plpgsql security definer set search_path = public as $$
+declare
+  terminal text;
+  start_at bigint;
+begin
+  select id into terminal from receipt_terminals where device_key = p_device_key;
+  if terminal is null then raise exception 'This device is not a registered terminal'; end if;
+  perform pg_advisory_xact_lock(hashtext(p_business_id || ':' || terminal || ':' || p_doc_type));
+  select greatest(coalesce(max(b.last_no), 0), p_floor) + 1 into start_at
+    from receipt_blocks b
+    where b.business_id = p_business_id and b.terminal_id = terminal and b.doc_type = p_doc_type;
+  insert into receipt_blocks (business_id, terminal_id, doc_type, first_no, last_no)
+    values (p_business_id, terminal, p_doc_type, start_at, start_at + p_size - 1);
+  return query select start_at, start_at + p_size - 1;
+end $$;
+
+grant execute on function register_terminal(text), release_terminal(text, text), claim_terminal(text, text, text), reserve_receipt_block(text, text, text, int, bigint) to anon, authenticated;
+
+-- Whether the register parks an open basket without asking (Business.autoParkBaskets)
+alter table businesses add column if not exists auto_park_baskets boolean not null default false;
+
+-- Per-table conflict policy overrides (Business.conflictPolicies)
+alter table businesses add column if not exists conflict_policies jsonb;
+
+-- Product fields added for barcodes, costing, reordering, expiry tracking,
+-- bundles, tax treatment, variants and modifiers
+alter table products add column if not exists barcode text;
+alter table products add column if not exists cost_price numeric;
+alter table products add column if not exists reorder_point integer;
+alter table products add column if not exists reorder_quantity integer;
+alter table products add column if not exists preferred_supplier_id text;
+alter table products add column if not exists tracks_expiry boolean not null default false;
+alter table products add column if not exists components jsonb;
+alter table products add column if not exists tax_type text;
+alter table products add column if not exists option_groups jsonb;
+alter table products add column if not exists variants jsonb;
+alter table products add column if not exists modifier_groups jsonb;
+create index if not exists products_barcode on products (barcode);
+
+-- Business fields for VAT status, the receipt layout and inventory costing
+alter table businesses add column if not exists vat_registered boolean not null default true;
+alter table businesses add column if not exists receipt_template jsonb;
+alter table businesses add column if not exists valuation_method text;
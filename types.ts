@@ -17,6 +17,11 @@ export enum UserRole {
   EMPLOYEE = 'EMPLOYEE'
 }
 
+// How a table settles an offline edit that lands on a newer cloud row:
+// the newer `updatedAt` wins, edits to different fields are combined, or the
+// two copies wait in Settings for someone to choose.
+export type ConflictPolicy = 'LAST_WRITER_WINS' | 'MERGE_FIELDS' | 'MANUAL';
+
 export interface Business {
   id: string;
   name: string;
@@ -26,7 +31,24 @@ export interface Business {
   phone?: string;
   isPrimary?: boolean;
   tin?: string;
+  vatRegistered?: boolean;
   receiptFooter?: string;
+  receiptTemplate?: ReceiptTemplate;
+  valuationMethod?: ValuationMethod;
+  // Park an open basket without asking when the cashier leaves the register
+  autoParkBaskets?: boolean;
+  // Per-table overrides of the default conflict policies
+  conflictPolicies?: Partial<Record<string, ConflictPolicy>>;
+}
+
+// How stock on hand and cost of goods sold are costed
+export type ValuationMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+export interface ReceiptTemplate {
+  paperWidth: 58 | 80;
+  headerNote?: string;
+  showOperator: boolean;
+  showTaxBreakdown: boolean;
 }
 
 export interface SystemUser {
@@ -42,19 +64,141 @@ export interface SystemUser {
   createdAt?: Date;
 }
 
+// Products refer to their category by name, so names are unique per business.
+export interface Category {
+  id: string;
+  businessId?: string;
+  name: string;
+  parentId?: string;
+  // Position among siblings
+  sortOrder: number;
+  // Tailwind palette name and CategoryIcon key for the POS chips
+  color?: string;
+  icon?: string;
+}
+
 export interface Product {
   id: string;
   businessId?: string;
   name: string;
   sku: string;
+  barcode?: string; // EAN-13 / UPC-A / Code128 as printed on the pack, separate from the internal sku
   category: string;
   price: number;
+  // Standard cost used until the ledger has received goods at a known cost
+  costPrice?: number;
   stock: number;
   description?: string;
   supplier?: string; 
+  // Reorder when on-hand falls to this level (per variant when variants exist)
+  reorderPoint?: number;
+  reorderQuantity?: number;
+  preferredSupplierId?: string;
+  // Goods in must carry an expiry date and sales draw the first-expiring lot
+  tracksExpiry?: boolean;
+  // A bundle or kit: sold as one item at its own price, stock drawn from these
+  components?: BundleComponent[];
   imageUrl?: string;
+  taxType?: TaxType;
+  // When variants exist, stock lives on each variant and `stock` is their sum
+  optionGroups?: OptionGroup[];
+  variants?: ProductVariant[];
+  modifierGroups?: ModifierGroup[];
+}
+
+// Selling one bundle draws `quantity` of this item (or variant)
+export interface BundleComponent {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// What one bundle contained when it was sold, with each part's share of the
+// bundle's sales so reports can credit the items inside it
+export interface BundlePart {
+  productId: string;
+  variantId?: string;
+  name: string;
+  category: string;
+  quantity: number;
+  share: number;
+  unitCost?: number;
+}
+
+// A variant axis such as Size (S, M, L) or Flavor
+export interface OptionGroup {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  options: Record<string, string>;
+  sku: string;
+  barcode?: string;
+  price: number;
+  stock: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+// Add-ons picked at sale time, e.g. "Add-ons: pick up to 3"
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  min: number;
+  max: number;
+  options: ModifierOption[];
 }
 
+export type StockMovementType = 'OPENING' | 'SALE' | 'REFUND' | 'RECEIPT' | 'ADJUSTMENT' | 'TRANSFER' | 'WASTAGE';
+
+// Append-only stock ledger entry. quantity is the signed change in on-hand units.
+export interface StockMovement {
+  id: string;
+  businessId?: string;
+  productId: string;
+  variantId?: string;
+  type: StockMovementType;
+  quantity: number;
+  reason: string;
+  reference?: string;
+  // Landed cost per unit, set on goods received
+  unitCost?: number;
+  // Lot the units came from or went into; expiresAt is a YYYY-MM-DD day
+  lotNumber?: string;
+  expiresAt?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string;
+}
+
+// Remaining balance of one lot, derived from the stock ledger.
+export interface StockLot {
+  key: string;
+  productId: string;
+  variantId?: string;
+  lotNumber: string;
+  expiresAt?: string;
+  quantity: number;
+  unitCost?: number;
+  receivedAt: string;
+}
+
+export interface SelectedModifier {
+  groupName: string;
+  name: string;
+  price: number;
+}
+
+// Philippine VAT treatment of an item. Shelf prices are VAT-inclusive.
+export type TaxType = 'VAT' | 'VAT_EXEMPT' | 'ZERO_RATED';
+
 export interface Supplier {
   id: string;
   name: string;
@@ -64,10 +208,132 @@ export interface Supplier {
   address: string;
 }
 
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  variantId?: string;
+  name: string;
+  sku: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+// One delivery booked against a purchase order.
+export interface GoodsReceipt {
+  id: string;
+  receivedAt: string;
+  userName?: string;
+  lines: { productId: string; variantId?: string; quantity: number; unitCost: number; lotNumber?: string; expiresAt?: string }[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  businessId?: string;
+  poNumber: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+  notes?: string;
+  expectedAt?: string;
+  createdAt: string;
+  sentAt?: string;
+  closedAt?: string;
+}
+
+export type TransferStatus = 'DRAFT' | 'IN_TRANSIT' | 'RECEIVED' | 'CANCELLED';
+
+export interface TransferLot {
+  lotNumber: string;
+  expiresAt?: string;
+  quantity: number;
+}
+
+// Lines are identified on the sending side; the receiving business matches
+// them to its own items by SKU. name, category and price let it create the
+// item when it doesn't stock it yet.
+export interface StockTransferLine {
+  productId: string;
+  variantId?: string;
+  sku: string;
+  name: string;
+  category: string;
+  price: number;
+  unitCost: number;
+  quantity: number;
+  quantityReceived: number;
+  // Lots the units left in, filled in on dispatch
+  lots?: TransferLot[];
+}
+
+// Stored under the sending business; toBusinessId lets the receiver find it.
+export interface StockTransfer {
+  id: string;
+  businessId?: string;
+  transferNumber: string;
+  fromBusinessId: string;
+  toBusinessId: string;
+  status: TransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  createdAt: string;
+  dispatchedAt?: string;
+  dispatchedBy?: string;
+  receivedAt?: string;
+  receivedBy?: string;
+}
+
+export type StockCountStatus = 'OPEN' | 'SUBMITTED' | 'APPROVED' | 'CANCELLED';
+
+// expected is the on-hand figure frozen when the count started. Counters never
+// see it; the variance is only shown when an admin reviews the count.
+export interface StockCountLine {
+  productId: string;
+  variantId?: string;
+  name: string;
+  sku: string;
+  category: string;
+  expected: number;
+  unitCost: number;
+  counted?: number;
+  countedBy?: string;
+}
+
+export interface StockCountEvent {
+  at: string;
+  userName?: string;
+  action: string;
+}
+
+export interface StockCount {
+  id: string;
+  businessId?: string;
+  countNumber: string;
+  // Empty for a full count, otherwise the one category being counted
+  category?: string;
+  status: StockCountStatus;
+  lines: StockCountLine[];
+  history: StockCountEvent[];
+  notes?: string;
+  createdAt: string;
+  submittedAt?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+}
+
 export interface CartItem extends Product {
   quantity: number;
+  // Set for variant/modifier picks so the same product can sit on several basket lines
+  key?: string;
+  variantId?: string;
+  variantName?: string;
+  modifiers?: SelectedModifier[];
 }
 
+// Legacy per-line sale record. Superseded by Order/OrderLine and kept only so
+// existing `transactions` rows can be migrated.
 export interface Transaction {
   id: string;
   businessId?: string;
@@ -79,16 +345,170 @@ export interface Transaction {
   amount: number;
   status: 'Completed' | 'Processing' | 'Refunded';
   quantity?: number;
-  paymentMethod?: 'Cash' | 'GCash' | 'PayMaya' | 'QRPH' | 'Card' | 'Stripe' | 'PayPal' | 'PayMongo';
+  paymentMethod?: PaymentMethod;
+}
+
+export type PaymentMethod = 'Cash' | 'GCash' | 'PayMaya' | 'QRPH' | 'Card' | 'Stripe' | 'PayPal' | 'PayMongo';
+
+export type OrderStatus = 'Completed' | 'Processing' | 'Partially Refunded' | 'Refunded' | 'Voided';
+
+// Refunds and voids are stored as their own orders with negative quantities and
+// amounts, pointing back at the sale through `refundOf`.
+export type OrderKind = 'Sale' | 'Refund' | 'Void';
+
+export interface OrderLine {
+  id: string;
+  orderId: string;
+  businessId?: string;
+  productId?: string;
+  productName: string;
+  sku?: string;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+  discount: number;
+  tax: number;
+  lineTotal: number;
+  taxType: TaxType;
+  vatableSales: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  vatExemption: number;
+  refundOfLineId?: string;
+  variantId?: string;
+  variantName?: string;
+  modifiers?: SelectedModifier[];
+  // Cost of goods sold, fixed when the sale is rung up
+  unitCost?: number;
+  cogs?: number;
+  // Set on bundle lines; stock and reporting go through these instead
+  components?: BundlePart[];
+}
+
+// Senior Citizen / PWD statutory discount (RA 9994 / RA 10754)
+export interface StatutoryDiscount {
+  type: 'SC' | 'PWD';
+  idNumber: string;
+  holderName: string;
+}
+
+export interface TaxBreakdown {
+  vatableSales: number;
+  vatAmount: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  vatExemption: number;
+  statutoryDiscount: number;
+}
+
+export interface OrderPayment {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number;
+  change?: number;
+  reference?: string;
+}
+
+export interface Order {
+  id: string;
+  businessId?: string;
+  date: string;
+  location: string;
+  operatorId?: string;
+  operatorName?: string;
+  shiftId?: string;
+  customerName?: string;
+  kind?: OrderKind;
+  status: OrderStatus;
+  refundOf?: string;
+  refundReason?: string;
+  approvedById?: string;
+  approvedByName?: string;
+  receiptNo?: string;
+  terminalId?: string;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  taxBreakdown: TaxBreakdown;
+  statutoryDiscount?: StatutoryDiscount;
+  payments: OrderPayment[];
+  lines: OrderLine[];
+}
+
+export type ReceiptDocType = 'SI' | 'RT';
+
+// One gap-free number series per business, terminal and document type.
+// grandTotal is the accumulated (never reset) total of every amount issued.
+export interface ReceiptSeries {
+  id: string;
+  businessId?: string;
+  terminalId: string;
+  docType: ReceiptDocType;
+  lastIssued: number;
+  grandTotal: number;
+  // Number ranges the server has reserved for this series and not used up
+  blocks?: { start: number; end: number }[];
+  updatedAt: string;
+}
+
+export interface CashMovement {
+  id: string;
+  type: 'IN' | 'OUT';
+  amount: number;
+  reason: string;
+  timestamp: string;
+  userId?: string;
+}
+
+export interface ShiftMethodTotal {
+  method: PaymentMethod;
+  expected: number;
+  counted?: number;
+  variance?: number;
+}
+
+export interface ShiftReading {
+  kind: 'X' | 'Z';
+  generatedAt: string;
+  orderCount: number;
+  grossSales: number;
+  refundTotal: number;
+  beginningReceipt?: string;
+  endingReceipt?: string;
+  openingFloat: number;
+  cashIn: number;
+  cashOut: number;
+  byMethod: ShiftMethodTotal[];
+}
+
+export interface Shift {
+  id: string;
+  businessId?: string;
+  userId: string;
+  userName: string;
+  status: 'Open' | 'Closed';
+  openedAt: string;
+  closedAt?: string;
+  openingFloat: number;
+  movements: CashMovement[];
+  zReading?: ShiftReading;
 }
 
 export interface HeldOrder {
   id: string;
+  businessId?: string;
+  operatorId?: string;
   items: CartItem[];
   timestamp: Date;
   customerName?: string;
+  statutoryDiscount?: StatutoryDiscount;
+  reserveStock?: boolean;
 }
 
+// The basket on the register that hasn't been paid or parked yet
+export type OpenBasket = Pick<HeldOrder, 'operatorId' | 'items' | 'statutoryDiscount'>;
+
 export interface PromoterTier {
   name: string;
   commissionRate: number;
@@ -146,6 +566,12 @@ export interface IntegrationConfig {
   autoSync: boolean;
 }
 
+// A short message shown above the current screen
+export interface AppNotice {
+  message: string;
+  type: 'success' | 'info' | 'error';
+}
+
 export interface SyncLog {
   id: string;
   provider: 'XERO' | 'QUICKBOOKS' | 'GITHUB' | 'FACEBOOK' | 'INSTAGRAM' | 'TIKTOK';